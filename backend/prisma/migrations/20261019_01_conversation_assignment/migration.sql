@@ -0,0 +1,10 @@
+-- Conversation ownership for the agent inbox
+ALTER TABLE "conversations" ADD COLUMN "assignee_id" TEXT;
+ALTER TABLE "conversations" ADD COLUMN "assigned_at" TIMESTAMP(3);
+
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "admin_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX "conversations_app_id_assignee_id_status_idx" ON "conversations"("app_id", "assignee_id", "status");
+
+-- Round-robin cursor: the agent who was assigned least recently goes next
+ALTER TABLE "admin_users" ADD COLUMN "last_assigned_at" TIMESTAMP(3);
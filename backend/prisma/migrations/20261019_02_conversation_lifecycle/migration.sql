@@ -0,0 +1,6 @@
+-- Conversation lifecycle: resolve, reopen, snooze
+ALTER TABLE "conversations" ADD COLUMN "snoozed_until" TIMESTAMP(3);
+ALTER TABLE "conversations" ADD COLUMN "resolved_at" TIMESTAMP(3);
+
+-- Scheduler lookup for snoozed conversations that are due to wake up
+CREATE INDEX "conversations_status_snoozed_until_idx" ON "conversations"("status", "snoozed_until");
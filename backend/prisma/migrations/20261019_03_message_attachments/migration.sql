@@ -0,0 +1,37 @@
+-- Message attachments: files uploaded through signed URLs, linked to a message once sent
+CREATE TABLE "attachments" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "storage_driver" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "uploaded_by" TEXT NOT NULL,
+    "uploaded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "conversation_id" TEXT NOT NULL,
+    "message_id" TEXT,
+    "app_id" TEXT NOT NULL,
+
+    CONSTRAINT "attachments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "attachments_storage_key_key" ON "attachments"("storage_key");
+CREATE INDEX "attachments_conversation_id_idx" ON "attachments"("conversation_id");
+CREATE INDEX "attachments_message_id_idx" ON "attachments"("message_id");
+CREATE INDEX "attachments_app_id_idx" ON "attachments"("app_id");
+
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_conversation_id_fkey"
+  FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_message_id_fkey"
+  FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Tenant isolation, matching conversations and messages
+ALTER TABLE "attachments" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation_attachments" ON "attachments"
+  FOR ALL
+  USING (app_id = current_setting('app.current_tenant', true));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON "attachments" TO current_user;
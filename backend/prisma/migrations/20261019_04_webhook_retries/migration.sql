@@ -0,0 +1,8 @@
+-- Durable webhook delivery: failure tracking for auto-disable
+ALTER TABLE "webhooks" ADD COLUMN "consecutive_failures" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "webhooks" ADD COLUMN "failing_since" TIMESTAMP(3);
+ALTER TABLE "webhooks" ADD COLUMN "disabled_at" TIMESTAMP(3);
+ALTER TABLE "webhooks" ADD COLUMN "disabled_reason" TEXT;
+
+-- Retry worker lookup for deliveries that are due
+CREATE INDEX "webhook_deliveries_status_next_retry_at_idx" ON "webhook_deliveries"("status", "next_retry_at");
@@ -0,0 +1,3 @@
+-- Webhook secret rotation: the previous secret keeps signing until it expires
+ALTER TABLE "webhooks" ADD COLUMN "previous_secret" TEXT;
+ALTER TABLE "webhooks" ADD COLUMN "previous_secret_expires_at" TIMESTAMP(3);
@@ -0,0 +1,29 @@
+-- Saved segments: named, reusable segment queries with a cached member count
+CREATE TABLE "segments" (
+    "id" TEXT NOT NULL,
+    "app_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "query" JSONB NOT NULL,
+    "member_count" INTEGER NOT NULL DEFAULT 0,
+    "count_refreshed_at" TIMESTAMP(3),
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "segments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "segments_app_id_name_key" ON "segments"("app_id", "name");
+CREATE INDEX "segments_count_refreshed_at_idx" ON "segments"("count_refreshed_at");
+
+ALTER TABLE "segments" ADD CONSTRAINT "segments_app_id_fkey"
+  FOREIGN KEY ("app_id") REFERENCES "apps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "segments" ADD CONSTRAINT "segments_created_by_fkey"
+  FOREIGN KEY ("created_by") REFERENCES "admin_users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Broadcasts can target a saved segment by reference
+ALTER TABLE "broadcasts" ADD COLUMN "segment_id" TEXT;
+
+ALTER TABLE "broadcasts" ADD CONSTRAINT "broadcasts_segment_id_fkey"
+  FOREIGN KEY ("segment_id") REFERENCES "segments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
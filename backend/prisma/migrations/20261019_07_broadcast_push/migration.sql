@@ -0,0 +1,2 @@
+-- Broadcasts can additionally go out as push notifications
+ALTER TABLE "broadcasts" ADD COLUMN "send_push" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,4 @@
+-- Background broadcast sending: recipients are materialized once, then sent
+-- under a renewable lease so a crashed worker's broadcast can be resumed
+ALTER TABLE "broadcasts" ADD COLUMN "recipients_resolved_at" TIMESTAMP(3);
+ALTER TABLE "broadcasts" ADD COLUMN "send_lease_until" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- Timezone-aware broadcasts: each recipient gets its own send time
+ALTER TABLE "broadcasts" ADD COLUMN "local_time_delivery" BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE "broadcast_recipients" ADD COLUMN "timezone" TEXT;
+ALTER TABLE "broadcast_recipients" ADD COLUMN "scheduled_for" TIMESTAMP(3);
+
+-- The sender polls for pending recipients that are due
+DROP INDEX "broadcast_recipients_broadcast_id_status_idx";
+CREATE INDEX "broadcast_recipients_broadcast_id_status_scheduled_for_idx" ON "broadcast_recipients"("broadcast_id", "status", "scheduled_for");
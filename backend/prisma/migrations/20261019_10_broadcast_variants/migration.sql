@@ -0,0 +1,31 @@
+-- A/B variants: a test slice of the audience is split across variants, the
+-- winner by open or click rate goes to everyone else after the test window
+CREATE TABLE "broadcast_variants" (
+    "id" TEXT NOT NULL,
+    "broadcast_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "broadcast_variants_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "broadcast_variants_broadcast_id_key_key" ON "broadcast_variants"("broadcast_id", "key");
+
+ALTER TABLE "broadcast_variants" ADD CONSTRAINT "broadcast_variants_broadcast_id_fkey"
+  FOREIGN KEY ("broadcast_id") REFERENCES "broadcasts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "broadcasts" ADD COLUMN "ab_test_percent" INTEGER;
+ALTER TABLE "broadcasts" ADD COLUMN "ab_test_window_minutes" INTEGER;
+ALTER TABLE "broadcasts" ADD COLUMN "ab_winner_metric" TEXT;
+ALTER TABLE "broadcasts" ADD COLUMN "ab_test_ends_at" TIMESTAMP(3);
+ALTER TABLE "broadcasts" ADD COLUMN "winning_variant_id" TEXT;
+
+ALTER TABLE "broadcast_recipients" ADD COLUMN "variant_id" TEXT;
+
+CREATE INDEX "broadcast_recipients_variant_id_idx" ON "broadcast_recipients"("variant_id");
+
+ALTER TABLE "broadcast_recipients" ADD CONSTRAINT "broadcast_recipients_variant_id_fkey"
+  FOREIGN KEY ("variant_id") REFERENCES "broadcast_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
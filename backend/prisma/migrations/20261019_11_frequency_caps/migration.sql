@@ -0,0 +1,2 @@
+-- Recipients held back by a per-app frequency cap (App.settings.frequency_caps)
+ALTER TYPE "RecipientStatus" ADD VALUE 'SKIPPED';
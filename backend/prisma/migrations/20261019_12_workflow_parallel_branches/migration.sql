@@ -0,0 +1,2 @@
+-- Parallel paths: fan_out nodes add branches, each path that ends removes one
+ALTER TABLE "workflow_executions" ADD COLUMN "active_branches" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,16 @@
+-- Manual segment membership: explicit includes and excludes layered over the segment query
+CREATE TABLE "segment_members" (
+    "id" TEXT NOT NULL,
+    "segment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "excluded" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "segment_members_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "segment_members_segment_id_user_id_key" ON "segment_members"("segment_id", "user_id");
+
+ALTER TABLE "segment_members" ADD CONSTRAINT "segment_members_segment_id_fkey"
+  FOREIGN KEY ("segment_id") REFERENCES "segments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
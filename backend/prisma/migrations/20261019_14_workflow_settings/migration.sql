@@ -0,0 +1,2 @@
+-- Per-workflow re-entry, concurrency and exit rules
+ALTER TABLE "workflows" ADD COLUMN "settings" JSONB NOT NULL DEFAULT '{}';
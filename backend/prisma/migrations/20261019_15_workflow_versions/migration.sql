@@ -0,0 +1,30 @@
+-- Immutable workflow versions; executions are pinned to the version they started on
+CREATE TABLE "workflow_versions" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "trigger" JSONB NOT NULL,
+    "nodes" JSONB NOT NULL,
+    "edges" JSONB NOT NULL,
+    "settings" JSONB NOT NULL DEFAULT '{}',
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "workflow_versions_workflow_id_version_key" ON "workflow_versions"("workflow_id", "version");
+
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Snapshot the current definition of existing workflows
+INSERT INTO "workflow_versions" ("id", "workflow_id", "version", "trigger", "nodes", "edges", "settings", "created_by", "created_at")
+SELECT gen_random_uuid()::text, "id", "version", "trigger", "nodes", "edges", "settings", "created_by", "updated_at"
+FROM "workflows";
+
+ALTER TABLE "workflow_executions" ADD COLUMN "workflow_version" INTEGER NOT NULL DEFAULT 1;
+
+UPDATE "workflow_executions" e
+SET "workflow_version" = w."version"
+FROM "workflows" w
+WHERE w."id" = e."workflow_id";
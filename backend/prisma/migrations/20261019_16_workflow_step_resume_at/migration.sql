@@ -0,0 +1,8 @@
+-- Due time for parked wait steps, so the scheduler reads only what is due
+ALTER TABLE "workflow_steps" ADD COLUMN "resume_at" TIMESTAMP(3);
+
+UPDATE "workflow_steps"
+SET "resume_at" = "started_at" + COALESCE(("output"->>'durationMs')::bigint, 0) * INTERVAL '1 millisecond'
+WHERE "status" = 'PENDING' AND "action" IN ('wait', 'wait_for_event');
+
+CREATE INDEX "workflow_steps_status_resume_at_idx" ON "workflow_steps"("status", "resume_at");
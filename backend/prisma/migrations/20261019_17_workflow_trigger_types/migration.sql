@@ -0,0 +1,15 @@
+-- Schedule triggers: next cron run per workflow
+ALTER TABLE "workflows" ADD COLUMN "next_run_at" TIMESTAMP(3);
+
+-- Segment entry/exit triggers: membership as of the last check
+ALTER TABLE "segments" ADD COLUMN "trigger_snapshot_at" TIMESTAMP(3);
+
+CREATE TABLE "segment_trigger_members" (
+    "segment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "entered_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "segment_trigger_members_pkey" PRIMARY KEY ("segment_id","user_id")
+);
+
+ALTER TABLE "segment_trigger_members" ADD CONSTRAINT "segment_trigger_members_segment_id_fkey" FOREIGN KEY ("segment_id") REFERENCES "segments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
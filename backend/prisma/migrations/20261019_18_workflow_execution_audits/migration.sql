@@ -0,0 +1,15 @@
+-- Operator actions on workflow executions
+CREATE TABLE "workflow_execution_audits" (
+    "id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "admin_user_id" TEXT,
+    "action" TEXT NOT NULL,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_execution_audits_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "workflow_execution_audits_execution_id_created_at_idx" ON "workflow_execution_audits"("execution_id", "created_at");
+
+ALTER TABLE "workflow_execution_audits" ADD CONSTRAINT "workflow_execution_audits_execution_id_fkey" FOREIGN KEY ("execution_id") REFERENCES "workflow_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
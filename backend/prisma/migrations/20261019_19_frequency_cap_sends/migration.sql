@@ -0,0 +1,17 @@
+-- Automated sends counted against frequency caps, one per recipient and send
+CREATE TABLE "frequency_cap_sends" (
+    "id" TEXT NOT NULL,
+    "app_id" TEXT NOT NULL,
+    "recipient_key" TEXT NOT NULL,
+    "send_key" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "frequency_cap_sends_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "frequency_cap_sends_app_id_recipient_key_send_key_key" ON "frequency_cap_sends"("app_id", "recipient_key", "send_key");
+
+CREATE INDEX "frequency_cap_sends_app_id_recipient_key_created_at_idx" ON "frequency_cap_sends"("app_id", "recipient_key", "created_at");
+
+ALTER TABLE "frequency_cap_sends" ADD CONSTRAINT "frequency_cap_sends_app_id_fkey" FOREIGN KEY ("app_id") REFERENCES "apps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
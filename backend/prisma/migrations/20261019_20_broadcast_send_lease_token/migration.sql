@@ -0,0 +1,3 @@
+-- Token of the worker holding a broadcast's send lease, so a worker whose
+-- lease expired and was taken over cannot renew it
+ALTER TABLE "broadcasts" ADD COLUMN "send_lease_token" TEXT;
@@ -0,0 +1,3 @@
+-- When an operator last moved the execution, so joins only count arrivals
+-- made after the move
+ALTER TABLE "workflow_executions" ADD COLUMN "moved_at" TIMESTAMP(3);
@@ -22,8 +22,11 @@ import setupRouter from './routes/setup.js';
 import broadcastsRouter from './routes/broadcasts.js';
 import workflowsRouter from './routes/workflows.js';
 import adminWebhooksRouter from './routes/adminWebhooks.js';
+import segmentsRouter from './routes/segments.js';
 import eventsRouter from './routes/events.js';
 import identifyRouter from './routes/identify.js';
+import broadcastEngagementRouter from './routes/broadcastEngagement.js';
+import filesRouter from './routes/files.js';
 
 const app: Express = express();
 
@@ -78,6 +81,9 @@ app.use('/', express.static(publicPath, {
 // The webhook handler uses express.raw() internally
 app.use('/webhooks', webhooksRouter);
 
+// Signed attachment uploads/downloads for the local storage driver (raw body, signature-authenticated)
+app.use('/api/files', filesRouter);
+
 // Body parsing with size limits (comes AFTER webhooks)
 app.use(express.json({ limit: '100kb' }));
 app.use(express.urlencoded({ extended: true, limit: '100kb' }));
@@ -106,6 +112,9 @@ app.use('/admin/workflows', workflowsRouter);
 // Admin webhooks routes with JWT authentication
 app.use('/admin/webhooks', adminWebhooksRouter);
 
+// Saved segments routes with JWT authentication
+app.use('/admin/segments', segmentsRouter);
+
 // Admin routes with JWT authentication
 app.use('/admin', adminRouter);
 
@@ -144,6 +153,7 @@ app.use('/api/v1/conversations', conversationsRouter);
 app.use('/api/v1/push-token', pushTokenRouter);
 app.use('/api/v1/events', eventsRouter);
 app.use('/api/v1/identify', identifyRouter);
+app.use('/api/v1/broadcasts', broadcastEngagementRouter);
 
 app.use(errorHandler);
 
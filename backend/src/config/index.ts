@@ -21,6 +21,94 @@ export const config = {
     defaultLimit: 50,
   },
 
+  attachments: {
+    maxSizeBytes: parseInt(process.env.ATTACHMENT_MAX_SIZE_BYTES || String(10 * 1024 * 1024), 10),
+    maxPerMessage: 10,
+    allowedMimeTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/gif',
+      'image/webp',
+      'image/heic',
+      'application/pdf',
+      'text/plain',
+    ],
+    uploadUrlTtlSeconds: 15 * 60,
+    downloadUrlTtlSeconds: 60 * 60,
+  },
+
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || 'local') as 'local' | 's3',
+    // Public base for signed local-driver URLs; the files router is mounted at /api/files
+    publicUrl: process.env.STORAGE_PUBLIC_URL || process.env.BASE_URL || 'https://replyhq.xyz/api',
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-storage-secret-change-in-production',
+    local: {
+      directory: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    },
+    s3: {
+      bucket: process.env.S3_BUCKET || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    },
+  },
+
+  broadcasts: {
+    // Recipients sent per second by the background sender
+    sendRatePerSecond: parseInt(process.env.BROADCAST_SEND_RATE_PER_SECOND || '20', 10),
+    sendConcurrency: 10,
+    // A SENDING broadcast whose lease lapses is resumed by the scheduler
+    sendLeaseMs: 2 * 60 * 1000,
+  },
+
+  webhooks: {
+    requestTimeoutMs: 10000,
+    maxAttempts: 8,
+    retryBaseDelayMs: 30 * 1000,
+    retryMaxDelayMs: 6 * 60 * 60 * 1000,
+    // A claimed retry is re-queued after this long if the worker dies mid-delivery
+    retryLeaseMs: 5 * 60 * 1000,
+    retryBatchSize: 50,
+    // Auto-disable once failures are both numerous and sustained
+    disableAfterFailures: 20,
+    disableAfterMs: 24 * 60 * 60 * 1000,
+    // How long the old secret keeps signing after a rotation
+    secretRotationWindowMs: 24 * 60 * 60 * 1000,
+    maxSecretRotationWindowMs: 7 * 24 * 60 * 60 * 1000,
+    // Send the legacy X-ReplyHQ-Signature header next to X-ReplyHQ-Signature-V1
+    legacySignature: process.env.WEBHOOK_LEGACY_SIGNATURE !== 'false',
+  },
+
+  segments: {
+    // Cached member counts older than this are recomputed in the background
+    countRefreshIntervalMs: 15 * 60 * 1000,
+    refreshBatchSize: 20,
+  },
+
+  workflows: {
+    // Outgoing HTTP calls made by webhook nodes
+    httpTimeoutMs: 10000,
+    // Response body kept in the step output
+    maxResponseBodyLength: 2000,
+    // Parked steps claimed per scheduler query
+    schedulerBatchSize: 100,
+    // How often segments used by entry/exit triggers are re-evaluated
+    segmentTriggerIntervalMs: 5 * 60 * 1000,
+    // Attempts per step by node type, counting the first; the delay before a
+    // retry starts at backoffMs and doubles after each attempt
+    retries: {
+      default: { maxAttempts: 1, backoffMs: 0 },
+      send_message: { maxAttempts: 3, backoffMs: 60 * 1000 },
+      send_push: { maxAttempts: 3, backoffMs: 60 * 1000 },
+      webhook: { maxAttempts: 4, backoffMs: 30 * 1000 },
+    } as Record<string, { maxAttempts: number; backoffMs: number }>,
+    // Steps still RUNNING after this long are failed by the scheduler, e.g.
+    // after the process running them died
+    stepTimeoutMs: 15 * 60 * 1000,
+  },
+
   websocket: {
     heartbeatInterval: 30000,
     staleThreshold: 90000,
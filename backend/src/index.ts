@@ -16,6 +16,9 @@ import { initRedis, disconnectRedis } from './lib/redis.js';
 import { initFirebase } from './services/pushNotificationService.js';
 import { startBroadcastScheduler, stopBroadcastScheduler } from './services/broadcastScheduler.js';
 import { startWorkflowScheduler, stopWorkflowScheduler } from './services/workflowScheduler.js';
+import { startConversationScheduler, stopConversationScheduler } from './services/conversationScheduler.js';
+import { startWebhookRetryScheduler, stopWebhookRetryScheduler } from './services/webhookRetryScheduler.js';
+import { startSegmentScheduler, stopSegmentScheduler } from './services/segmentScheduler.js';
 
 let isShuttingDown = false;
 
@@ -73,6 +76,9 @@ async function main() {
   // Start broadcast scheduler
   startBroadcastScheduler();
   startWorkflowScheduler();
+  startConversationScheduler();
+  startWebhookRetryScheduler();
+  startSegmentScheduler();
 
   server.listen(config.port, '0.0.0.0', () => {
     console.log(`Server running on port ${config.port}`);
@@ -99,6 +105,9 @@ async function main() {
     await wsGracefulShutdown();
     stopBroadcastScheduler();
     stopWorkflowScheduler();
+    stopConversationScheduler();
+    stopWebhookRetryScheduler();
+    stopSegmentScheduler();
 
     await disconnectRedis();
     await disconnectDatabase();
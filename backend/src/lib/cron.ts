@@ -0,0 +1,127 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week)
+import { fromWallTime, toWallTime } from './timezone.js';
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Give up on expressions that never fire, e.g. 30 February
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const step = match[4] ? Number(match[4]) : 1;
+    const start = match[1] === '*' ? min : Number(match[2]);
+    // A single value with a step runs to the end of the range, e.g. 5/15
+    const end = match[1] === '*' || (match[4] && !match[3]) ? max : Number(match[3] ?? match[2]);
+
+    if (step < 1 || start < min || end > max || start > end) return null;
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: unknown): CronSchedule | null {
+  if (typeof expression !== 'string') return null;
+
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+  if (parsed.some((values) => values === null)) return null;
+
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  // 7 is another name for Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, day: number, weekday: number): boolean {
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return schedule.days.has(day) && schedule.weekdays.has(weekday);
+  }
+  return schedule.days.has(day) || schedule.weekdays.has(weekday);
+}
+
+/**
+ * First time after `after` that a cron expression fires, evaluated on the
+ * wall clock of a timezone
+ * @returns Null if the expression is invalid or never fires
+ */
+export function getNextCronRun(expression: unknown, after: Date, timeZone: string = 'UTC'): Date | null {
+  const schedule = parseCron(expression);
+  if (!schedule) return null;
+
+  const start = toWallTime(after, timeZone);
+  // Wall-clock fields stepped as if they were UTC, starting at the next minute
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute + 1));
+  const limit = cursor.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (cursor.getTime() < limit) {
+    if (!schedule.months.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, cursor.getUTCDate(), cursor.getUTCDay())) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+      continue;
+    }
+
+    const run = fromWallTime({
+      year: cursor.getUTCFullYear(),
+      month: cursor.getUTCMonth() + 1,
+      day: cursor.getUTCDate(),
+      hour: cursor.getUTCHours(),
+      minute: cursor.getUTCMinutes(),
+    }, timeZone);
+
+    // Wall times repeated by a DST change can map to the past
+    if (run.getTime() > after.getTime()) return run;
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  }
+
+  return null;
+}
@@ -0,0 +1,127 @@
+import { lookup } from 'dns/promises';
+import net from 'net';
+
+/**
+ * Outgoing requests to URLs written by app admins, e.g. workflow webhook
+ * nodes. Their responses are shown back to the admin, so a URL pointing at
+ * the server's own network (loopback, private ranges, cloud metadata at
+ * 169.254.169.254) would let an admin read internal services. Destinations
+ * are checked after DNS resolution and again on every redirect.
+ */
+
+export const MAX_OUTBOUND_REDIRECTS = 5;
+
+export class BlockedDestinationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedDestinationError';
+  }
+}
+
+// [network, prefix length] of IPv4 ranges that are not publicly routable
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  // IPv4-mapped (::ffff:10.0.0.1) and NAT64 (64:ff9b::10.0.0.1) addresses reach the embedded IPv4 address
+  const embedded = /^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/.exec(normalized);
+  if (embedded) return isBlockedIpv4(embedded[1]);
+
+  if (normalized === '::' || normalized === '::1') return true;
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (firstGroup & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable
+ */
+export function isBlockedAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isBlockedIpv4(address);
+  if (net.isIPv6(address)) return isBlockedIpv6(address);
+  return true;
+}
+
+/**
+ * Check that a URL is http(s) and that every address its host resolves to is public
+ * @throws BlockedDestinationError otherwise
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BlockedDestinationError(`Unsupported protocol ${url.protocol}`);
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new BlockedDestinationError(`${url.hostname} resolves to a private or reserved address`);
+  }
+}
+
+/**
+ * fetch() for admin-written URLs. Redirects are followed by hand so each hop
+ * is checked like the first; a 303, or a 301/302 after a POST, continues as a
+ * GET without a body, as fetch() would.
+ * @throws BlockedDestinationError if any hop points at a non-public address
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit): Promise<Response> {
+  let target = new URL(url);
+  let request = init;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target);
+
+    const response = await fetch(target.toString(), { ...request, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    if (redirects >= MAX_OUTBOUND_REDIRECTS) {
+      throw new Error(`Too many redirects from ${url}`);
+    }
+
+    // Release the connection of the redirect response
+    await response.body?.cancel();
+
+    target = new URL(location, target);
+    const method = (request.method ?? 'GET').toUpperCase();
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      request = { ...request, method: 'GET', body: undefined };
+    }
+  }
+}
@@ -44,6 +44,53 @@ export interface SegmentQuery {
   conditions: Array<Condition | SegmentQuery>;
 }
 
+export const COMPARISON_OPS: ComparisonOp[] = [
+  'equals',
+  'not_equals',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'not_contains',
+  'in',
+  'not_in',
+  'exists',
+  'not_exists',
+];
+
+export const NUMERIC_OPS: ComparisonOp[] = ['gt', 'gte', 'lt', 'lte'];
+
+export const MAX_SEGMENT_DEPTH = 5;
+export const MAX_SEGMENT_CONDITIONS = 50;
+
+const PATH_SEGMENT_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_PATH_DEPTH = 5;
+
+/**
+ * Parse a property path such as "plan" or "properties.address.city" into
+ * JSON path segments. A leading "properties." is optional.
+ * Returns null if any segment falls outside the [A-Za-z0-9_-] whitelist.
+ */
+export function parsePropertyPath(field: unknown): string[] | null {
+  if (typeof field !== 'string') return null;
+
+  const segments = field.split('.');
+  if (segments[0] === 'properties' && segments.length > 1) {
+    segments.shift();
+  }
+
+  if (segments.length > MAX_PATH_DEPTH || !segments.every((segment) => PATH_SEGMENT_PATTERN.test(segment))) {
+    return null;
+  }
+
+  return segments;
+}
+
+export function isSegmentQuery(condition: Condition | SegmentQuery): condition is SegmentQuery {
+  return 'operator' in condition && 'conditions' in condition;
+}
+
 /**
  * Example segment queries
  */
@@ -128,62 +175,129 @@ export const churnedTrialUsersSegment: SegmentQuery = {
  */
 export function validateSegmentQuery(query: SegmentQuery): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
+  const state = { conditionCount: 0 };
+
+  validateQueryNode(query, 0, errors, state);
+
+  if (state.conditionCount > MAX_SEGMENT_CONDITIONS) {
+    errors.push(`Segment queries are limited to ${MAX_SEGMENT_CONDITIONS} conditions`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+function validateQueryNode(
+  query: SegmentQuery,
+  depth: number,
+  errors: string[],
+  state: { conditionCount: number }
+): void {
+  if (!query || typeof query !== 'object') {
+    errors.push('Segment query must be an object');
+    return;
+  }
+
+  if (depth > MAX_SEGMENT_DEPTH) {
+    errors.push(`Segment queries can be nested at most ${MAX_SEGMENT_DEPTH} levels deep`);
+    return;
+  }
 
   if (!query.operator || !['AND', 'OR'].includes(query.operator)) {
     errors.push('Invalid operator: must be AND or OR');
   }
 
-  if (!query.conditions || query.conditions.length === 0) {
+  if (!Array.isArray(query.conditions) || query.conditions.length === 0) {
     errors.push('At least one condition is required');
+    return;
   }
 
   // Recursively validate conditions
-  for (const condition of query.conditions || []) {
-    if ('operator' in condition && 'conditions' in condition) {
-      // Nested query
-      const nested = validateSegmentQuery(condition as SegmentQuery);
-      errors.push(...nested.errors);
-    } else {
-      // Leaf condition
-      const cond = condition as Condition;
+  for (const condition of query.conditions) {
+    if (!condition || typeof condition !== 'object') {
+      errors.push('Condition must be an object');
+      continue;
+    }
 
-      if (!cond.type || !['user_attribute', 'event'].includes(cond.type)) {
-        errors.push('Invalid condition type: must be user_attribute or event');
-      }
+    if (isSegmentQuery(condition)) {
+      validateQueryNode(condition, depth + 1, errors, state);
+    } else {
+      state.conditionCount++;
+      validateCondition(condition, errors);
+    }
+  }
+}
 
-      if (!cond.field) {
-        errors.push('Condition field is required');
-      }
+function validateCondition(cond: Condition, errors: string[]): void {
+  if (!cond.type || !['user_attribute', 'event'].includes(cond.type)) {
+    errors.push('Invalid condition type: must be user_attribute or event');
+  }
 
-      if (!cond.operator) {
-        errors.push('Condition operator is required');
-      }
+  if (!cond.field) {
+    errors.push('Condition field is required');
+  } else if (!cond.aggregation && !parsePropertyPath(cond.field)) {
+    errors.push(`Invalid field path: ${String(cond.field).slice(0, 100)}`);
+  }
 
-      if (cond.value === undefined || cond.value === null) {
-        errors.push('Condition value is required');
-      }
+  if (!cond.operator) {
+    errors.push('Condition operator is required');
+  } else if (!COMPARISON_OPS.includes(cond.operator)) {
+    errors.push(`Invalid condition operator: ${String(cond.operator).slice(0, 50)}`);
+  }
 
-      if (cond.type === 'event' && !cond.eventName) {
-        errors.push('Event name is required for event conditions');
-      }
+  if (cond.value === undefined || cond.value === null) {
+    errors.push('Condition value is required');
+  } else if (NUMERIC_OPS.includes(cond.operator) || cond.aggregation) {
+    if (typeof cond.value !== 'number' || !Number.isFinite(cond.value)) {
+      errors.push(`Condition value must be a number for ${cond.operator}`);
+    }
+  } else if (['in', 'not_in'].includes(cond.operator)) {
+    if (!Array.isArray(cond.value) || cond.value.some((v) => typeof v === 'object' && v !== null)) {
+      errors.push(`Condition value must be an array of scalars for ${cond.operator}`);
+    }
+  } else if (typeof cond.value === 'object') {
+    errors.push('Condition value must be a string, number or boolean');
+  }
 
-      if (cond.aggregation) {
-        const validFunctions = ['count', 'sum', 'avg', 'min', 'max'];
-        if (!validFunctions.includes(cond.aggregation.function)) {
-          errors.push(`Invalid aggregation function: ${cond.aggregation.function}`);
-        }
+  if (cond.type === 'event' && (!cond.eventName || typeof cond.eventName !== 'string')) {
+    errors.push('Event name is required for event conditions');
+  }
 
-        if (['sum', 'avg', 'min', 'max'].includes(cond.aggregation.function) && !cond.aggregation.field) {
-          errors.push(`Aggregation field is required for ${cond.aggregation.function}`);
-        }
+  if (cond.timeframe) {
+    if (cond.timeframe.type === 'relative') {
+      if (!Number.isInteger(cond.timeframe.value) || cond.timeframe.value <= 0) {
+        errors.push('Relative timeframe value must be a positive integer');
+      }
+      if (!['days', 'hours', 'minutes'].includes(cond.timeframe.unit)) {
+        errors.push(`Invalid timeframe unit: ${String(cond.timeframe.unit).slice(0, 20)}`);
       }
+    } else if (cond.timeframe.type === 'absolute') {
+      const start = new Date(cond.timeframe.startDate as Date | string);
+      const end = new Date(cond.timeframe.endDate as Date | string);
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+        errors.push('Absolute timeframe requires valid startDate and endDate');
+      }
+    } else {
+      errors.push('Invalid timeframe type: must be relative or absolute');
     }
   }
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+  if (cond.aggregation) {
+    const validFunctions = ['count', 'sum', 'avg', 'min', 'max'];
+    if (!validFunctions.includes(cond.aggregation.function)) {
+      errors.push(`Invalid aggregation function: ${String(cond.aggregation.function).slice(0, 20)}`);
+    }
+
+    if (['sum', 'avg', 'min', 'max'].includes(cond.aggregation.function) && !cond.aggregation.field) {
+      errors.push(`Aggregation field is required for ${cond.aggregation.function}`);
+    }
+
+    if (cond.aggregation.field && !parsePropertyPath(cond.aggregation.field)) {
+      errors.push(`Invalid aggregation field path: ${String(cond.aggregation.field).slice(0, 100)}`);
+    }
+  }
 }
 
 /**
@@ -200,7 +314,7 @@ export function describeSegmentQuery(query: SegmentQuery, depth = 0): string {
   for (let i = 0; i < query.conditions.length; i++) {
     const condition = query.conditions[i];
 
-    if ('operator' in condition && 'conditions' in condition) {
+    if (isSegmentQuery(condition)) {
       // Nested query
       description += `${indent}(\n`;
       description += describeSegmentQuery(condition as SegmentQuery, depth + 1);
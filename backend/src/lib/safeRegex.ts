@@ -0,0 +1,143 @@
+/**
+ * Regular expressions written by admins but run against end-user input, e.g.
+ * the `matches` condition operator on tracked event properties. JavaScript's
+ * backtracking engine can take exponential time on patterns such as (a+)+$,
+ * so patterns are screened when saved and again before they run, and inputs
+ * are capped in length.
+ *
+ * The screen rejects:
+ *   - a repeated group that contains a quantifier or an alternation, e.g.
+ *     (a+)+, (\w?,)* or (a|ab)+, which can match one input in many ways
+ *   - backreferences, e.g. (a)\1 or \k<name>
+ */
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// Longer inputs never match, which bounds the work of any remaining backtracking
+export const MAX_PATTERN_INPUT_LENGTH = 1000;
+
+const COMPILED_CACHE_LIMIT = 500;
+
+// Compiled safe patterns, or null for unsafe or invalid ones
+const compiled = new Map<string, RegExp | null>();
+
+// Ambiguous groups contain a quantifier or an alternation at any depth
+type GroupFrame = { ambiguous: boolean };
+
+/**
+ * Read a quantifier starting at index
+ * @returns Its length and whether it can repeat more than once, or null if there is none
+ */
+function readQuantifier(pattern: string, index: number): { length: number; repeats: boolean } | null {
+  const char = pattern[index];
+  let length = 0;
+  let repeats = false;
+
+  if (char === '*' || char === '+') {
+    length = 1;
+    repeats = true;
+  } else if (char === '?') {
+    length = 1;
+  } else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!match) return null;
+    length = match[0].length;
+    const max = match[2] === undefined ? Number(match[1]) : match[3] === '' ? Infinity : Number(match[3]);
+    repeats = max > 1;
+  } else {
+    return null;
+  }
+
+  // Lazy quantifiers, e.g. +?
+  if (pattern[index + length] === '?') length++;
+  return { length, repeats };
+}
+
+/**
+ * Whether a pattern is free of the constructs that make backtracking blow up
+ */
+export function isSafeRegex(pattern: string): boolean {
+  const stack: GroupFrame[] = [{ ambiguous: false }];
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+
+    if (char === '\\') {
+      const next = pattern[index + 1];
+      if ((next >= '1' && next <= '9') || (next === 'k' && pattern[index + 2] === '<')) {
+        return false;
+      }
+      index += 2;
+    } else if (char === '[') {
+      // Character classes cannot nest; skip to the closing bracket
+      index++;
+      if (pattern[index] === ']') index++;
+      while (index < pattern.length && pattern[index] !== ']') {
+        index += pattern[index] === '\\' ? 2 : 1;
+      }
+      index++;
+    } else if (char === '(') {
+      stack.push({ ambiguous: false });
+      index++;
+      continue;
+    } else if (char === ')') {
+      const group = stack.pop();
+      if (!group || stack.length === 0) return false;
+      index++;
+
+      const quantifier = readQuantifier(pattern, index);
+      if (quantifier) {
+        if (quantifier.repeats && group.ambiguous) return false;
+        index += quantifier.length;
+      }
+      if (quantifier || group.ambiguous) stack[stack.length - 1].ambiguous = true;
+      continue;
+    } else if (char === '|') {
+      stack[stack.length - 1].ambiguous = true;
+      index++;
+      continue;
+    } else {
+      index++;
+    }
+
+    const quantifier = readQuantifier(pattern, index);
+    if (quantifier) {
+      stack[stack.length - 1].ambiguous = true;
+      index += quantifier.length;
+    }
+  }
+
+  return stack.length === 1;
+}
+
+/**
+ * Compile a pattern if it is short, valid and safe to run
+ * @returns The compiled expression, or null if the pattern must not run
+ */
+export function compileSafeRegex(pattern: string): RegExp | null {
+  const cached = compiled.get(pattern);
+  if (cached !== undefined) return cached;
+
+  let regex: RegExp | null = null;
+  if (pattern.length <= MAX_PATTERN_LENGTH && isSafeRegex(pattern)) {
+    try {
+      regex = new RegExp(pattern);
+    } catch {
+      regex = null;
+    }
+  }
+
+  if (compiled.size >= COMPILED_CACHE_LIMIT) compiled.clear();
+  compiled.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Test an input against an admin-written pattern. Patterns saved before the
+ * safety screen existed are screened here too; they never match.
+ */
+export function testSafeRegex(pattern: string, input: string): boolean {
+  if (input.length > MAX_PATTERN_INPUT_LENGTH) return false;
+  return compileSafeRegex(pattern)?.test(input) ?? false;
+}
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+
+export type StorageDriverName = 'local' | 's3';
+
+export interface StoredObject {
+  sizeBytes: number;
+  // Null when the driver does not record one
+  mimeType: string | null;
+}
+
+export interface SignedUrl {
+  url: string;
+  method: 'PUT' | 'GET';
+  headers: Record<string, string>;
+  expires_at: string;
+}
+
+/**
+ * Storage backends hand out short-lived signed URLs so file bytes never pass
+ * through the JSON API. Signing is synchronous so formatters can embed URLs.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  createUploadUrl(key: string, options: { mimeType: string; sizeBytes: number; expiresInSeconds: number }): SignedUrl;
+  createDownloadUrl(
+    key: string,
+    options: { fileName: string; mimeType: string; expiresInSeconds: number }
+  ): SignedUrl;
+  // Size and type of a stored object, or null if there is none
+  stat(key: string): Promise<StoredObject | null>;
+}
+
+/**
+ * Local disk driver. URLs point at the /api/files router, which verifies the
+ * HMAC signature before reading or writing under the configured directory.
+ */
+export class LocalDiskStorage implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly root: string;
+
+  constructor(directory: string = config.storage.local.directory) {
+    this.root = path.resolve(directory);
+  }
+
+  createUploadUrl(key: string, options: { mimeType: string; sizeBytes: number; expiresInSeconds: number }): SignedUrl {
+    const expires = expiresAt(options.expiresInSeconds);
+    return {
+      url: this.buildUrl('PUT', key, expires),
+      method: 'PUT',
+      headers: { 'Content-Type': options.mimeType },
+      expires_at: new Date(expires * 1000).toISOString(),
+    };
+  }
+
+  createDownloadUrl(
+    key: string,
+    options: { fileName: string; mimeType: string; expiresInSeconds: number }
+  ): SignedUrl {
+    const expires = expiresAt(options.expiresInSeconds);
+    return {
+      url: this.buildUrl('GET', key, expires),
+      method: 'GET',
+      headers: {},
+      expires_at: new Date(expires * 1000).toISOString(),
+    };
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fsp.stat(this.resolvePath(key));
+      // The /api/files router checks the type before writing
+      return { sizeBytes: stats.size, mimeType: null };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Verify a signed local URL. Returns false for tampered, foreign or expired links.
+   */
+  verifySignature(method: 'PUT' | 'GET', key: string, expires: string, signature: string): boolean {
+    const expiresAtSeconds = Number(expires);
+    if (!Number.isFinite(expiresAtSeconds) || expiresAtSeconds * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(signLocal(method, key, expiresAtSeconds), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    if (expected.length !== provided.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(expected, provided);
+  }
+
+  async write(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, data);
+  }
+
+  createReadStream(key: string): fs.ReadStream {
+    return fs.createReadStream(this.resolvePath(key));
+  }
+
+  private buildUrl(method: 'PUT' | 'GET', key: string, expires: number): string {
+    const signature = signLocal(method, key, expires);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${config.storage.publicUrl}/files/${encodedKey}?expires=${expires}&signature=${signature}`;
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Keys are generated server-side, but never let one escape the storage root
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * S3-compatible driver (AWS S3, MinIO, R2, ...) using SigV4 presigned URLs.
+ * Uploads go straight from the client to the bucket.
+ */
+export class S3Storage implements StorageDriver {
+  readonly name = 's3' as const;
+
+  createUploadUrl(key: string, options: { mimeType: string; sizeBytes: number; expiresInSeconds: number }): SignedUrl {
+    // Signing the length makes S3 reject bodies of any other size
+    const signedHeaders = { 'content-type': options.mimeType, 'content-length': String(options.sizeBytes) };
+    return {
+      url: this.presign('PUT', key, options.expiresInSeconds, signedHeaders),
+      method: 'PUT',
+      headers: { 'Content-Type': options.mimeType },
+      expires_at: new Date(Date.now() + options.expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  createDownloadUrl(
+    key: string,
+    options: { fileName: string; mimeType: string; expiresInSeconds: number }
+  ): SignedUrl {
+    return {
+      url: this.presign('GET', key, options.expiresInSeconds, {}, {
+        'response-content-type': options.mimeType,
+        'response-content-disposition': contentDisposition(options.fileName, options.mimeType),
+      }),
+      method: 'GET',
+      headers: {},
+      expires_at: new Date(Date.now() + options.expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const response = await fetch(this.presign('HEAD', key, 60), { method: 'HEAD' });
+    if (!response.ok) return null;
+
+    return {
+      sizeBytes: Number(response.headers.get('content-length') ?? 0),
+      mimeType: response.headers.get('content-type')?.split(';')[0].trim() ?? null,
+    };
+  }
+
+  private presign(
+    method: 'PUT' | 'GET' | 'HEAD',
+    key: string,
+    expiresInSeconds: number,
+    signedHeaders: Record<string, string> = {},
+    extraQuery: Record<string, string> = {}
+  ): string {
+    const { bucket, region, endpoint, accessKeyId, secretAccessKey, forcePathStyle } = config.storage.s3;
+
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const basePath = base.pathname.replace(/\/$/, '');
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const host = forcePathStyle ? base.host : `${bucket}.${base.host}`;
+    const canonicalPath = forcePathStyle
+      ? `${basePath}/${encodeRfc3986(bucket)}/${encodedKey}`
+      : `${basePath}/${encodedKey}`;
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const credentialScope = `${dateStamp}/${region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = { host, ...signedHeaders };
+    const headerNames = Object.keys(headers).sort();
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${accessKeyId}/${credentialScope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': headerNames.join(';'),
+      ...extraQuery,
+    };
+
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const canonicalRequest = [
+      method,
+      canonicalPath,
+      canonicalQuery,
+      headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      headerNames.join(';'),
+      'UNSIGNED-PAYLOAD',
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      credentialScope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const dateKey = hmac(`AWS4${secretAccessKey}`, dateStamp);
+    const signingKey = hmac(hmac(hmac(dateKey, region), 's3'), 'aws4_request');
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    return `${base.protocol}//${host}${canonicalPath}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+}
+
+const drivers = new Map<StorageDriverName, StorageDriver>();
+
+/**
+ * Get a storage driver by name, defaulting to the configured driver.
+ * Attachments record the driver they were written with, so switching
+ * STORAGE_DRIVER does not orphan existing files.
+ */
+export function getStorage(name: string = config.storage.driver): StorageDriver {
+  const driverName: StorageDriverName = name === 's3' ? 's3' : 'local';
+
+  let driver = drivers.get(driverName);
+  if (!driver) {
+    driver = driverName === 's3' ? new S3Storage() : new LocalDiskStorage();
+    drivers.set(driverName, driver);
+  }
+
+  return driver;
+}
+
+export function getLocalStorage(): LocalDiskStorage {
+  return getStorage('local') as LocalDiskStorage;
+}
+
+/**
+ * Inline for images so they render in chat, download for everything else
+ */
+export function contentDisposition(fileName: string, mimeType: string): string {
+  const type = mimeType.startsWith('image/') ? 'inline' : 'attachment';
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeRfc3986(fileName)}`;
+}
+
+function signLocal(method: 'PUT' | 'GET', key: string, expires: number): string {
+  return crypto
+    .createHmac('sha256', config.storage.signingSecret)
+    .update(`${method}\n${key}\n${expires}`)
+    .digest('hex');
+}
+
+function expiresAt(expiresInSeconds: number): number {
+  return Math.floor(Date.now() / 1000) + expiresInSeconds;
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
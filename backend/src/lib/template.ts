@@ -0,0 +1,324 @@
+/**
+ * Template language for workflow and broadcast messages
+ *
+ *   {{ user.name }}                      nested paths into the context
+ *   {{ user.name | default: "there" }}   default for missing or empty values
+ *   {{ plan | upcase }}                  filters, chained with |
+ *   {{#if user.attributes.vip}}...{{else}}...{{/if}}
+ *
+ * Rendering is lenient so older templates keep working: malformed tags are
+ * output as written and missing values render as an empty string.
+ * validateTemplate reports the problems rendering glosses over.
+ */
+import { isValidTimeZone, toWallTime } from './timezone.js';
+
+type FilterArg = string | number;
+
+type Filter = { name: string; args: FilterArg[] };
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; path: string[]; filters: Filter[] }
+  | { type: 'if'; path: string[]; then: TemplateNode[]; else: TemplateNode[] };
+
+type FilterDefinition = {
+  minArgs: number;
+  maxArgs: number;
+  apply: (value: unknown, args: FilterArg[]) => unknown;
+};
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*$/;
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function toText(value: unknown): string {
+  if (isBlank(value)) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Format a date with YYYY, MMMM, MMM, MM, M, DD, D, HH and mm tokens, on the
+ * wall clock of a timezone (UTC by default)
+ */
+function formatDate(value: unknown, format: string, timeZone: string): string {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (isBlank(value) || Number.isNaN(date.getTime())) return toText(value);
+
+  const wall = toWallTime(date, isValidTimeZone(timeZone) ? timeZone : 'UTC');
+  const pad = (number: number) => String(number).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(wall.year),
+    MMMM: MONTH_NAMES[wall.month - 1],
+    MMM: MONTH_NAMES[wall.month - 1].slice(0, 3),
+    MM: pad(wall.month),
+    M: String(wall.month),
+    DD: pad(wall.day),
+    D: String(wall.day),
+    HH: pad(wall.hour),
+    mm: pad(wall.minute),
+  };
+
+  return format.replace(/YYYY|MMMM|MMM|MM|M|DD|D|HH|mm/g, (token) => tokens[token]);
+}
+
+const FILTERS: Record<string, FilterDefinition> = {
+  default: { minArgs: 1, maxArgs: 1, apply: (value, [fallback]) => (isBlank(value) ? fallback : value) },
+  upcase: { minArgs: 0, maxArgs: 0, apply: (value) => toText(value).toUpperCase() },
+  downcase: { minArgs: 0, maxArgs: 0, apply: (value) => toText(value).toLowerCase() },
+  capitalize: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value) => {
+      const text = toText(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  date: {
+    minArgs: 0,
+    maxArgs: 2,
+    apply: (value, [format = 'YYYY-MM-DD', timeZone = 'UTC']) => formatDate(value, String(format), String(timeZone)),
+  },
+  // {{ count }} {{ count | pluralize: "item" }} renders "1 item" or "3 items"
+  pluralize: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, [singular, plural]) => (Number(value) === 1 ? singular : plural ?? `${singular}s`),
+  },
+};
+
+/**
+ * Split on a separator, ignoring separators inside quoted strings
+ */
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (source[index + 1] ?? '');
+        index++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+function parseArg(source: string): FilterArg | null {
+  if (NUMBER_PATTERN.test(source)) return Number(source);
+
+  const quote = source[0];
+  if ((quote === '"' || quote === "'") && source.length >= 2 && source.endsWith(quote)) {
+    return source.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+
+  return null;
+}
+
+function parsePath(source: string, errors: string[]): string[] | null {
+  if (!PATH_PATTERN.test(source)) {
+    errors.push(`Invalid variable "${source}"`);
+    return null;
+  }
+  return source.split('.');
+}
+
+/**
+ * Parse `path | filter: arg, arg | filter`
+ */
+function parseOutput(source: string, errors: string[]): TemplateNode | null {
+  const [pathSource, ...filterSources] = splitOutsideQuotes(source, '|');
+  const path = parsePath(pathSource, errors);
+  if (!path) return null;
+
+  const filters: Filter[] = [];
+
+  for (const filterSource of filterSources) {
+    const colon = filterSource.indexOf(':');
+    const name = (colon === -1 ? filterSource : filterSource.slice(0, colon)).trim();
+    const argSources = colon === -1 ? [] : splitOutsideQuotes(filterSource.slice(colon + 1), ',');
+    const definition = FILTERS[name];
+
+    if (!definition) {
+      errors.push(`Unknown filter "${name}"`);
+      continue;
+    }
+
+    const args = argSources.map(parseArg);
+    if (args.some((arg) => arg === null)) {
+      errors.push(`Filter "${name}" arguments must be quoted strings or numbers`);
+      continue;
+    }
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      errors.push(`Filter "${name}" takes ${definition.minArgs === definition.maxArgs
+        ? definition.minArgs
+        : `${definition.minArgs} to ${definition.maxArgs}`} argument(s)`);
+      continue;
+    }
+
+    filters.push({ name, args: args as FilterArg[] });
+  }
+
+  return { type: 'output', path, filters };
+}
+
+/**
+ * Parse a template into nodes, collecting every problem in `errors`. Parsing
+ * never fails: whatever cannot be parsed is kept as text.
+ */
+function parseTemplate(template: string, errors: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Innermost open {{#if}} last; `target` is where its nodes currently go
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; target: TemplateNode[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, source] = match;
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      target.push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    const ifMatch = /^#if\s+([\s\S]+)$/.exec(source);
+
+    if (ifMatch) {
+      const path = parsePath(ifMatch[1], errors);
+      if (!path) {
+        target.push({ type: 'text', value: tag });
+        continue;
+      }
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', path, then: [], else: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.then;
+    } else if (source === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || target === open.node.else) {
+        errors.push('{{else}} without {{#if}}');
+        target.push({ type: 'text', value: tag });
+        continue;
+      }
+      target = open.node.else;
+    } else if (source === '/if') {
+      const open = stack.pop();
+      if (!open) {
+        errors.push('{{/if}} without {{#if}}');
+        target.push({ type: 'text', value: tag });
+        continue;
+      }
+      target = open.target;
+    } else if (source.startsWith('#') || source.startsWith('/')) {
+      errors.push(`Unknown block "${tag}"`);
+      target.push({ type: 'text', value: tag });
+    } else {
+      target.push(parseOutput(source, errors) ?? { type: 'text', value: tag });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    target.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  if (stack.length > 0) {
+    errors.push('{{#if}} is missing its {{/if}}');
+  }
+
+  return root;
+}
+
+function resolvePath(context: Record<string, any>, path: string[]): unknown {
+  let value: unknown = context;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !isBlank(value) && value !== false && value !== 0;
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, any>): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'if':
+        return renderNodes(isTruthy(resolvePath(context, node.path)) ? node.then : node.else, context);
+      case 'output':
+        return toText(node.filters.reduce(
+          (value, filter) => FILTERS[filter.name].apply(value, filter.args),
+          resolvePath(context, node.path)
+        ));
+    }
+  }).join('');
+}
+
+function collectVariables(nodes: TemplateNode[], variables: Set<string>): void {
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+    variables.add(node.path.join('.'));
+    if (node.type === 'if') {
+      collectVariables(node.then, variables);
+      collectVariables(node.else, variables);
+    }
+  }
+}
+
+/**
+ * Render a template against a context
+ */
+export function renderTemplate(template: string, context: Record<string, any>): string {
+  return renderNodes(parseTemplate(template, []), context);
+}
+
+/**
+ * Check a template's syntax and, given the top-level variables its context
+ * provides, which variables it uses that the context does not have
+ */
+export function validateTemplate(
+  template: string,
+  knownVariables?: readonly string[]
+): { valid: boolean; errors: string[]; unknownVariables: string[] } {
+  const errors: string[] = [];
+  const variables = new Set<string>();
+  collectVariables(parseTemplate(template, errors), variables);
+
+  const unknownVariables = knownVariables
+    ? [...variables].filter((variable) => !knownVariables.includes(variable.split('.')[0]))
+    : [];
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    unknownVariables,
+  };
+}
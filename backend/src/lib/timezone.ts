@@ -0,0 +1,93 @@
+// IANA timezone arithmetic on top of Intl, so no timezone database dependency is needed
+
+export type WallTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+// Furthest any timezone runs ahead of UTC (Pacific/Kiritimati)
+export const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+export function toWallTime(instant: Date, timeZone: string): WallTime & { second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+export function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const wall = toWallTime(instant, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which a timezone's clock shows the given wall time. Times
+ * skipped or repeated by a DST transition resolve to an adjacent valid instant.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const firstGuess = naive - getTimeZoneOffsetMs(new Date(naive), timeZone);
+  const offset = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+  return new Date(naive - offset);
+}
+
+/**
+ * Parse "HH:MM" (24h) into minutes after midnight
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+
+export const WEBHOOK_ID_HEADER = 'X-ReplyHQ-Delivery-Id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-ReplyHQ-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ReplyHQ-Signature-V1';
+// Legacy "sha256=<hmac(body)>" header, kept until receivers move to the v1 header
+export const WEBHOOK_LEGACY_SIGNATURE_HEADER = 'X-ReplyHQ-Signature';
+
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Compute a v1 signature: HMAC-SHA256 over "<delivery id>.<timestamp>.<raw body>"
+ * @param secret - Webhook signing secret
+ * @param deliveryId - Delivery ID, stable across retries of the same event
+ * @param timestamp - Unix time in seconds when the request was signed
+ * @param body - Raw JSON request body
+ * @returns Hex-encoded signature
+ */
+export function computeWebhookSignature(
+  secret: string,
+  deliveryId: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${deliveryId}.${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Compute a legacy signature: HMAC-SHA256 over the raw body only
+ * @returns Hex-encoded signature
+ */
+export function computeLegacyWebhookSignature(secret: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Build the signature headers for an outgoing webhook request.
+ * During a secret rotation both secrets sign the v1 header, so receivers holding
+ * either one can verify. The legacy header keeps its original single-signature
+ * format, signed with the current secret.
+ * @param secrets - Active secrets, current first
+ * @param legacy - Also send the legacy body-only signature header
+ */
+export function buildWebhookHeaders(
+  secrets: string[],
+  deliveryId: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+  legacy: boolean = config.webhooks.legacySignature
+): Record<string, string> {
+  const signatures = secrets.map(
+    (secret) => `v1=${computeWebhookSignature(secret, deliveryId, timestamp, body)}`
+  );
+
+  return {
+    [WEBHOOK_ID_HEADER]: deliveryId,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signatures.join(','),
+    ...(legacy && { [WEBHOOK_LEGACY_SIGNATURE_HEADER]: `sha256=${computeLegacyWebhookSignature(secrets[0], body)}` }),
+  };
+}
+
+/**
+ * Verify an incoming ReplyHQ webhook. Rejects stale or future timestamps
+ * outside the tolerance window to prevent replays; receivers should also
+ * de-duplicate on the delivery ID header.
+ * @param body - Raw request body exactly as received
+ * @param headers - Request headers (any casing, e.g. Express req.headers)
+ * @param secrets - One or more secrets to accept (pass both during rotation)
+ * @returns True if the request is authentic and fresh
+ */
+export function verifyWebhookSignature(
+  body: string | Buffer,
+  headers: Record<string, string | string[] | undefined>,
+  secrets: string | string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const deliveryId = readHeader(headers, WEBHOOK_ID_HEADER);
+  const timestampHeader = readHeader(headers, WEBHOOK_TIMESTAMP_HEADER);
+  const signatureHeader = readHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+
+  if (!deliveryId || !timestampHeader || !signatureHeader) {
+    return false;
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    return false;
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) {
+    return false;
+  }
+
+  const provided = signatureHeader
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith('v1='))
+    .map((part) => Buffer.from(part.slice(3), 'hex'));
+
+  const rawBody = typeof body === 'string' ? body : body.toString('utf8');
+  const candidates = (Array.isArray(secrets) ? secrets : [secrets]).filter(Boolean);
+
+  return candidates.some((secret) => {
+    const expected = Buffer.from(computeWebhookSignature(secret, deliveryId, timestamp, rawBody), 'hex');
+    return provided.some(
+      (signature) => signature.length === expected.length && crypto.timingSafeEqual(signature, expected)
+    );
+  });
+}
+
+function readHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const target = name.toLowerCase();
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === target);
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -45,6 +45,10 @@ export enum Permission {
   // Webhooks permissions
   VIEW_WEBHOOKS = 'view:webhooks',
   MANAGE_WEBHOOKS = 'manage:webhooks',
+
+  // Segments permissions
+  VIEW_SEGMENTS = 'view:segments',
+  MANAGE_SEGMENTS = 'manage:segments',
 }
 
 /**
@@ -77,6 +81,8 @@ const ROLE_PERMISSIONS: Record<string, Permission[]> = {
     Permission.MANAGE_WORKFLOWS,
     Permission.VIEW_WEBHOOKS,
     Permission.MANAGE_WEBHOOKS,
+    Permission.VIEW_SEGMENTS,
+    Permission.MANAGE_SEGMENTS,
   ],
   ADMIN: [
     // Admins can manage conversations, users, and view most things
@@ -102,6 +108,8 @@ const ROLE_PERMISSIONS: Record<string, Permission[]> = {
     Permission.MANAGE_WORKFLOWS,
     Permission.VIEW_WEBHOOKS,
     Permission.MANAGE_WEBHOOKS,
+    Permission.VIEW_SEGMENTS,
+    Permission.MANAGE_SEGMENTS,
   ],
   AGENT: [
     // Agents can only view and respond to conversations
@@ -111,6 +119,7 @@ const ROLE_PERMISSIONS: Record<string, Permission[]> = {
     Permission.VIEW_ANALYTICS,
     Permission.VIEW_BROADCASTS,
     Permission.VIEW_WORKFLOWS,
+    Permission.VIEW_SEGMENTS,
   ],
 };
 
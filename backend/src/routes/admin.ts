@@ -4,10 +4,13 @@ import { v4 as uuidv4 } from 'uuid';
 import { generateConversationId, generateVisitorId } from '../utils/ids.js';
 import { prisma } from '../lib/prisma.js';
 import { createMessage } from '../services/messageService.js';
+import { formatAttachment } from '../services/attachmentService.js';
 import { getConversationPresence } from '../services/presenceService.js';
 import { config } from '../config/index.js';
 import { requireJWT } from '../middleware/jwt.js';
-import { requirePermission, Permission } from '../middleware/permissions.js';
+import { requirePermission, hasPermission, Permission } from '../middleware/permissions.js';
+import { assignConversation } from '../services/assignmentService.js';
+import { reopenConversation, resolveConversation, snoozeConversation } from '../services/conversationService.js';
 
 /**
  * Basic HTML sanitization to prevent XSS in admin dashboard
@@ -220,16 +223,33 @@ router.get('/api/users', requireJWT, requirePermission(Permission.VIEW_USERS), a
 
 router.get('/api/conversations', requireJWT, requirePermission(Permission.VIEW_CONVERSATIONS), async (req, res, next) => {
   try {
-    const { appId } = req.jwtPayload!;
+    const { appId, userId: adminUserId } = req.jwtPayload!;
+    const assigneeFilter = req.query.assignee as string | undefined;
+    const statusFilter = req.query.status as string | undefined;
+
+    const whereClause: { appId: string; assigneeId?: string | null; status?: string } = { appId };
+    if (assigneeFilter === 'me') {
+      whereClause.assigneeId = adminUserId;
+    } else if (assigneeFilter === 'unassigned') {
+      whereClause.assigneeId = null;
+    } else if (assigneeFilter) {
+      whereClause.assigneeId = assigneeFilter;
+    }
+    if (statusFilter) {
+      whereClause.status = statusFilter;
+    }
 
     const conversations = await prisma.conversation.findMany({
-      where: { appId },
+      where: whereClause,
       orderBy: { updatedAt: 'desc' },
       select: {
         id: true,
         userId: true,
         deviceId: true,
         status: true,
+        assigneeId: true,
+        assignedAt: true,
+        snoozedUntil: true,
         updatedAt: true,
         createdAt: true,
         metadata: true,
@@ -260,6 +280,9 @@ router.get('/api/conversations', requireJWT, requirePermission(Permission.VIEW_C
         user_id: conv.userId,
         device_id: conv.deviceId,
         status: conv.status,
+        assignee_id: conv.assigneeId,
+        assigned_at: conv.assignedAt?.toISOString() ?? null,
+        snoozed_until: conv.snoozedUntil?.toISOString() ?? null,
         updated_at: conv.updatedAt.toISOString(),
         created_at: conv.createdAt.toISOString(),
         device_context: deviceContext,
@@ -501,10 +524,11 @@ router.get('/api/dashboard/stats', requireJWT, requirePermission(Permission.VIEW
   try {
     const { appId } = req.jwtPayload!;
 
-    const [totalConversations, openConversations, resolvedConversations, deviceRows] = await Promise.all([
+    const [totalConversations, openConversations, resolvedConversations, snoozedConversations, deviceRows] = await Promise.all([
       prisma.conversation.count({ where: { appId } }),
       prisma.conversation.count({ where: { appId, status: 'open' } }),
       prisma.conversation.count({ where: { appId, status: 'resolved' } }),
+      prisma.conversation.count({ where: { appId, status: 'snoozed' } }),
       prisma.conversation.findMany({
         where: { appId },
         select: { deviceId: true },
@@ -522,6 +546,7 @@ router.get('/api/dashboard/stats', requireJWT, requirePermission(Permission.VIEW
       total_conversations: totalConversations,
       open_conversations: openConversations,
       resolved_conversations: resolvedConversations,
+      snoozed_conversations: snoozedConversations,
       online_conversations: onlineConversations,
       generated_at: new Date().toISOString(),
     });
@@ -561,6 +586,7 @@ router.get('/api/conversations/:id/messages', requireJWT, requirePermission(Perm
       where: whereClause,
       orderBy: { createdAt: 'asc' },
       take: limit,
+      include: { attachments: true },
     });
 
     res.json({
@@ -572,6 +598,7 @@ router.get('/api/conversations/:id/messages', requireJWT, requirePermission(Perm
         sender: message.sender,
         created_at: message.createdAt.toISOString(),
         status: message.status,
+        attachments: message.attachments.map(formatAttachment),
       })),
     });
   } catch (error) {
@@ -621,6 +648,96 @@ router.post('/api/conversations/:id/messages', requireJWT, requirePermission(Per
   }
 });
 
+router.post('/api/conversations/:id/assign', requireJWT, requirePermission(Permission.SEND_MESSAGES), async (req, res, next) => {
+  try {
+    const { appId, userId: adminUserId, role } = req.jwtPayload!;
+    const rawAssignee = req.body?.assignee_id as string | null | undefined;
+
+    if (rawAssignee !== undefined && rawAssignee !== null && typeof rawAssignee !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid assignee',
+        code: 'INVALID_ASSIGNEE',
+      });
+    }
+
+    // Omitted or "me" means self-assignment; null unassigns
+    const assigneeId = rawAssignee === undefined || rawAssignee === 'me' ? adminUserId : rawAssignee;
+
+    // Agents may take conversations themselves; routing to others requires MANAGE_CONVERSATIONS
+    if (assigneeId !== adminUserId && !hasPermission(role, Permission.MANAGE_CONVERSATIONS)) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        code: 'FORBIDDEN',
+        message: 'Only admins can assign conversations to other agents',
+      });
+    }
+
+    const assignment = await assignConversation(appId, req.params.id, assigneeId, {
+      assignedBy: adminUserId,
+    });
+
+    res.json({ assignment });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/api/conversations/:id/assign', requireJWT, requirePermission(Permission.MANAGE_CONVERSATIONS), async (req, res, next) => {
+  try {
+    const { appId, userId: adminUserId } = req.jwtPayload!;
+
+    const assignment = await assignConversation(appId, req.params.id, null, {
+      assignedBy: adminUserId,
+    });
+
+    res.json({ assignment });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/api/conversations/:id/resolve', requireJWT, requirePermission(Permission.SEND_MESSAGES), async (req, res, next) => {
+  try {
+    const { appId, userId: adminUserId } = req.jwtPayload!;
+    const conversation = await resolveConversation(appId, req.params.id, { resolvedBy: adminUserId });
+    res.json({ conversation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/api/conversations/:id/reopen', requireJWT, requirePermission(Permission.SEND_MESSAGES), async (req, res, next) => {
+  try {
+    const { appId, userId: adminUserId } = req.jwtPayload!;
+    const conversation = await reopenConversation(appId, req.params.id, {
+      reason: 'agent',
+      reopenedBy: adminUserId,
+    });
+    res.json({ conversation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/api/conversations/:id/snooze', requireJWT, requirePermission(Permission.SEND_MESSAGES), async (req, res, next) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const until = req.body?.until as string | undefined;
+
+    if (!until) {
+      return res.status(400).json({
+        error: 'Snooze time is required',
+        code: 'MISSING_SNOOZE_UNTIL',
+      });
+    }
+
+    const conversation = await snoozeConversation(appId, req.params.id, new Date(until));
+    res.json({ conversation });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.post('/api/conversations', requireJWT, requirePermission(Permission.MANAGE_CONVERSATIONS), async (req, res, next) => {
   try {
     const { appId } = req.jwtPayload!;
@@ -3,6 +3,8 @@ import crypto from 'crypto';
 import { prisma } from '../lib/prisma.js';
 import { requireJWT } from '../middleware/jwt.js';
 import { requirePermission, Permission } from '../middleware/permissions.js';
+import { config } from '../config/index.js';
+import { redeliverWebhookDelivery, sendTestWebhook } from '../services/webhookDispatchService.js';
 
 const router: IRouter = express.Router();
 
@@ -22,6 +24,30 @@ function generateSecret(): string {
   return crypto.randomBytes(24).toString('hex');
 }
 
+const DELIVERY_STATUSES = ['retrying', 'success', 'failed'];
+
+function formatDelivery(delivery: {
+  id: string;
+  event: string;
+  status: string;
+  httpStatus: number | null;
+  attempts: number;
+  nextRetryAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status,
+    httpStatus: delivery.httpStatus,
+    attempts: delivery.attempts,
+    nextRetryAt: delivery.nextRetryAt,
+    deliveredAt: delivery.deliveredAt,
+    createdAt: delivery.createdAt,
+  };
+}
+
 router.get('/', requireJWT, requirePermission(Permission.VIEW_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId } = req.jwtPayload!;
@@ -44,6 +70,10 @@ router.get('/', requireJWT, requirePermission(Permission.VIEW_WEBHOOKS), async (
         url: webhook.url,
         events: webhook.events,
         isActive: webhook.isActive,
+        consecutiveFailures: webhook.consecutiveFailures,
+        disabledAt: webhook.disabledAt,
+        disabledReason: webhook.disabledReason,
+        previousSecretExpiresAt: webhook.previousSecretExpiresAt,
         createdAt: webhook.createdAt,
         updatedAt: webhook.updatedAt,
       })),
@@ -113,12 +143,18 @@ router.put('/:id', requireJWT, requirePermission(Permission.MANAGE_WEBHOOKS), as
       });
     }
 
+    // Re-enabling clears the failure history that auto-disabled the webhook
+    const reactivated = isActive !== undefined && Boolean(isActive) && !webhook.isActive;
+
     const updated = await prisma.webhook.update({
       where: { id: webhook.id },
       data: {
         url: url ?? undefined,
         events: Array.isArray(events) ? events : undefined,
         isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+        ...(reactivated
+          ? { consecutiveFailures: 0, failingSince: null, disabledAt: null, disabledReason: null }
+          : {}),
       },
       select: {
         id: true,
@@ -164,11 +200,24 @@ router.delete('/:id', requireJWT, requirePermission(Permission.MANAGE_WEBHOOKS),
   }
 });
 
-router.post('/:id/test', requireJWT, requirePermission(Permission.MANAGE_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/deliveries', requireJWT, requirePermission(Permission.VIEW_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId } = req.jwtPayload!;
+    const limit = normalizeLimit(req.query.limit, 50);
+    const offset = normalizeOffset(req.query.offset);
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: 'Invalid status',
+        code: 'INVALID_STATUS',
+        message: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+      });
+    }
+
     const webhook = await prisma.webhook.findFirst({
       where: { id: req.params.id, appId },
+      select: { id: true },
     });
 
     if (!webhook) {
@@ -178,50 +227,135 @@ router.post('/:id/test', requireJWT, requirePermission(Permission.MANAGE_WEBHOOK
       });
     }
 
-    const payload = {
-      event: 'webhook.test',
-      app_id: appId,
-      timestamp: new Date().toISOString(),
-    };
-    const body = JSON.stringify(payload);
-    const signature = crypto.createHmac('sha256', webhook.secret).update(body).digest('hex');
-
-    let status = 'success';
-    let httpStatus: number | null = null;
-    let responseBody: string | null = null;
-
-    try {
-      const response = await fetch(webhook.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-ReplyHQ-Signature': `sha256=${signature}`,
-        },
-        body,
+    const where = { webhookId: webhook.id, ...(status ? { status } : {}) };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    res.json({
+      deliveries: deliveries.map(formatDelivery),
+      total,
+      hasMore: offset + deliveries.length < total,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id/deliveries/:deliveryId', requireJWT, requirePermission(Permission.VIEW_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.deliveryId, webhookId: req.params.id, webhook: { appId } },
+    });
+
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'Delivery not found',
+        code: 'DELIVERY_NOT_FOUND',
+      });
+    }
+
+    res.json({
+      ...formatDelivery(delivery),
+      payload: delivery.payload,
+      responseBody: delivery.responseBody,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/deliveries/:deliveryId/redeliver', requireJWT, requirePermission(Permission.MANAGE_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const delivery = await redeliverWebhookDelivery(appId, req.params.id, req.params.deliveryId);
+
+    res.json({
+      ...formatDelivery(delivery),
+      responseBody: delivery.responseBody,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/rotate-secret', requireJWT, requirePermission(Permission.MANAGE_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const { gracePeriodHours } = req.body ?? {};
+
+    const gracePeriodMs = gracePeriodHours !== undefined
+      ? Number(gracePeriodHours) * 60 * 60 * 1000
+      : config.webhooks.secretRotationWindowMs;
+
+    if (Number.isNaN(gracePeriodMs) || gracePeriodMs < 0 || gracePeriodMs > config.webhooks.maxSecretRotationWindowMs) {
+      return res.status(400).json({
+        error: 'Invalid grace period',
+        code: 'INVALID_GRACE_PERIOD',
+        message: `gracePeriodHours must be between 0 and ${config.webhooks.maxSecretRotationWindowMs / 3600000}`,
+      });
+    }
+
+    const webhook = await prisma.webhook.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, secret: true },
+    });
+
+    if (!webhook) {
+      return res.status(404).json({
+        error: 'Webhook not found',
+        code: 'WEBHOOK_NOT_FOUND',
       });
-      httpStatus = response.status;
-      responseBody = await response.text();
-      if (!response.ok) {
-        status = 'failed';
-      }
-    } catch (error) {
-      status = 'failed';
-      responseBody = error instanceof Error ? error.message : 'Request failed';
     }
 
-    await prisma.webhookDelivery.create({
+    // The old secret keeps signing alongside the new one until the grace period ends
+    const previousSecretExpiresAt = gracePeriodMs > 0 ? new Date(Date.now() + gracePeriodMs) : null;
+
+    const updated = await prisma.webhook.update({
+      where: { id: webhook.id },
       data: {
-        webhookId: webhook.id,
-        event: payload.event,
-        payload,
-        status,
-        httpStatus: httpStatus ?? undefined,
-        responseBody: responseBody ?? undefined,
-        deliveredAt: status === 'success' ? new Date() : undefined,
+        secret: generateSecret(),
+        previousSecret: previousSecretExpiresAt ? webhook.secret : null,
+        previousSecretExpiresAt,
+      },
+      select: {
+        id: true,
+        secret: true,
+        previousSecretExpiresAt: true,
+        updatedAt: true,
       },
     });
 
-    res.json({ success: status === 'success', status, httpStatus, responseBody });
+    res.json({
+      id: updated.id,
+      secret: updated.secret,
+      previousSecretExpiresAt: updated.previousSecretExpiresAt,
+      updatedAt: updated.updatedAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/test', requireJWT, requirePermission(Permission.MANAGE_WEBHOOKS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const delivery = await sendTestWebhook(appId, req.params.id);
+
+    res.json({
+      success: delivery.status === 'success',
+      status: delivery.status,
+      httpStatus: delivery.httpStatus,
+      responseBody: delivery.responseBody,
+    });
   } catch (error) {
     next(error);
   }
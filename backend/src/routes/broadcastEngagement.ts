@@ -0,0 +1,32 @@
+import { Router, Request, Response, NextFunction, IRouter } from 'express';
+import { broadcastEngagementSchema } from '../schemas/broadcast.js';
+import {
+  recordBroadcastEngagement,
+  type BroadcastEngagementType,
+} from '../services/broadcastEngagementService.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+const router: IRouter = Router();
+
+function engagementHandler(type: BroadcastEngagementType) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parseResult = broadcastEngagementSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        throw new ApiError(400, 'Invalid request body', 'VALIDATION_ERROR', parseResult.error.message);
+      }
+
+      const { appId, deviceId } = req.appHeaders;
+      const result = await recordBroadcastEngagement(appId, deviceId, req.params.id, type, parseResult.data);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+router.post('/:id/opened', engagementHandler('opened'));
+router.post('/:id/clicked', engagementHandler('clicked'));
+
+export default router;
@@ -1,12 +1,70 @@
 import express, { Request, Response, NextFunction, type IRouter } from 'express';
-import { TargetType } from '@prisma/client';
+import { Prisma, TargetType } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { requireJWT } from '../middleware/jwt.js';
 import { requirePermission, Permission } from '../middleware/permissions.js';
-import { sendBroadcast } from '../services/broadcastSender.js';
+import { queueBroadcast, sendBroadcast } from '../services/broadcastSender.js';
+import { requireSegmentReference } from '../services/segmentService.js';
+import {
+  BROADCAST_SEGMENT_PRESETS,
+  BROADCAST_TEMPLATE_VARIABLES,
+  countBroadcastAudience,
+  isDslSegmentQuery,
+} from '../services/broadcastService.js';
+import {
+  getVariantStats,
+  parseAbTestConfig,
+  parseVariantsInput,
+} from '../services/broadcastVariantService.js';
+import { validateSegmentQuery } from '../lib/queryDSL.js';
+import { validateTemplate } from '../lib/template.js';
 
 const router: IRouter = express.Router();
 
+/**
+ * Validate a broadcast segmentQuery: either a known preset or a query DSL expression
+ * @returns Validation errors, empty when valid
+ */
+function validateBroadcastSegmentQuery(segmentQuery: unknown): string[] {
+  const preset = (segmentQuery as { preset?: unknown } | null)?.preset;
+  if (typeof preset === 'string') {
+    return (BROADCAST_SEGMENT_PRESETS as readonly string[]).includes(preset)
+      ? []
+      : [`Unknown segment preset: ${preset}`];
+  }
+
+  if (!isDslSegmentQuery(segmentQuery)) {
+    return ['segmentQuery must be a preset or a segment query with operator and conditions'];
+  }
+
+  return validateSegmentQuery(segmentQuery).errors;
+}
+
+/**
+ * Check the body and variant bodies as templates
+ * @returns Syntax errors, which block saving, and unknown variables, which are only reported
+ */
+function checkBroadcastTemplates(body: unknown, variants: unknown): { errors: string[]; warnings: string[] } {
+  const templates: Array<[string, unknown]> = [['body', body]];
+  if (Array.isArray(variants)) {
+    variants.forEach((variant, index) => {
+      templates.push([`variants[${index}].body`, (variant as { body?: unknown } | null)?.body]);
+    });
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [path, template] of templates) {
+    if (typeof template !== 'string') continue;
+    const result = validateTemplate(template, BROADCAST_TEMPLATE_VARIABLES);
+    errors.push(...result.errors.map((message) => `${path}: ${message}`));
+    warnings.push(...result.unknownVariables.map((variable) => `${path}: Unknown variable "${variable}"`));
+  }
+
+  return { errors, warnings };
+}
+
 function normalizeLimit(value: unknown, fallback = 50): number {
   const parsed = Number(value);
   if (Number.isNaN(parsed) || parsed <= 0) return fallback;
@@ -19,6 +77,35 @@ function normalizeOffset(value: unknown): number {
   return parsed;
 }
 
+/**
+ * Nested variant writes plus the A/B test columns for a create or update.
+ * Null or an empty array removes the test.
+ */
+function buildVariantData(variants: unknown, abTest: unknown) {
+  if (variants === null || (Array.isArray(variants) && variants.length === 0)) {
+    return {
+      variants: [],
+      abTestPercent: null,
+      abTestWindowMinutes: null,
+      abWinnerMetric: null,
+    };
+  }
+
+  const config = parseAbTestConfig(abTest);
+
+  return {
+    variants: parseVariantsInput(variants).map((variant) => ({
+      key: variant.key,
+      title: variant.title,
+      body: variant.body,
+      data: variant.data as Prisma.InputJsonObject | undefined,
+    })),
+    abTestPercent: config.testPercent,
+    abTestWindowMinutes: config.windowMinutes,
+    abWinnerMetric: config.winnerMetric,
+  };
+}
+
 function buildStats(broadcast: {
   totalRecipients: number;
   totalSent: number;
@@ -100,7 +187,20 @@ router.get('/', requireJWT, requirePermission(Permission.VIEW_BROADCASTS), async
 router.post('/', requireJWT, requirePermission(Permission.CREATE_BROADCASTS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId, userId } = req.jwtPayload!;
-    const { title, body, data, targetType, segmentQuery, userIds, scheduledAt } = req.body;
+    const {
+      title,
+      body,
+      data,
+      targetType,
+      segmentQuery,
+      segmentId,
+      userIds,
+      sendPush,
+      localTimeDelivery,
+      variants,
+      abTest,
+      scheduledAt,
+    } = req.body;
 
     if (!title || !body || !targetType) {
       return res.status(400).json({
@@ -121,10 +221,59 @@ router.post('/', requireJWT, requirePermission(Permission.CREATE_BROADCASTS), as
     }
     const targetTypeEnum = normalizedTarget as TargetType;
 
-    if (normalizedTarget === 'SEGMENT' && !segmentQuery) {
+    if (normalizedTarget === 'SEGMENT' && !segmentQuery && !segmentId) {
       return res.status(400).json({
         error: 'Missing segment query',
         code: 'MISSING_SEGMENT_QUERY',
+        message: 'segmentQuery or segmentId is required',
+      });
+    }
+
+    if (sendPush !== undefined && typeof sendPush !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid sendPush',
+        code: 'INVALID_SEND_PUSH',
+        message: 'sendPush must be a boolean',
+      });
+    }
+
+    if (localTimeDelivery !== undefined && typeof localTimeDelivery !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid localTimeDelivery',
+        code: 'INVALID_LOCAL_TIME_DELIVERY',
+        message: 'localTimeDelivery must be a boolean',
+      });
+    }
+
+    if (localTimeDelivery && !scheduledAt) {
+      return res.status(400).json({
+        error: 'Local time delivery requires scheduledAt',
+        code: 'SCHEDULE_REQUIRED',
+        message: 'scheduledAt gives the local wall-clock time, e.g. 2026-11-02T09:00:00Z for 9am everywhere',
+      });
+    }
+
+    if (segmentQuery) {
+      const errors = validateBroadcastSegmentQuery(segmentQuery);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid query',
+          code: 'INVALID_QUERY',
+          errors,
+        });
+      }
+    }
+
+    if (segmentId) {
+      await requireSegmentReference(appId, segmentId);
+    }
+
+    const templates = checkBroadcastTemplates(body, variants);
+    if (templates.errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid template',
+        code: 'INVALID_TEMPLATE',
+        errors: templates.errors,
       });
     }
 
@@ -135,6 +284,8 @@ router.post('/', requireJWT, requirePermission(Permission.CREATE_BROADCASTS), as
       });
     }
 
+    const variantData = variants !== undefined ? buildVariantData(variants, abTest) : null;
+
     const scheduled = scheduledAt ? new Date(scheduledAt) : null;
     const status = scheduled ? 'SCHEDULED' : 'DRAFT';
 
@@ -146,28 +297,52 @@ router.post('/', requireJWT, requirePermission(Permission.CREATE_BROADCASTS), as
         data: data ?? undefined,
         targetType: targetTypeEnum,
         segmentQuery: segmentQuery ?? undefined,
+        segmentId: segmentId ?? undefined,
         userIds: Array.isArray(userIds) ? userIds : [],
+        sendPush: sendPush ?? false,
+        localTimeDelivery: localTimeDelivery ?? false,
+        ...(variantData && variantData.variants.length > 0
+          ? {
+              abTestPercent: variantData.abTestPercent,
+              abTestWindowMinutes: variantData.abTestWindowMinutes,
+              abWinnerMetric: variantData.abWinnerMetric,
+              variants: { create: variantData.variants },
+            }
+          : {}),
         status,
         scheduledAt: scheduled ?? undefined,
         createdBy: userId,
       },
       select: {
         id: true,
+        appId: true,
         title: true,
         status: true,
         targetType: true,
+        segmentQuery: true,
+        segmentId: true,
+        userIds: true,
         totalRecipients: true,
         createdAt: true,
       },
     });
 
+    // Preview of who would receive the broadcast if it were sent now. The
+    // broadcast already exists, so a failed preview must not fail the request.
+    const audienceSize = await countBroadcastAudience(broadcast).catch((error) => {
+      console.error('[Broadcasts] Failed to count audience:', broadcast.id, error);
+      return null;
+    });
+
     res.status(201).json({
       id: broadcast.id,
       title: broadcast.title,
       status: broadcast.status.toLowerCase(),
       targetType: broadcast.targetType,
       totalRecipients: broadcast.totalRecipients,
+      audienceSize,
       createdAt: broadcast.createdAt,
+      warnings: templates.warnings,
     });
   } catch (error) {
     next(error);
@@ -188,12 +363,52 @@ router.get('/:id', requireJWT, requirePermission(Permission.VIEW_BROADCASTS), as
       });
     }
 
+    const [variants, variantStats] = await Promise.all([
+      prisma.broadcastVariant.findMany({
+        where: { broadcastId: broadcast.id },
+        orderBy: { key: 'asc' },
+      }),
+      getVariantStats(broadcast.id),
+    ]);
+    const statsByVariant = new Map(variantStats.map((entry) => [entry.variantId, entry]));
+
     res.json({
       id: broadcast.id,
       title: broadcast.title,
       body: broadcast.body,
       data: broadcast.data,
       targetType: broadcast.targetType,
+      segmentQuery: broadcast.segmentQuery,
+      segmentId: broadcast.segmentId,
+      sendPush: broadcast.sendPush,
+      localTimeDelivery: broadcast.localTimeDelivery,
+      variants: variants.map((variant) => {
+        const stats = statsByVariant.get(variant.id);
+        return {
+          id: variant.id,
+          key: variant.key,
+          title: variant.title,
+          body: variant.body,
+          data: variant.data,
+          stats: {
+            sent: stats?.sent ?? 0,
+            opened: stats?.opened ?? 0,
+            clicked: stats?.clicked ?? 0,
+            openRate: stats?.openRate ?? 0,
+            clickRate: stats?.clickRate ?? 0,
+          },
+          isWinner: variant.id === broadcast.winningVariantId,
+        };
+      }),
+      abTest: broadcast.abTestPercent !== null
+        ? {
+            testPercent: broadcast.abTestPercent,
+            windowMinutes: broadcast.abTestWindowMinutes,
+            winnerMetric: broadcast.abWinnerMetric,
+            endsAt: broadcast.abTestEndsAt,
+          }
+        : null,
+      winningVariantId: broadcast.winningVariantId,
       status: broadcast.status.toLowerCase(),
       scheduledAt: broadcast.scheduledAt,
       sentAt: broadcast.sentAt,
@@ -210,7 +425,20 @@ router.get('/:id', requireJWT, requirePermission(Permission.VIEW_BROADCASTS), as
 router.put('/:id', requireJWT, requirePermission(Permission.EDIT_BROADCASTS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId } = req.jwtPayload!;
-    const { title, body, data, targetType, segmentQuery, userIds, scheduledAt } = req.body;
+    const {
+      title,
+      body,
+      data,
+      targetType,
+      segmentQuery,
+      segmentId,
+      userIds,
+      sendPush,
+      localTimeDelivery,
+      variants,
+      abTest,
+      scheduledAt,
+    } = req.body;
 
     const existing = await prisma.broadcast.findFirst({
       where: { id: req.params.id, appId },
@@ -242,6 +470,74 @@ router.put('/:id', requireJWT, requirePermission(Permission.EDIT_BROADCASTS), as
       }
       normalizedTarget = candidate as TargetType;
     }
+    if (sendPush !== undefined && typeof sendPush !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid sendPush',
+        code: 'INVALID_SEND_PUSH',
+        message: 'sendPush must be a boolean',
+      });
+    }
+
+    if (localTimeDelivery !== undefined && typeof localTimeDelivery !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid localTimeDelivery',
+        code: 'INVALID_LOCAL_TIME_DELIVERY',
+        message: 'localTimeDelivery must be a boolean',
+      });
+    }
+
+    if (localTimeDelivery && !scheduledAt && !existing.scheduledAt) {
+      return res.status(400).json({
+        error: 'Local time delivery requires scheduledAt',
+        code: 'SCHEDULE_REQUIRED',
+      });
+    }
+
+    if (segmentQuery) {
+      const errors = validateBroadcastSegmentQuery(segmentQuery);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid query',
+          code: 'INVALID_QUERY',
+          errors,
+        });
+      }
+    }
+
+    if (segmentId) {
+      await requireSegmentReference(appId, segmentId);
+    }
+
+    const templates = checkBroadcastTemplates(body ?? existing.body, variants);
+    if (templates.errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid template',
+        code: 'INVALID_TEMPLATE',
+        errors: templates.errors,
+      });
+    }
+
+    let variantData: ReturnType<typeof buildVariantData> | null = null;
+    if (variants !== undefined) {
+      variantData = buildVariantData(variants, abTest);
+    } else if (abTest !== undefined) {
+      // Changing only the test settings keeps the existing variants
+      if (existing.abTestPercent === null) {
+        return res.status(400).json({
+          error: 'Invalid variants',
+          code: 'INVALID_VARIANTS',
+          message: 'abTest requires variants',
+        });
+      }
+      const config = parseAbTestConfig(abTest);
+      variantData = {
+        variants: [],
+        abTestPercent: config.testPercent,
+        abTestWindowMinutes: config.windowMinutes,
+        abWinnerMetric: config.winnerMetric,
+      };
+    }
+
     const scheduled = scheduledAt ? new Date(scheduledAt) : null;
 
     const updated = await prisma.broadcast.update({
@@ -252,7 +548,21 @@ router.put('/:id', requireJWT, requirePermission(Permission.EDIT_BROADCASTS), as
         data: data ?? undefined,
         targetType: normalizedTarget ?? undefined,
         segmentQuery: segmentQuery ?? undefined,
+        // null detaches the saved segment
+        segmentId: segmentId === null ? null : segmentId ?? undefined,
         userIds: Array.isArray(userIds) ? userIds : undefined,
+        sendPush: sendPush ?? undefined,
+        localTimeDelivery: localTimeDelivery ?? undefined,
+        ...(variantData
+          ? {
+              abTestPercent: variantData.abTestPercent,
+              abTestWindowMinutes: variantData.abTestWindowMinutes,
+              abWinnerMetric: variantData.abWinnerMetric,
+              ...(variants !== undefined
+                ? { variants: { deleteMany: {}, create: variantData.variants } }
+                : {}),
+            }
+          : {}),
         scheduledAt: scheduled ?? undefined,
         status: scheduled ? 'SCHEDULED' : 'DRAFT',
       },
@@ -271,6 +581,7 @@ router.put('/:id', requireJWT, requirePermission(Permission.EDIT_BROADCASTS), as
       status: updated.status.toLowerCase(),
       scheduledAt: updated.scheduledAt,
       updatedAt: updated.updatedAt,
+      warnings: templates.warnings,
     });
   } catch (error) {
     next(error);
@@ -350,7 +661,25 @@ router.post('/:id/send', requireJWT, requirePermission(Permission.SEND_BROADCAST
       });
     }
 
-    await sendBroadcast(broadcast.id);
+    if (broadcast.localTimeDelivery && !broadcast.scheduledAt) {
+      return res.status(400).json({
+        error: 'Local time delivery requires a send time',
+        code: 'SCHEDULE_REQUIRED',
+      });
+    }
+
+    const queued = await queueBroadcast(broadcast.id);
+    if (!queued && broadcast.status !== 'SENDING') {
+      return res.status(400).json({
+        error: 'Broadcast cannot be sent',
+        code: 'BROADCAST_LOCKED',
+      });
+    }
+
+    // Progress is reported on the admin socket as broadcast:progress
+    sendBroadcast(broadcast.id).catch((error) => {
+      console.error('[Broadcasts] Background send failed:', broadcast.id, error);
+    });
 
     const refreshed = await prisma.broadcast.findUnique({
       where: { id: broadcast.id },
@@ -363,7 +692,7 @@ router.post('/:id/send', requireJWT, requirePermission(Permission.SEND_BROADCAST
       },
     });
 
-    res.json({
+    res.status(202).json({
       id: refreshed?.id ?? broadcast.id,
       status: refreshed?.status?.toLowerCase() ?? 'sending',
       totalRecipients: refreshed?.totalRecipients ?? 0,
@@ -389,16 +718,17 @@ router.post('/:id/cancel', requireJWT, requirePermission(Permission.SEND_BROADCA
       });
     }
 
-    if (existing.status !== 'SCHEDULED') {
+    // A broadcast that is mid-send stops after its current batch
+    if (!['SCHEDULED', 'SENDING'].includes(existing.status)) {
       return res.status(400).json({
-        error: 'Only scheduled broadcasts can be cancelled',
+        error: 'Only scheduled or sending broadcasts can be cancelled',
         code: 'BROADCAST_NOT_SCHEDULED',
       });
     }
 
     const updated = await prisma.broadcast.update({
       where: { id: existing.id },
-      data: { status: 'CANCELLED' },
+      data: { status: 'CANCELLED', sendLeaseUntil: null },
       select: { id: true, status: true },
     });
 
@@ -454,6 +784,7 @@ router.get('/:id/recipients', requireJWT, requirePermission(Permission.VIEW_BROA
         deliveredAt: recipient.deliveredAt,
         openedAt: recipient.openedAt,
         clickedAt: recipient.clickedAt,
+        variantId: recipient.variantId,
         metadata: recipient.metadata,
       })),
       total,
@@ -9,6 +9,8 @@ import { ApiError } from '../middleware/errorHandler.js';
 import { isRedisReady } from '../lib/redis.js';
 import { markMessagesDelivered, markMessagesRead, updateMessageStatus } from '../services/deliveryReceiptService.js';
 import { syncMessages } from '../services/syncService.js';
+import { createAttachmentSchema } from '../schemas/attachment.js';
+import { completeAttachmentUpload, createAttachmentUpload, getAttachment } from '../services/attachmentService.js';
 import { z } from 'zod';
 
 const router: IRouter = Router();
@@ -50,6 +52,44 @@ router.post('/:id/messages', (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+router.post('/:id/attachments', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parseResult = createAttachmentSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw new ApiError(400, 'Invalid request body', 'VALIDATION_ERROR', parseResult.error.message);
+    }
+
+    const { appId, deviceId } = req.appHeaders;
+    const result = await createAttachmentUpload(appId, deviceId, req.params.id, parseResult.data);
+
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/attachments/:attachmentId/complete', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, deviceId } = req.appHeaders;
+    const attachment = await completeAttachmentUpload(appId, deviceId, req.params.id, req.params.attachmentId);
+
+    res.json({ attachment });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id/attachments/:attachmentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, deviceId } = req.appHeaders;
+    const attachment = await getAttachment(appId, deviceId, req.params.id, req.params.attachmentId);
+
+    res.json({ attachment });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/:id/messages', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const parseResult = getMessagesQuerySchema.safeParse(req.query);
@@ -0,0 +1,108 @@
+import express, { Router, Request, Response, NextFunction, IRouter } from 'express';
+import { prisma } from '../lib/prisma.js';
+import { config } from '../config/index.js';
+import { contentDisposition, getLocalStorage } from '../lib/storage.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { markLocalUploadComplete, revertLocalUpload } from '../services/attachmentService.js';
+
+/**
+ * Signed upload/download endpoints for the local disk storage driver.
+ * Authorization is the URL signature itself, so this router is mounted
+ * outside /api/v1 and reads the raw request body.
+ */
+const router: IRouter = Router();
+
+function verifyRequest(req: Request, method: 'PUT' | 'GET'): string {
+  const key = req.params[0];
+  const { expires, signature } = req.query;
+
+  if (typeof expires !== 'string' || typeof signature !== 'string' || !key) {
+    throw new ApiError(403, 'Invalid signature', 'INVALID_SIGNATURE');
+  }
+
+  if (!getLocalStorage().verifySignature(method, key, expires, signature)) {
+    throw new ApiError(403, 'Invalid signature', 'INVALID_SIGNATURE', 'URL is invalid or has expired');
+  }
+
+  return key;
+}
+
+router.put(
+  '/*',
+  express.raw({ type: () => true, limit: config.attachments.maxSizeBytes }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = verifyRequest(req, 'PUT');
+
+      const attachment = await prisma.attachment.findUnique({
+        where: { storageKey: key },
+        select: { mimeType: true, sizeBytes: true, storageDriver: true, status: true },
+      });
+
+      if (!attachment || attachment.storageDriver !== 'local') {
+        throw new ApiError(404, 'Attachment not found', 'ATTACHMENT_NOT_FOUND');
+      }
+
+      // The URL stays valid after the upload; it must not replace a file already in use
+      if (attachment.status !== 'pending') {
+        throw new ApiError(409, 'Attachment already uploaded', 'ATTACHMENT_ALREADY_UPLOADED');
+      }
+
+      const contentType = req.headers['content-type']?.split(';')[0].trim();
+      if (contentType !== attachment.mimeType) {
+        throw new ApiError(415, 'Content-Type does not match attachment', 'UNSUPPORTED_MEDIA_TYPE');
+      }
+
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (body.length > attachment.sizeBytes) {
+        throw new ApiError(413, 'Upload exceeds declared size', 'ATTACHMENT_TOO_LARGE');
+      }
+      if (body.length !== attachment.sizeBytes) {
+        throw new ApiError(400, 'Upload does not match attachment', 'ATTACHMENT_MISMATCH', `Expected ${attachment.sizeBytes} bytes`);
+      }
+
+      // Claimed before writing so two uploads racing on one URL cannot both store their bytes
+      if (!(await markLocalUploadComplete(key))) {
+        throw new ApiError(409, 'Attachment already uploaded', 'ATTACHMENT_ALREADY_UPLOADED');
+      }
+
+      try {
+        await getLocalStorage().write(key, body);
+      } catch (error) {
+        await revertLocalUpload(key);
+        throw error;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get('/*', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const key = verifyRequest(req, 'GET');
+
+    const attachment = await prisma.attachment.findUnique({
+      where: { storageKey: key },
+      select: { fileName: true, mimeType: true, sizeBytes: true, status: true },
+    });
+
+    if (!attachment || attachment.status !== 'uploaded') {
+      throw new ApiError(404, 'Attachment not found', 'ATTACHMENT_NOT_FOUND');
+    }
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Disposition', contentDisposition(attachment.fileName, attachment.mimeType));
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    const stream = getLocalStorage().createReadStream(key);
+    stream.on('error', next);
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import { Router, Request, Response, NextFunction, IRouter } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import { fireWorkflowTrigger } from '../services/workflowTriggerService.js';
 
 const router: IRouter = Router();
 
@@ -56,6 +57,12 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
       },
     });
 
+    void fireWorkflowTrigger(appId, 'user_identified', {
+      userId: user.id,
+      deviceId,
+      properties: { ...user.attributes, name: user.name, email: user.email },
+    });
+
     res.json({ success: true });
   } catch (error) {
     next(error);
@@ -0,0 +1,296 @@
+import express, { Request, Response, NextFunction, type IRouter } from 'express';
+import { prisma } from '../lib/prisma.js';
+import { requireJWT } from '../middleware/jwt.js';
+import { requirePermission, Permission } from '../middleware/permissions.js';
+import { validateSegmentQuery, describeSegmentQuery, type SegmentQuery } from '../lib/queryDSL.js';
+import { refreshSegmentCount } from '../services/segmentService.js';
+import { getReferencedSegmentIds } from '../services/workflowActions.js';
+
+const router: IRouter = express.Router();
+
+function normalizeLimit(value: unknown, fallback = 50): number {
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed <= 0) return fallback;
+  return Math.min(parsed, 200);
+}
+
+function normalizeOffset(value: unknown): number {
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0) return 0;
+  return parsed;
+}
+
+function formatSegment(segment: {
+  id: string;
+  name: string;
+  description: string | null;
+  query: unknown;
+  memberCount: number;
+  countRefreshedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: segment.id,
+    name: segment.name,
+    description: segment.description,
+    query: segment.query,
+    memberCount: segment.memberCount,
+    countRefreshedAt: segment.countRefreshedAt,
+    createdAt: segment.createdAt,
+    updatedAt: segment.updatedAt,
+  };
+}
+
+// Counts are refreshed off the request path; the scheduler retries any that fail
+function refreshCountInBackground(segment: { id: string; appId: string; query: unknown }) {
+  refreshSegmentCount(segment).catch((error) => {
+    console.error('[Segments] Failed to refresh count:', segment.id, error);
+  });
+}
+
+router.get('/', requireJWT, requirePermission(Permission.VIEW_SEGMENTS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const limit = normalizeLimit(req.query.limit, 50);
+    const offset = normalizeOffset(req.query.offset);
+
+    const [segments, total] = await Promise.all([
+      prisma.segment.findMany({
+        where: { appId },
+        orderBy: { updatedAt: 'desc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.segment.count({ where: { appId } }),
+    ]);
+
+    res.json({
+      segments: segments.map(formatSegment),
+      total,
+      hasMore: offset + segments.length < total,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/', requireJWT, requirePermission(Permission.MANAGE_SEGMENTS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, userId } = req.jwtPayload!;
+    const { name, description, query } = req.body;
+
+    if (typeof name !== 'string' || name.trim().length === 0 || !query) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        code: 'MISSING_FIELDS',
+        message: 'name and query are required',
+      });
+    }
+
+    const validation = validateSegmentQuery(query);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        code: 'INVALID_QUERY',
+        errors: validation.errors,
+      });
+    }
+
+    const duplicate = await prisma.segment.findFirst({
+      where: { appId, name: name.trim() },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      return res.status(409).json({
+        error: 'A segment with this name already exists',
+        code: 'SEGMENT_EXISTS',
+      });
+    }
+
+    const segment = await prisma.segment.create({
+      data: {
+        appId,
+        name: name.trim(),
+        description: description ?? undefined,
+        query,
+        createdBy: userId,
+      },
+    });
+
+    refreshCountInBackground(segment);
+
+    res.status(201).json(formatSegment(segment));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', requireJWT, requirePermission(Permission.VIEW_SEGMENTS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const segment = await prisma.segment.findFirst({
+      where: { id: req.params.id, appId },
+    });
+
+    if (!segment) {
+      return res.status(404).json({
+        error: 'Segment not found',
+        code: 'SEGMENT_NOT_FOUND',
+      });
+    }
+
+    res.json({
+      ...formatSegment(segment),
+      summary: describeSegmentQuery(segment.query as unknown as SegmentQuery),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/:id', requireJWT, requirePermission(Permission.MANAGE_SEGMENTS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const { name, description, query } = req.body;
+
+    const existing = await prisma.segment.findFirst({
+      where: { id: req.params.id, appId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Segment not found',
+        code: 'SEGMENT_NOT_FOUND',
+      });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      return res.status(400).json({
+        error: 'Invalid name',
+        code: 'INVALID_NAME',
+      });
+    }
+
+    if (query !== undefined) {
+      const validation = validateSegmentQuery(query);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: 'Invalid query',
+          code: 'INVALID_QUERY',
+          errors: validation.errors,
+        });
+      }
+    }
+
+    if (name !== undefined && name.trim() !== existing.name) {
+      const duplicate = await prisma.segment.findFirst({
+        where: { appId, name: name.trim() },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        return res.status(409).json({
+          error: 'A segment with this name already exists',
+          code: 'SEGMENT_EXISTS',
+        });
+      }
+    }
+
+    const updated = await prisma.segment.update({
+      where: { id: existing.id },
+      data: {
+        name: name?.trim() ?? undefined,
+        description: description ?? undefined,
+        query: query ?? undefined,
+      },
+    });
+
+    if (query !== undefined) {
+      refreshCountInBackground(updated);
+    }
+
+    res.json(formatSegment(updated));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:id', requireJWT, requirePermission(Permission.MANAGE_SEGMENTS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const existing = await prisma.segment.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Segment not found',
+        code: 'SEGMENT_NOT_FOUND',
+      });
+    }
+
+    // Sent broadcasts keep their history; pending sends and workflow triggers would silently
+    // lose their audience, and add/remove segment nodes would fail on every run
+    const [broadcasts, appWorkflows] = await Promise.all([
+      prisma.broadcast.count({
+        where: {
+          appId,
+          segmentId: existing.id,
+          status: { in: ['DRAFT', 'SCHEDULED', 'SENDING'] },
+        },
+      }),
+      prisma.workflow.findMany({
+        where: { appId },
+        select: { trigger: true, nodes: true },
+      }),
+    ]);
+    const workflows = appWorkflows.filter((workflow) =>
+      (workflow.trigger as { segment_id?: unknown } | null)?.segment_id === existing.id ||
+      getReferencedSegmentIds(workflow.nodes as unknown[]).includes(existing.id)
+    ).length;
+
+    if (broadcasts > 0 || workflows > 0) {
+      return res.status(409).json({
+        error: 'Segment is in use',
+        code: 'SEGMENT_IN_USE',
+        message: `Segment is referenced by ${broadcasts} broadcast(s) and ${workflows} workflow(s)`,
+      });
+    }
+
+    await prisma.segment.delete({ where: { id: existing.id } });
+
+    res.json({ success: true, message: 'Segment deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/refresh', requireJWT, requirePermission(Permission.MANAGE_SEGMENTS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const segment = await prisma.segment.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, appId: true, query: true },
+    });
+
+    if (!segment) {
+      return res.status(404).json({
+        error: 'Segment not found',
+        code: 'SEGMENT_NOT_FOUND',
+      });
+    }
+
+    await refreshSegmentCount(segment);
+
+    const refreshed = await prisma.segment.findUniqueOrThrow({ where: { id: segment.id } });
+
+    res.json(formatSegment(refreshed));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,10 +1,45 @@
 import express, { Request, Response, NextFunction, type IRouter } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { requireJWT } from '../middleware/jwt.js';
 import { requirePermission, Permission } from '../middleware/permissions.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requireSegmentReference } from '../services/segmentService.js';
+import {
+  validateWorkflowGraph,
+  type WorkflowEdge,
+  type WorkflowGraphError,
+  type WorkflowNode,
+} from '../services/workflowUtils.js';
+import {
+  moveExecutionSchema,
+  simulateWorkflowSchema,
+  skipExecutionWaitSchema,
+  workflowSettingsSchema,
+  workflowTriggerSchema,
+} from '../schemas/workflow.js';
+import {
+  getReferencedSegmentIds,
+  getWorkflowTemplateWarnings,
+  validateWorkflowNodeConfigs,
+} from '../services/workflowActions.js';
+import { diffWorkflowDefinitions, requireWorkflowVersion, rollbackWorkflow, saveNextVersion } from '../services/workflowVersionService.js';
+import { startEnrollment } from '../services/workflowTriggerService.js';
+import { simulateWorkflow } from '../services/workflowSimulator.js';
+import {
+  cancelExecution,
+  getExecutionDetail,
+  moveExecution,
+  requireExecution,
+  retryExecution,
+  skipExecutionWait,
+} from '../services/workflowExecutionService.js';
 
 const router: IRouter = express.Router();
 
+const MAX_ENROLL_USERS = 1000;
+
 function normalizeLimit(value: unknown, fallback = 50): number {
   const parsed = Number(value);
   if (Number.isNaN(parsed) || parsed <= 0) return fallback;
@@ -17,6 +52,115 @@ function normalizeOffset(value: unknown): number {
   return parsed;
 }
 
+// A trigger may restrict enrollment to members of a saved segment
+async function validateTriggerSegment(appId: string, trigger: unknown): Promise<void> {
+  const segmentId = (trigger as { segment_id?: unknown } | null)?.segment_id;
+  if (segmentId !== undefined && segmentId !== null) {
+    await requireSegmentReference(appId, segmentId);
+  }
+}
+
+function toFieldErrors(field: string, error: z.ZodError): WorkflowGraphError[] {
+  return error.issues.map((issue) => ({
+    path: [field, ...issue.path].join('.'),
+    message: issue.message,
+  }));
+}
+
+function validateWorkflowSettings(settings: unknown): WorkflowGraphError[] {
+  const parsed = workflowSettingsSchema.safeParse(settings);
+  return parsed.success ? [] : toFieldErrors('settings', parsed.error);
+}
+
+function validateWorkflowTrigger(trigger: unknown): WorkflowGraphError[] {
+  const parsed = workflowTriggerSchema.safeParse(trigger);
+  return parsed.success ? [] : toFieldErrors('trigger', parsed.error);
+}
+
+async function requireWorkflow(appId: string, workflowId: string): Promise<{ id: string }> {
+  const workflow = await prisma.workflow.findFirst({
+    where: { id: workflowId, appId },
+    select: { id: true },
+  });
+
+  if (!workflow) {
+    throw new ApiError(404, 'Workflow not found', 'WORKFLOW_NOT_FOUND');
+  }
+
+  return workflow;
+}
+
+function serializeExecution(execution: {
+  id: string;
+  userId: string;
+  workflowVersion: number;
+  status: string;
+  currentNodeId: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}) {
+  const durationMs = execution.completedAt
+    ? execution.completedAt.getTime() - execution.startedAt.getTime()
+    : null;
+
+  return {
+    id: execution.id,
+    userId: execution.userId,
+    workflowVersion: execution.workflowVersion,
+    status: execution.status.toLowerCase(),
+    currentNodeId: execution.currentNodeId,
+    startedAt: execution.startedAt,
+    completedAt: execution.completedAt,
+    durationMs,
+  };
+}
+
+async function sendExecutionDetail(res: Response, workflowId: string, executionId: string): Promise<void> {
+  const execution = await getExecutionDetail(workflowId, executionId);
+
+  res.json({
+    ...serializeExecution(execution),
+    deviceId: execution.deviceId,
+    activeBranches: execution.activeBranches,
+    errorMessage: execution.errorMessage,
+    context: execution.context,
+    steps: execution.steps.map((step) => ({
+      id: step.id,
+      nodeId: step.nodeId,
+      action: step.action,
+      status: step.status.toLowerCase(),
+      input: step.input,
+      output: step.output,
+      errorMessage: step.errorMessage,
+      startedAt: step.startedAt,
+      completedAt: step.completedAt,
+      resumeAt: step.resumeAt,
+    })),
+    audit: execution.audits.map((entry) => ({
+      id: entry.id,
+      action: entry.action,
+      adminUserId: entry.adminUserId,
+      details: entry.details,
+      createdAt: entry.createdAt,
+    })),
+  });
+}
+
+function invalidExecutionAction(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: 'Invalid execution action',
+    code: 'INVALID_EXECUTION_ACTION',
+    errors: error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+  });
+}
+
+// Segment actions must point at a saved segment of this app
+async function validateNodeSegments(appId: string, nodes: unknown[]): Promise<void> {
+  for (const segmentId of getReferencedSegmentIds(nodes)) {
+    await requireSegmentReference(appId, segmentId);
+  }
+}
+
 router.get('/', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId } = req.jwtPayload!;
@@ -73,7 +217,7 @@ router.get('/', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async
 router.post('/', requireJWT, requirePermission(Permission.CREATE_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId, userId } = req.jwtPayload!;
-    const { name, description, trigger, nodes, edges } = req.body;
+    const { name, description, trigger, nodes, edges, settings } = req.body;
 
     if (!name || !trigger || !nodes || !edges) {
       return res.status(400).json({
@@ -83,6 +227,47 @@ router.post('/', requireJWT, requirePermission(Permission.CREATE_WORKFLOWS), asy
       });
     }
 
+    const triggerErrors = validateWorkflowTrigger(trigger);
+    if (triggerErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid workflow trigger',
+        code: 'INVALID_WORKFLOW_TRIGGER',
+        errors: triggerErrors,
+      });
+    }
+
+    const graphErrors = validateWorkflowGraph(nodes, edges);
+    if (graphErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid workflow graph',
+        code: 'INVALID_WORKFLOW_GRAPH',
+        errors: graphErrors,
+      });
+    }
+
+    const configErrors = validateWorkflowNodeConfigs(nodes);
+    if (configErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid node config',
+        code: 'INVALID_NODE_CONFIG',
+        errors: configErrors,
+      });
+    }
+
+    if (settings !== undefined) {
+      const settingsErrors = validateWorkflowSettings(settings);
+      if (settingsErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid workflow settings',
+          code: 'INVALID_WORKFLOW_SETTINGS',
+          errors: settingsErrors,
+        });
+      }
+    }
+
+    await validateNodeSegments(appId, nodes);
+    await validateTriggerSegment(appId, trigger);
+
     const workflow = await prisma.workflow.create({
       data: {
         appId,
@@ -91,8 +276,12 @@ router.post('/', requireJWT, requirePermission(Permission.CREATE_WORKFLOWS), asy
         trigger,
         nodes,
         edges,
+        settings: settings ?? undefined,
         status: 'DRAFT',
         createdBy: userId,
+        versions: {
+          create: { version: 1, trigger, nodes, edges, settings: settings ?? undefined, createdBy: userId },
+        },
       },
       select: {
         id: true,
@@ -107,6 +296,7 @@ router.post('/', requireJWT, requirePermission(Permission.CREATE_WORKFLOWS), asy
       name: workflow.name,
       status: workflow.status.toLowerCase(),
       createdAt: workflow.createdAt,
+      warnings: getWorkflowTemplateWarnings(nodes),
     });
   } catch (error) {
     next(error);
@@ -144,6 +334,7 @@ router.get('/:id', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), asy
       trigger: workflow.trigger,
       nodes: workflow.nodes,
       edges: workflow.edges,
+      settings: workflow.settings,
       version: workflow.version,
       stats: {
         totalExecutions,
@@ -157,8 +348,8 @@ router.get('/:id', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), asy
 
 router.put('/:id', requireJWT, requirePermission(Permission.EDIT_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { appId } = req.jwtPayload!;
-    const { name, description, trigger, nodes, edges } = req.body;
+    const { appId, userId } = req.jwtPayload!;
+    const { name, description, trigger, nodes, edges, settings } = req.body;
 
     const existing = await prisma.workflow.findFirst({
       where: { id: req.params.id, appId },
@@ -171,36 +362,105 @@ router.put('/:id', requireJWT, requirePermission(Permission.EDIT_WORKFLOWS), asy
       });
     }
 
-    if (existing.status === 'ACTIVE') {
-      // Increment version on updates to active workflows
-      const updated = await prisma.workflow.update({
-        where: { id: existing.id },
-        data: {
-          name: name ?? undefined,
-          description: description ?? undefined,
-          trigger: trigger ?? undefined,
-          nodes: nodes ?? undefined,
-          edges: edges ?? undefined,
-          version: existing.version + 1,
-        },
-        select: { id: true, version: true, updatedAt: true },
-      });
+    if (nodes || edges) {
+      const graphErrors = validateWorkflowGraph(nodes ?? existing.nodes, edges ?? existing.edges);
+      if (graphErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid workflow graph',
+          code: 'INVALID_WORKFLOW_GRAPH',
+          errors: graphErrors,
+        });
+      }
+    }
+
+    if (nodes) {
+      const configErrors = validateWorkflowNodeConfigs(nodes);
+      if (configErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid node config',
+          code: 'INVALID_NODE_CONFIG',
+          errors: configErrors,
+        });
+      }
+
+      await validateNodeSegments(appId, nodes);
+    }
+
+    if (settings !== undefined) {
+      const settingsErrors = validateWorkflowSettings(settings);
+      if (settingsErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid workflow settings',
+          code: 'INVALID_WORKFLOW_SETTINGS',
+          errors: settingsErrors,
+        });
+      }
+    }
+
+    if (trigger) {
+      const triggerErrors = validateWorkflowTrigger(trigger);
+      if (triggerErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid workflow trigger',
+          code: 'INVALID_WORKFLOW_TRIGGER',
+          errors: triggerErrors,
+        });
+      }
+
+      await validateTriggerSegment(appId, trigger);
+    }
+
+    const definition = {
+      trigger: (trigger ?? existing.trigger) as Prisma.InputJsonValue,
+      nodes: (nodes ?? existing.nodes) as Prisma.InputJsonValue,
+      edges: (edges ?? existing.edges) as Prisma.InputJsonValue,
+      settings: (settings ?? existing.settings) as Prisma.InputJsonValue,
+    };
+    const definitionChanged = [trigger, nodes, edges, settings].some((value) => value !== undefined && value !== null);
+    const warnings = getWorkflowTemplateWarnings(definition.nodes as unknown[]);
+
+    if (existing.status !== 'DRAFT' && definitionChanged) {
+      // Save a new version; running executions stay on the one they started on
+      const version = existing.version + 1;
+      const updated = await saveNextVersion(() =>
+        prisma.workflow.update({
+          where: { id: existing.id },
+          data: {
+            name: name ?? undefined,
+            description: description ?? undefined,
+            ...definition,
+            ...(trigger && { nextRunAt: null }),
+            version,
+            versions: { create: { version, ...definition, createdBy: userId } },
+          },
+          select: { id: true, version: true, updatedAt: true },
+        })
+      );
 
       return res.json({
         id: updated.id,
         version: updated.version,
         updatedAt: updated.updatedAt,
+        warnings,
       });
     }
 
+    // Drafts never run, so their current version is edited in place
     const updated = await prisma.workflow.update({
       where: { id: existing.id },
       data: {
         name: name ?? undefined,
         description: description ?? undefined,
-        trigger: trigger ?? undefined,
-        nodes: nodes ?? undefined,
-        edges: edges ?? undefined,
+        ...(definitionChanged && {
+          ...definition,
+          versions: {
+            upsert: {
+              where: { workflowId_version: { workflowId: existing.id, version: existing.version } },
+              create: { version: existing.version, ...definition, createdBy: userId },
+              update: definition,
+            },
+          },
+        }),
       },
       select: { id: true, version: true, updatedAt: true },
     });
@@ -209,6 +469,7 @@ router.put('/:id', requireJWT, requirePermission(Permission.EDIT_WORKFLOWS), asy
       id: updated.id,
       version: updated.version,
       updatedAt: updated.updatedAt,
+      warnings,
     });
   } catch (error) {
     next(error);
@@ -261,7 +522,8 @@ router.post('/:id/activate', requireJWT, requirePermission(Permission.MANAGE_WOR
 
     const updated = await prisma.workflow.update({
       where: { id: workflow.id },
-      data: { status: 'ACTIVE' },
+      // Schedule triggers pick their next run from now
+      data: { status: 'ACTIVE', nextRunAt: null },
       select: { id: true, status: true },
     });
 
@@ -297,6 +559,229 @@ router.post('/:id/pause', requireJWT, requirePermission(Permission.MANAGE_WORKFL
   }
 });
 
+router.get('/:id/versions', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, version: true },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        code: 'WORKFLOW_NOT_FOUND',
+      });
+    }
+
+    const versions = await prisma.workflowVersion.findMany({
+      where: { workflowId: workflow.id },
+      orderBy: { version: 'desc' },
+      select: { version: true, createdBy: true, createdAt: true },
+    });
+
+    res.json({
+      versions: versions.map((version) => ({
+        version: version.version,
+        createdBy: version.createdBy,
+        createdAt: version.createdAt,
+        isCurrent: version.version === workflow.version,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id/versions/diff', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, version: true },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        code: 'WORKFLOW_NOT_FOUND',
+      });
+    }
+
+    if (req.query.from === undefined) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        code: 'MISSING_FIELDS',
+        message: 'from is required',
+      });
+    }
+
+    // Compare against the current version unless told otherwise
+    const from = await requireWorkflowVersion(workflow.id, req.query.from);
+    const to = await requireWorkflowVersion(workflow.id, req.query.to ?? workflow.version);
+
+    res.json({
+      from: from.version,
+      to: to.version,
+      diff: diffWorkflowDefinitions(from, to),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id/versions/:version', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, version: true },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        code: 'WORKFLOW_NOT_FOUND',
+      });
+    }
+
+    const version = await requireWorkflowVersion(workflow.id, req.params.version);
+
+    res.json({
+      version: version.version,
+      trigger: version.trigger,
+      nodes: version.nodes,
+      edges: version.edges,
+      settings: version.settings,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt,
+      isCurrent: version.version === workflow.version,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/rollback', requireJWT, requirePermission(Permission.EDIT_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, userId } = req.jwtPayload!;
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, version: true },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        code: 'WORKFLOW_NOT_FOUND',
+      });
+    }
+
+    if (req.body?.version === undefined) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        code: 'MISSING_FIELDS',
+        message: 'version is required',
+      });
+    }
+
+    const version = await rollbackWorkflow(workflow, req.body.version, userId);
+
+    res.json({
+      id: workflow.id,
+      version,
+      restoredFrom: Number(req.body.version),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/enroll', requireJWT, requirePermission(Permission.MANAGE_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const { userIds } = req.body ?? {};
+
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: req.params.id, appId },
+      select: { id: true, appId: true, status: true, trigger: true, settings: true },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        code: 'WORKFLOW_NOT_FOUND',
+      });
+    }
+
+    if (workflow.status !== 'ACTIVE') {
+      return res.status(400).json({
+        error: 'Workflow is not active',
+        code: 'WORKFLOW_NOT_ACTIVE',
+      });
+    }
+
+    if (
+      !Array.isArray(userIds)
+      || userIds.length === 0
+      || userIds.length > MAX_ENROLL_USERS
+      || !userIds.every((userId) => typeof userId === 'string' && userId.length > 0)
+    ) {
+      return res.status(400).json({
+        error: 'Invalid user IDs',
+        code: 'INVALID_USER_IDS',
+        message: `userIds must be a non-empty array of up to ${MAX_ENROLL_USERS} user IDs`,
+      });
+    }
+
+    const uniqueUserIds = Array.from(new Set<string>(userIds));
+
+    // Executions run their first nodes as users are enrolled, so this can take
+    // a while; progress is reported on the admin socket as workflow:enrollment
+    startEnrollment(workflow, uniqueUserIds);
+
+    res.status(202).json({ workflowId: workflow.id, total: uniqueUserIds.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/simulate', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: req.params.id, appId },
+      select: { appId: true, nodes: true, edges: true },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        code: 'WORKFLOW_NOT_FOUND',
+      });
+    }
+
+    const parsed = simulateWorkflowSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid simulation input',
+        code: 'INVALID_SIMULATION_INPUT',
+        errors: parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+      });
+    }
+
+    const simulation = simulateWorkflow({
+      appId: workflow.appId,
+      nodes: workflow.nodes as unknown as WorkflowNode[],
+      edges: workflow.edges as unknown as WorkflowEdge[],
+    }, parsed.data);
+
+    res.json(simulation);
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/:id/executions', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId } = req.jwtPayload!;
@@ -332,21 +817,7 @@ router.get('/:id/executions', requireJWT, requirePermission(Permission.VIEW_WORK
     ]);
 
     res.json({
-      executions: executions.map((execution) => {
-        const durationMs = execution.completedAt
-          ? execution.completedAt.getTime() - execution.startedAt.getTime()
-          : null;
-
-        return {
-          id: execution.id,
-          userId: execution.userId,
-          status: execution.status.toLowerCase(),
-          currentNodeId: execution.currentNodeId,
-          startedAt: execution.startedAt,
-          completedAt: execution.completedAt,
-          durationMs,
-        };
-      }),
+      executions: executions.map(serializeExecution),
       total,
       hasMore: offset + executions.length < total,
     });
@@ -355,6 +826,79 @@ router.get('/:id/executions', requireJWT, requirePermission(Permission.VIEW_WORK
   }
 });
 
+router.get('/:id/executions/:executionId', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId } = req.jwtPayload!;
+    const workflow = await requireWorkflow(appId, req.params.id);
+
+    await sendExecutionDetail(res, workflow.id, req.params.executionId);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/executions/:executionId/cancel', requireJWT, requirePermission(Permission.MANAGE_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, userId } = req.jwtPayload!;
+    const workflow = await requireWorkflow(appId, req.params.id);
+    const execution = await requireExecution(workflow.id, req.params.executionId);
+
+    await cancelExecution(execution, userId);
+    await sendExecutionDetail(res, workflow.id, execution.id);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/executions/:executionId/retry', requireJWT, requirePermission(Permission.MANAGE_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, userId } = req.jwtPayload!;
+    const workflow = await requireWorkflow(appId, req.params.id);
+    const execution = await requireExecution(workflow.id, req.params.executionId);
+
+    await retryExecution(execution, userId);
+    await sendExecutionDetail(res, workflow.id, execution.id);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/executions/:executionId/skip-wait', requireJWT, requirePermission(Permission.MANAGE_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, userId } = req.jwtPayload!;
+    const workflow = await requireWorkflow(appId, req.params.id);
+    const execution = await requireExecution(workflow.id, req.params.executionId);
+
+    const parsed = skipExecutionWaitSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidExecutionAction(res, parsed.error);
+    }
+
+    await skipExecutionWait(execution, parsed.data, userId);
+    await sendExecutionDetail(res, workflow.id, execution.id);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/executions/:executionId/move', requireJWT, requirePermission(Permission.MANAGE_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appId, userId } = req.jwtPayload!;
+    const workflow = await requireWorkflow(appId, req.params.id);
+    const execution = await requireExecution(workflow.id, req.params.executionId);
+
+    const parsed = moveExecutionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidExecutionAction(res, parsed.error);
+    }
+
+    await moveExecution(execution, parsed.data.nodeId, userId);
+    await sendExecutionDetail(res, workflow.id, execution.id);
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/:id/analytics', requireJWT, requirePermission(Permission.VIEW_WORKFLOWS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { appId } = req.jwtPayload!;
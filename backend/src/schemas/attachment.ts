@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const createAttachmentSchema = z.object({
+  file_name: z.string().min(1).max(255),
+  mime_type: z.string().min(1).max(100).transform((value) => value.toLowerCase()),
+  size_bytes: z.number().int().positive(),
+});
+
+export type CreateAttachmentInput = z.infer<typeof createAttachmentSchema>;
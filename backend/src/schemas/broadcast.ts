@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const broadcastEngagementSchema = z.object({
+  url: z.string().url().max(2048).optional(),
+});
+
+export type BroadcastEngagementInput = z.infer<typeof broadcastEngagementSchema>;
@@ -4,12 +4,16 @@ import { deviceContextSchema } from './conversation.js';
 
 export const createMessageSchema = z.object({
   local_id: z.string().uuid(),
-  body: z.string().min(1).max(config.message.maxLength),
+  body: z.string().max(config.message.maxLength).default(''),
+  attachment_ids: z.array(z.string().min(1)).max(config.attachments.maxPerMessage).optional(),
   device_context: z.preprocess(
     (value) => (value === null ? undefined : value),
     deviceContextSchema.optional()
   ),
-});
+}).refine(
+  (data) => data.body.length > 0 || (data.attachment_ids?.length ?? 0) > 0,
+  { message: 'Message must have a body or at least one attachment', path: ['body'] }
+);
 
 export const getMessagesQuerySchema = z.object({
   after: z.string().optional().transform((val) => val ? parseInt(val, 10) : undefined),
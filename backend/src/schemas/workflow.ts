@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import { parseCron } from '../lib/cron.js';
+import { MAX_SEGMENT_CONDITIONS, MAX_SEGMENT_DEPTH } from '../lib/queryDSL.js';
+import { MAX_PATTERN_LENGTH, isSafeRegex } from '../lib/safeRegex.js';
+import { isValidTimeZone } from '../lib/timezone.js';
+
+const templatedJsonSchema = z.record(z.unknown());
+
+export const sendMessageConfigSchema = z.object({
+  body: z.string().min(1),
+});
+
+const durationSchema = z.string().regex(/^\s*[0-9]+\s*(s|m|h|d)\s*$/i, 'duration must look like 30m, 2h or 3d');
+
+export const waitConfigSchema = z.object({
+  duration: durationSchema,
+});
+
+const COUNT_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'] as const;
+
+export const conditionConfigSchema = z.object({
+  // A context key or dotted path such as user.attributes.plan
+  field: z.string().min(1),
+  operator: z.enum([
+    ...COUNT_OPERATORS,
+    'contains',
+    'in',
+    'not_in',
+    'exists',
+    'not_exists',
+    'matches',
+    'within_last',
+    'older_than',
+  ]),
+  value: z.unknown(),
+}).superRefine((condition, ctx) => {
+  const { operator, value } = condition;
+
+  if ((operator === 'in' || operator === 'not_in') && !Array.isArray(value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `value must be an array for ${operator}` });
+  } else if (operator === 'matches') {
+    if (typeof value !== 'string' || value.length > MAX_PATTERN_LENGTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: `value must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`,
+      });
+      return;
+    }
+    try {
+      new RegExp(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'value must be a valid regular expression' });
+      return;
+    }
+    // Patterns run against end-user event properties, so none may backtrack without bound
+    if (!isSafeRegex(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: 'value must not repeat a group that contains a quantifier or |, or use backreferences',
+      });
+    }
+  } else if ((operator === 'within_last' || operator === 'older_than') && !durationSchema.safeParse(value).success) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: `value must be a duration like 30m, 2h or 3d for ${operator}`,
+    });
+  }
+});
+
+// Whether, or how many times, the user tracked an event, optionally only counting recent ones
+export const eventHistoryConditionSchema = z.object({
+  type: z.literal('event'),
+  event_name: z.string().min(1),
+  within: durationSchema.optional(),
+  operator: z.enum(['exists', 'not_exists', ...COUNT_OPERATORS]).default('exists'),
+  value: z.number().int().nonnegative().optional(),
+}).refine(
+  (condition) => ['exists', 'not_exists'].includes(condition.operator) || condition.value !== undefined,
+  { message: 'value is required when comparing event counts', path: ['value'] }
+);
+
+export type WorkflowCondition =
+  | z.infer<typeof conditionConfigSchema>
+  | z.infer<typeof eventHistoryConditionSchema>
+  | { operator: 'AND' | 'OR'; conditions: WorkflowCondition[] };
+
+function conditionSchemaFor(condition: Record<string, unknown>): z.ZodTypeAny {
+  if ('conditions' in condition) return conditionGroupSchema;
+  if (condition.type === 'event') return eventHistoryConditionSchema;
+  return conditionConfigSchema;
+}
+
+// Picks the schema by shape rather than trying each, so errors point at the offending field
+const workflowConditionSchema: z.ZodType<WorkflowCondition, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.record(z.unknown()).transform((condition, ctx) => {
+    const parsed = conditionSchemaFor(condition).safeParse(condition);
+    if (parsed.success) return parsed.data as WorkflowCondition;
+
+    for (const issue of parsed.error.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    }
+    return z.NEVER;
+  })
+);
+
+const conditionGroupSchema = z.object({
+  operator: z.enum(['AND', 'OR']),
+  conditions: z.array(workflowConditionSchema).min(1),
+});
+
+function measureCondition(condition: WorkflowCondition, depth = 0): { depth: number; conditions: number } {
+  if (!('conditions' in condition)) return { depth, conditions: 1 };
+
+  return condition.conditions.reduce(
+    (total, child) => {
+      const measured = measureCondition(child, depth + 1);
+      return { depth: Math.max(total.depth, measured.depth), conditions: total.conditions + measured.conditions };
+    },
+    { depth, conditions: 0 }
+  );
+}
+
+/**
+ * A condition node's config: a single condition or an AND/OR group, nested
+ * within the same limits as segment queries
+ */
+export const conditionNodeConfigSchema = workflowConditionSchema.superRefine((condition, ctx) => {
+  const measured = measureCondition(condition);
+
+  if (measured.depth > MAX_SEGMENT_DEPTH) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Conditions can be nested at most ${MAX_SEGMENT_DEPTH} levels deep`,
+    });
+  }
+  if (measured.conditions > MAX_SEGMENT_CONDITIONS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Condition nodes are limited to ${MAX_SEGMENT_CONDITIONS} conditions`,
+    });
+  }
+});
+
+export const waitForEventConfigSchema = z.object({
+  event_name: z.string().min(1),
+  // Conditions on the event's properties, all of which must hold
+  filters: z.array(conditionConfigSchema).optional(),
+  timeout: durationSchema,
+});
+
+export const joinConfigSchema = z.object({
+  mode: z.enum(['all', 'any']).optional(),
+});
+
+export const sendPushConfigSchema = z.object({
+  title: z.string().min(1).optional(),
+  body: z.string().min(1),
+  data: z.record(z.string()).optional(),
+});
+
+export const webhookConfigSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//i.test(url), 'url must be http or https'),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('POST'),
+  headers: z.record(z.string()).optional(),
+  body: templatedJsonSchema.optional(),
+});
+
+export const setUserAttributeConfigSchema = z.object({
+  attribute: z.string().min(1).max(100),
+  value: z.unknown().refine((value) => value !== undefined, 'value is required'),
+});
+
+export const trackEventConfigSchema = z.object({
+  event_name: z.string().min(1),
+  properties: templatedJsonSchema.optional(),
+});
+
+export const segmentMembershipConfigSchema = z.object({
+  segment_id: z.string().min(1),
+});
+
+export const assignConversationConfigSchema = z.object({
+  // Omit to use the app's auto-assignment strategy
+  assignee_id: z.string().min(1).optional(),
+});
+
+export const resolveConversationConfigSchema = z.object({});
+
+/**
+ * Config schema for every node type a workflow may contain
+ */
+export const workflowNodeConfigSchemas = {
+  send_message: sendMessageConfigSchema,
+  wait: waitConfigSchema,
+  condition: conditionNodeConfigSchema,
+  wait_for_event: waitForEventConfigSchema,
+  fan_out: z.object({}),
+  join: joinConfigSchema,
+  send_push: sendPushConfigSchema,
+  webhook: webhookConfigSchema,
+  set_user_attribute: setUserAttributeConfigSchema,
+  track_event: trackEventConfigSchema,
+  add_to_segment: segmentMembershipConfigSchema,
+  remove_from_segment: segmentMembershipConfigSchema,
+  assign_conversation: assignConversationConfigSchema,
+  resolve_conversation: resolveConversationConfigSchema,
+} as const;
+
+// segment_id on other trigger types limits enrollment to members of that segment
+const segmentFilterSchema = z.string().min(1).optional();
+
+const userTriggerSchema = <T extends string>(type: T) => z.object({
+  type: z.literal(type),
+  segment_id: segmentFilterSchema,
+});
+
+export const workflowTriggerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('event'),
+    event_name: z.string().min(1),
+    // Conditions on the event's properties, all of which must hold
+    filters: z.array(conditionConfigSchema).optional(),
+    segment_id: segmentFilterSchema,
+  }),
+  userTriggerSchema('user_identified'),
+  userTriggerSchema('conversation_created'),
+  userTriggerSchema('message_received'),
+  userTriggerSchema('conversation_resolved'),
+  userTriggerSchema('manual'),
+  z.object({
+    type: z.enum(['segment_entered', 'segment_exited']),
+    segment_id: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('schedule'),
+    cron: z.string().refine((cron) => parseCron(cron) !== null, 'cron must be a five-field cron expression'),
+    timezone: z.string().refine(isValidTimeZone, 'timezone must be an IANA timezone').optional(),
+    // Members of this segment are enrolled on every run
+    segment_id: z.string().min(1),
+  }),
+]);
+
+export type WorkflowTrigger = z.infer<typeof workflowTriggerSchema>;
+
+export type WorkflowTriggerType = WorkflowTrigger['type'];
+
+export const workflowSettingsSchema = z.object({
+  re_entry: z.enum(['never', 'after_cooldown', 'always']).default('always'),
+  re_entry_cooldown: durationSchema.optional(),
+  max_concurrent_per_user: z.number().int().positive().optional(),
+  // Tracking this event cancels the user's running executions
+  exit_event: z.string().min(1).optional(),
+}).refine(
+  (settings) => settings.re_entry !== 'after_cooldown' || settings.re_entry_cooldown !== undefined,
+  { message: 're_entry_cooldown is required when re_entry is after_cooldown', path: ['re_entry_cooldown'] }
+);
+
+export const simulateWorkflowSchema = z.object({
+  userId: z.string().min(1).default('simulated_user'),
+  // Stands in for the trigger's event properties or attributes
+  payload: z.record(z.unknown()).default({}),
+  // Profile fields such as name, email and attributes
+  user: z.record(z.unknown()).default({}),
+  // How many times the user has done each event, for event history conditions
+  eventCounts: z.record(z.number().int().nonnegative()).default({}),
+  // Whether wait_for_event nodes see their event or time out
+  waitForEvent: z.enum(['event', 'timeout']).default('event'),
+});
+
+export type SimulateWorkflowInput = z.infer<typeof simulateWorkflowSchema>;
+
+export const skipExecutionWaitSchema = z.object({
+  // Required when several parallel paths are waiting
+  stepId: z.string().min(1).optional(),
+  // Branch a wait_for_event continues down
+  outcome: z.enum(['event', 'timeout']).optional(),
+});
+
+export const moveExecutionSchema = z.object({
+  nodeId: z.string().min(1),
+});
+
+export type WorkflowNodeType = keyof typeof workflowNodeConfigSchemas;
+
+export type SendPushConfig = z.infer<typeof sendPushConfigSchema>;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+export type SetUserAttributeConfig = z.infer<typeof setUserAttributeConfigSchema>;
+export type TrackEventConfig = z.infer<typeof trackEventConfigSchema>;
+export type SegmentMembershipConfig = z.infer<typeof segmentMembershipConfigSchema>;
+export type AssignConversationConfig = z.infer<typeof assignConversationConfigSchema>;
@@ -0,0 +1,225 @@
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { broadcastToApp } from './socketService.js';
+import { dispatchWebhook } from './webhookDispatchService.js';
+
+export type AssignmentStrategy = 'round_robin' | 'least_busy' | 'manual';
+
+export interface AssignmentSettings {
+  strategy: AssignmentStrategy;
+  agentIds: string[] | null;
+}
+
+export interface AssignmentResponse {
+  conversation_id: string;
+  assignee_id: string | null;
+  previous_assignee_id: string | null;
+  assigned_by: string | null;
+  assigned_at: string | null;
+  reason: 'manual' | 'auto';
+}
+
+const STRATEGIES: AssignmentStrategy[] = ['round_robin', 'least_busy', 'manual'];
+
+/**
+ * Read assignment settings from App.settings.assignment
+ * Defaults to round-robin across every active admin user of the app
+ */
+export function parseAssignmentSettings(settings: unknown): AssignmentSettings {
+  const root = settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+  const raw = root.assignment && typeof root.assignment === 'object'
+    ? (root.assignment as Record<string, unknown>)
+    : {};
+
+  const strategy = STRATEGIES.includes(raw.strategy as AssignmentStrategy)
+    ? (raw.strategy as AssignmentStrategy)
+    : 'round_robin';
+
+  const agentIds = Array.isArray(raw.agent_ids)
+    ? raw.agent_ids.filter((id): id is string => typeof id === 'string')
+    : null;
+
+  return { strategy, agentIds };
+}
+
+/**
+ * Assign (or unassign, with null) a conversation to an admin user
+ */
+export async function assignConversation(
+  appId: string,
+  conversationId: string,
+  assigneeId: string | null,
+  options: { assignedBy?: string | null; reason?: 'manual' | 'auto' } = {}
+): Promise<AssignmentResponse> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, appId },
+    select: { id: true, assigneeId: true, userId: true, deviceId: true },
+  });
+
+  if (!conversation) {
+    throw new ApiError(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  if (assigneeId) {
+    const assignee = await prisma.adminUser.findFirst({
+      where: { id: assigneeId, appId, isActive: true },
+      select: { id: true },
+    });
+
+    if (!assignee) {
+      throw new ApiError(400, 'Invalid assignee', 'INVALID_ASSIGNEE', 'Assignee must be an active member of this app');
+    }
+  }
+
+  const assignedAt = assigneeId ? new Date() : null;
+
+  await prisma.conversation.update({
+    where: { id: conversation.id },
+    data: { assigneeId, assignedAt },
+  });
+
+  const assignment: AssignmentResponse = {
+    conversation_id: conversation.id,
+    assignee_id: assigneeId,
+    previous_assignee_id: conversation.assigneeId,
+    assigned_by: options.assignedBy ?? null,
+    assigned_at: assignedAt?.toISOString() ?? null,
+    reason: options.reason ?? 'manual',
+  };
+
+  publishAssignment(appId, assignment, conversation);
+  return assignment;
+}
+
+/**
+ * Auto-assign an unowned conversation using the app's configured strategy
+ * Returns null when the conversation is already owned, the app assigns manually,
+ * or no agent is available. Never throws: called fire-and-forget from createMessage.
+ */
+export async function autoAssignConversation(
+  appId: string,
+  conversationId: string
+): Promise<AssignmentResponse | null> {
+  try {
+    const app = await prisma.app.findUnique({
+      where: { id: appId },
+      select: { settings: true },
+    });
+
+    if (!app) return null;
+
+    const settings = parseAssignmentSettings(app.settings);
+    if (settings.strategy === 'manual') return null;
+
+    const agentId = settings.strategy === 'least_busy'
+      ? await pickLeastBusyAgent(appId, settings.agentIds)
+      : await pickRoundRobinAgent(appId, settings.agentIds);
+
+    if (!agentId) return null;
+
+    const assignedAt = new Date();
+
+    // Conditional update so concurrent messages cannot both claim the conversation
+    const claimed = await prisma.conversation.updateMany({
+      where: { id: conversationId, appId, assigneeId: null },
+      data: { assigneeId: agentId, assignedAt },
+    });
+
+    if (claimed.count === 0) return null;
+
+    await prisma.adminUser.update({
+      where: { id: agentId },
+      data: { lastAssignedAt: assignedAt },
+    });
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { userId: true, deviceId: true },
+    });
+
+    const assignment: AssignmentResponse = {
+      conversation_id: conversationId,
+      assignee_id: agentId,
+      previous_assignee_id: null,
+      assigned_by: null,
+      assigned_at: assignedAt.toISOString(),
+      reason: 'auto',
+    };
+
+    publishAssignment(appId, assignment, conversation);
+    return assignment;
+  } catch (error) {
+    console.error('[Assignment] Auto-assignment failed:', conversationId, error);
+    return null;
+  }
+}
+
+async function findEligibleAgents(appId: string, agentIds: string[] | null) {
+  return prisma.adminUser.findMany({
+    where: {
+      appId,
+      isActive: true,
+      ...(agentIds ? { id: { in: agentIds } } : {}),
+    },
+    orderBy: [
+      { lastAssignedAt: { sort: 'asc', nulls: 'first' } },
+      { createdAt: 'asc' },
+    ],
+    select: { id: true },
+  });
+}
+
+/**
+ * Round-robin: the agent who was assigned least recently goes next
+ */
+async function pickRoundRobinAgent(appId: string, agentIds: string[] | null): Promise<string | null> {
+  const agents = await findEligibleAgents(appId, agentIds);
+  return agents[0]?.id ?? null;
+}
+
+/**
+ * Least-busy: the agent with the fewest open conversations, ties broken round-robin
+ */
+async function pickLeastBusyAgent(appId: string, agentIds: string[] | null): Promise<string | null> {
+  const agents = await findEligibleAgents(appId, agentIds);
+  if (agents.length === 0) return null;
+
+  const loads = await prisma.conversation.groupBy({
+    by: ['assigneeId'],
+    where: {
+      appId,
+      status: 'open',
+      assigneeId: { in: agents.map((agent) => agent.id) },
+    },
+    _count: { id: true },
+  });
+
+  const loadByAgent = new Map<string, number>();
+  loads.forEach((row) => {
+    if (row.assigneeId) loadByAgent.set(row.assigneeId, row._count.id);
+  });
+
+  let best: { id: string; load: number } | null = null;
+  for (const agent of agents) {
+    const load = loadByAgent.get(agent.id) ?? 0;
+    if (!best || load < best.load) {
+      best = { id: agent.id, load };
+    }
+  }
+
+  return best?.id ?? null;
+}
+
+function publishAssignment(
+  appId: string,
+  assignment: AssignmentResponse,
+  conversation: { userId: string | null; deviceId: string } | null
+): void {
+  broadcastToApp(appId, 'conversation:assigned', assignment);
+
+  void dispatchWebhook(appId, 'conversation.assigned', {
+    ...assignment,
+    user_id: conversation?.userId ?? null,
+    device_id: conversation?.deviceId ?? null,
+  });
+}
@@ -0,0 +1,276 @@
+import path from 'path';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { config } from '../config/index.js';
+import { getStorage, type SignedUrl } from '../lib/storage.js';
+import { generateAttachmentId } from '../utils/ids.js';
+import type { CreateAttachmentInput } from '../schemas/attachment.js';
+import { getConversationForDevice } from './conversationService.js';
+
+export interface AttachmentResponse {
+  id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  url: string | null;
+  url_expires_at: string | null;
+}
+
+export interface AttachmentUploadResponse {
+  attachment: AttachmentResponse;
+  upload: SignedUrl;
+}
+
+export interface AttachmentRecord {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  storageDriver: string;
+  storageKey: string;
+  status: string;
+}
+
+/**
+ * Reserve an attachment and return a signed upload URL for the client
+ */
+export async function createAttachmentUpload(
+  appId: string,
+  deviceId: string,
+  conversationId: string,
+  input: CreateAttachmentInput
+): Promise<AttachmentUploadResponse> {
+  const conversation = await getConversationForDevice(appId, deviceId, conversationId);
+
+  if (!conversation) {
+    throw new ApiError(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  validateAttachmentInput(input);
+
+  const id = generateAttachmentId();
+  const fileName = sanitizeFileName(input.file_name);
+  const storage = getStorage();
+  const storageKey = `${appId}/${conversationId}/${id}/${fileName}`;
+
+  const attachment = await prisma.attachment.create({
+    data: {
+      id,
+      fileName,
+      mimeType: input.mime_type,
+      sizeBytes: input.size_bytes,
+      storageDriver: storage.name,
+      storageKey,
+      uploadedBy: deviceId,
+      conversationId,
+      appId, // Required for RLS
+    },
+  });
+
+  const upload = storage.createUploadUrl(storageKey, {
+    mimeType: input.mime_type,
+    sizeBytes: input.size_bytes,
+    expiresInSeconds: config.attachments.uploadUrlTtlSeconds,
+  });
+
+  return { attachment: formatAttachment(attachment), upload };
+}
+
+/**
+ * Confirm the client finished uploading. The local driver marks uploads itself,
+ * so this is idempotent; for S3 it checks the object landed with the declared
+ * size and type.
+ */
+export async function completeAttachmentUpload(
+  appId: string,
+  deviceId: string,
+  conversationId: string,
+  attachmentId: string
+): Promise<AttachmentResponse> {
+  const attachment = await findAttachmentForDevice(appId, deviceId, conversationId, attachmentId);
+
+  if (attachment.status === 'uploaded') {
+    return formatAttachment(attachment);
+  }
+
+  const stored = await getStorage(attachment.storageDriver).stat(attachment.storageKey);
+  if (!stored) {
+    throw new ApiError(409, 'Upload not found', 'ATTACHMENT_NOT_UPLOADED', 'Upload the file before completing');
+  }
+
+  if (stored.sizeBytes !== attachment.sizeBytes || (stored.mimeType !== null && stored.mimeType !== attachment.mimeType)) {
+    throw new ApiError(
+      409,
+      'Upload does not match attachment',
+      'ATTACHMENT_MISMATCH',
+      `Expected ${attachment.sizeBytes} bytes of ${attachment.mimeType}`
+    );
+  }
+
+  await prisma.attachment.updateMany({
+    where: { id: attachment.id, status: 'pending' },
+    data: { status: 'uploaded', uploadedAt: new Date() },
+  });
+  const updated = await prisma.attachment.findUniqueOrThrow({ where: { id: attachment.id } });
+
+  return formatAttachment(updated);
+}
+
+export async function getAttachment(
+  appId: string,
+  deviceId: string,
+  conversationId: string,
+  attachmentId: string
+): Promise<AttachmentResponse> {
+  const attachment = await findAttachmentForDevice(appId, deviceId, conversationId, attachmentId);
+  return formatAttachment(attachment);
+}
+
+/**
+ * Dedupe the attachment IDs sent with a new message and check their number
+ */
+export function normalizeAttachmentIds(attachmentIds: string[]): string[] {
+  const ids = [...new Set(attachmentIds)];
+
+  if (ids.length > config.attachments.maxPerMessage) {
+    throw new ApiError(
+      400,
+      'Too many attachments',
+      'TOO_MANY_ATTACHMENTS',
+      `A message can have at most ${config.attachments.maxPerMessage} attachments`
+    );
+  }
+
+  return ids;
+}
+
+/**
+ * Attach uploaded attachments to a new message. Each must belong to this
+ * conversation and not already be attached to another message; they are
+ * claimed in one conditional update, so two messages cannot both take one.
+ * Run inside the transaction that creates the message, which a rejected
+ * claim rolls back.
+ */
+export async function resolveMessageAttachments(
+  tx: Prisma.TransactionClient,
+  conversationId: string,
+  messageId: string,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) return;
+
+  const claimed = await tx.attachment.updateMany({
+    where: {
+      id: { in: attachmentIds },
+      conversationId,
+      status: 'uploaded',
+      messageId: null,
+    },
+    data: { messageId },
+  });
+
+  if (claimed.count !== attachmentIds.length) {
+    throw new ApiError(
+      400,
+      'Invalid attachments',
+      'INVALID_ATTACHMENTS',
+      'Attachments must be uploaded to this conversation and not already used'
+    );
+  }
+}
+
+/**
+ * Mark a pending attachment uploaded once the local driver has stored its bytes
+ * @returns False if the attachment was no longer pending
+ */
+export async function markLocalUploadComplete(storageKey: string): Promise<boolean> {
+  const updated = await prisma.attachment.updateMany({
+    where: { storageKey, status: 'pending' },
+    data: { status: 'uploaded', uploadedAt: new Date() },
+  });
+  return updated.count > 0;
+}
+
+/**
+ * Put a local upload back to pending when its bytes could not be written
+ */
+export async function revertLocalUpload(storageKey: string): Promise<void> {
+  await prisma.attachment.updateMany({
+    where: { storageKey, status: 'uploaded', messageId: null },
+    data: { status: 'pending', uploadedAt: null },
+  });
+}
+
+export function validateAttachmentInput(input: CreateAttachmentInput): void {
+  if (!(config.attachments.allowedMimeTypes as readonly string[]).includes(input.mime_type)) {
+    throw new ApiError(
+      415,
+      'Unsupported file type',
+      'UNSUPPORTED_MEDIA_TYPE',
+      `Allowed types: ${config.attachments.allowedMimeTypes.join(', ')}`
+    );
+  }
+
+  if (input.size_bytes <= 0 || input.size_bytes > config.attachments.maxSizeBytes) {
+    throw new ApiError(
+      413,
+      'File too large',
+      'ATTACHMENT_TOO_LARGE',
+      `Attachments must be between 1 and ${config.attachments.maxSizeBytes} bytes`
+    );
+  }
+}
+
+/**
+ * Download URLs are only minted for uploaded files
+ */
+export function formatAttachment(attachment: AttachmentRecord): AttachmentResponse {
+  const download = attachment.status === 'uploaded'
+    ? getStorage(attachment.storageDriver).createDownloadUrl(attachment.storageKey, {
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        expiresInSeconds: config.attachments.downloadUrlTtlSeconds,
+      })
+    : null;
+
+  return {
+    id: attachment.id,
+    file_name: attachment.fileName,
+    mime_type: attachment.mimeType,
+    size_bytes: attachment.sizeBytes,
+    url: download?.url ?? null,
+    url_expires_at: download?.expires_at ?? null,
+  };
+}
+
+async function findAttachmentForDevice(
+  appId: string,
+  deviceId: string,
+  conversationId: string,
+  attachmentId: string
+) {
+  const conversation = await getConversationForDevice(appId, deviceId, conversationId);
+
+  if (!conversation) {
+    throw new ApiError(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  const attachment = await prisma.attachment.findFirst({
+    where: { id: attachmentId, conversationId, appId },
+  });
+
+  if (!attachment) {
+    throw new ApiError(404, 'Attachment not found', 'ATTACHMENT_NOT_FOUND');
+  }
+
+  return attachment;
+}
+
+function sanitizeFileName(fileName: string): string {
+  const base = path.basename(fileName.replace(/\\/g, '/'))
+    .replace(/[^\w.\- ]/g, '_')
+    .replace(/^\.+/, '')
+    .trim();
+  return (base || 'file').slice(0, 200);
+}
@@ -0,0 +1,76 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { BroadcastEngagementInput } from '../schemas/broadcast.js';
+
+export type BroadcastEngagementType = 'opened' | 'clicked';
+
+export type BroadcastEngagementResponse = {
+  broadcast_id: string;
+  opened_at: string | null;
+  clicked_at: string | null;
+};
+
+/**
+ * Record that a device opened or clicked a broadcast. Each engagement is
+ * counted once per recipient; a click without a prior open also counts as an open.
+ */
+export async function recordBroadcastEngagement(
+  appId: string,
+  deviceId: string,
+  broadcastId: string,
+  type: BroadcastEngagementType,
+  input: BroadcastEngagementInput = {}
+): Promise<BroadcastEngagementResponse> {
+  const recipient = await prisma.broadcastRecipient.findFirst({
+    where: { broadcastId, deviceId, broadcast: { appId } },
+    select: { id: true, metadata: true },
+  });
+
+  if (!recipient) {
+    throw new ApiError(404, 'Broadcast not found', 'BROADCAST_NOT_FOUND');
+  }
+
+  const now = new Date();
+
+  // Conditional updates make repeated reports from the SDK idempotent
+  const opened = await prisma.broadcastRecipient.updateMany({
+    where: { id: recipient.id, openedAt: null },
+    data: { openedAt: now, status: 'OPENED' },
+  });
+
+  let clickedCount = 0;
+  if (type === 'clicked') {
+    const metadata = (recipient.metadata ?? {}) as Prisma.JsonObject;
+    const clicked = await prisma.broadcastRecipient.updateMany({
+      where: { id: recipient.id, clickedAt: null },
+      data: {
+        clickedAt: now,
+        status: 'CLICKED',
+        metadata: input.url ? { ...metadata, clicked_url: input.url } : undefined,
+      },
+    });
+    clickedCount = clicked.count;
+  }
+
+  if (opened.count > 0 || clickedCount > 0) {
+    await prisma.broadcast.update({
+      where: { id: broadcastId },
+      data: {
+        totalOpened: { increment: opened.count },
+        totalClicked: { increment: clickedCount },
+      },
+    });
+  }
+
+  const updated = await prisma.broadcastRecipient.findUniqueOrThrow({
+    where: { id: recipient.id },
+    select: { openedAt: true, clickedAt: true },
+  });
+
+  return {
+    broadcast_id: broadcastId,
+    opened_at: updated.openedAt?.toISOString() ?? null,
+    clicked_at: updated.clickedAt?.toISOString() ?? null,
+  };
+}
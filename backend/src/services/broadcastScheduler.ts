@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma.js';
-import { sendBroadcast } from './broadcastSender.js';
+import { MAX_UTC_OFFSET_MS } from '../lib/timezone.js';
+import { findResumableBroadcasts, queueBroadcast, sendBroadcast } from './broadcastSender.js';
 
 let schedulerHandle: NodeJS.Timeout | null = null;
 let isRunning = false;
@@ -10,21 +11,30 @@ async function runSchedulerTick(): Promise<void> {
 
   try {
     const now = new Date();
+    // Local-time broadcasts start early so the timezones furthest ahead of UTC get theirs on time
     const scheduled = await prisma.broadcast.findMany({
       where: {
         status: 'SCHEDULED',
-        scheduledAt: { lte: now },
+        OR: [
+          { scheduledAt: { lte: now } },
+          { localTimeDelivery: true, scheduledAt: { lte: new Date(now.getTime() + MAX_UTC_OFFSET_MS) } },
+        ],
       },
       select: { id: true },
     });
 
     for (const broadcast of scheduled) {
-      try {
-        await sendBroadcast(broadcast.id);
-      } catch (error) {
-        console.error('[Broadcast Scheduler] Failed to send broadcast:', broadcast.id, error);
-      }
+      await queueBroadcast(broadcast.id);
     }
+
+    // Sends run in the background; the lease keeps a broadcast on one worker
+    for (const broadcastId of await findResumableBroadcasts(now)) {
+      sendBroadcast(broadcastId).catch((error) => {
+        console.error('[Broadcast Scheduler] Failed to send broadcast:', broadcastId, error);
+      });
+    }
+  } catch (error) {
+    console.error('[Broadcast Scheduler] Tick failed:', error);
   } finally {
     isRunning = false;
   }
@@ -1,51 +1,189 @@
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
-import { createMessage } from './messageService.js';
+import { config } from '../config/index.js';
+import { renderTemplate } from '../lib/template.js';
+import { saveMessage, type MessageResponse } from './messageService.js';
 import { getOrCreateConversation } from './conversationService.js';
-import { resolveBroadcastRecipients, type BroadcastTarget } from './broadcastService.js';
+import {
+  computeRecipientSendTime,
+  loadDeviceTimezones,
+  parseBroadcastDeliverySettings,
+  resolveBroadcastRecipients,
+  type BroadcastTarget,
+} from './broadcastService.js';
+import {
+  FREQUENCY_CAP_REASON,
+  FrequencyCapReachedError,
+  loadFrequencyCapRules,
+  type FrequencyCapRule,
+} from './frequencyCapService.js';
+import { splitAudience, selectWinningVariant } from './broadcastVariantService.js';
+import { isValidTimeZone } from '../lib/timezone.js';
 import { dispatchWebhook } from './webhookDispatchService.js';
+import { sendPushNotification } from './pushNotificationService.js';
+import { broadcastToApp } from './socketService.js';
+import type { BroadcastProgressEvent } from '../types/socket.js';
+
+// Namespace for deterministic message local IDs, so a resumed send never duplicates a message
+const BROADCAST_MESSAGE_NAMESPACE = '6f1d3c1e-5a4b-4e8f-9c2d-7b0a1e3f5d92';
+
+const RECIPIENT_INSERT_CHUNK = 1000;
+
+type BroadcastContent = {
+  id: string;
+  appId: string;
+  title: string;
+  body: string;
+  data: unknown;
+  sendPush: boolean;
+};
+
+type VariantContent = {
+  id: string;
+  title: string;
+  body: string;
+  data: unknown;
+};
+
+type PendingRecipient = {
+  id: string;
+  deviceId: string;
+  userId: string;
+  variantId: string | null;
+  metadata: Prisma.JsonValue;
+};
+
+/**
+ * FCM data payloads only carry string values
+ */
+function buildPushData(broadcast: BroadcastContent, content: VariantContent | BroadcastContent): Record<string, string> {
+  const data: Record<string, string> = {};
+  const extra = (content.data ?? {}) as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(extra)) {
+    if (value === null || value === undefined) continue;
+    data[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  data.type = 'broadcast';
+  data.broadcast_id = broadcast.id;
+  return data;
+}
+
+/**
+ * Template context for a recipient: the profile identify stored on their
+ * conversation, empty for anonymous recipients
+ */
+function buildTemplateContext(target: BroadcastTarget, conversationMetadata: Record<string, unknown> | undefined) {
+  const profile = (conversationMetadata?.user ?? {}) as Record<string, unknown>;
+  return {
+    userId: target.userId,
+    user: target.userId ? { ...profile, id: target.userId } : {},
+  };
+}
+
+async function sendToRecipient(
+  broadcast: BroadcastContent,
+  recipient: PendingRecipient,
+  variants: Map<string, VariantContent>,
+  capRules: FrequencyCapRule[]
+): Promise<'sent' | 'skipped'> {
+  const { appId } = broadcast;
+  const content = (recipient.variantId && variants.get(recipient.variantId)) || broadcast;
+  const metadata = (recipient.metadata ?? {}) as Prisma.JsonObject;
+  const target: BroadcastTarget = {
+    deviceId: recipient.deviceId,
+    // Anonymous recipients are stored with their device ID as the user ID
+    userId: recipient.userId === recipient.deviceId ? null : recipient.userId,
+    deviceContext: metadata.device_context as BroadcastTarget['deviceContext'],
+  };
 
-async function sendToRecipient(appId: string, broadcastId: string, target: BroadcastTarget, body: string) {
   const conversation = await getOrCreateConversation(appId, target.deviceId, {
     user: target.userId ? { id: target.userId } : undefined,
     device_context: target.deviceContext,
   });
 
-  await createMessage(
-    conversation.id,
-    {
-      local_id: uuidv4(),
-      body,
-      device_context: target.deviceContext,
-    },
-    appId,
-    target.deviceId,
-    'agent'
-  );
+  const body = renderTemplate(content.body, buildTemplateContext(target, conversation.metadata));
 
-  const resolvedUserId = target.userId ?? target.deviceId;
+  let message: MessageResponse;
+  let created: boolean;
+  try {
+    ({ message, created } = await saveMessage(
+      conversation.id,
+      {
+        local_id: uuidv5(`${broadcast.id}:${target.deviceId}`, BROADCAST_MESSAGE_NAMESPACE),
+        body,
+        device_context: target.deviceContext,
+      },
+      appId,
+      target.deviceId,
+      'agent',
+      { source: 'broadcast', sendKey: `broadcast:${broadcast.id}`, capRules }
+    ));
+  } catch (error) {
+    if (!(error instanceof FrequencyCapReachedError)) throw error;
 
-  await prisma.broadcastRecipient.upsert({
-    where: {
-      broadcastId_deviceId: {
-        broadcastId,
-        deviceId: target.deviceId,
+    await prisma.broadcastRecipient.update({
+      where: { id: recipient.id },
+      data: {
+        status: 'SKIPPED',
+        errorMessage: error.message,
+        metadata: { ...metadata, skip_reason: FREQUENCY_CAP_REASON },
       },
-    },
-    update: {
-      status: 'SENT',
-      sentAt: new Date(),
-      userId: resolvedUserId,
+    });
+    return 'skipped';
+  }
+
+  // Already sent, by an earlier attempt that crashed before recording it or by
+  // a worker that lost the lease mid-batch: record it once, never push it again
+  if (!created) {
+    const recorded = await prisma.broadcastRecipient.updateMany({
+      where: { id: recipient.id, status: 'PENDING' },
+      data: { status: 'SENT', sentAt: new Date(), errorMessage: null },
+    });
+    return recorded.count > 0 ? 'sent' : 'skipped';
+  }
+
+  // The in-app message is the source of truth; push is best-effort on top of it
+  let delivered = false;
+  let pushError: string | undefined;
+
+  if (broadcast.sendPush) {
+    const device = await prisma.device.findUnique({
+      where: { appId_deviceId: { appId, deviceId: target.deviceId } },
+      select: { id: true },
+    });
+
+    if (device) {
+      const result = await sendPushNotification(device.id, {
+        title: content.title,
+        body,
+        data: buildPushData(broadcast, content),
+        conversationId: conversation.id,
+        messageId: message.id,
+      });
+      delivered = result.success;
+      pushError = result.success ? undefined : result.errorCode;
+    } else {
+      pushError = 'NO_DEVICE';
+    }
+  }
+
+  const now = new Date();
+
+  await prisma.broadcastRecipient.update({
+    where: { id: recipient.id },
+    data: {
+      status: delivered ? 'DELIVERED' : 'SENT',
+      sentAt: now,
+      deliveredAt: delivered ? now : null,
       errorMessage: null,
-    },
-    create: {
-      broadcastId,
-      deviceId: target.deviceId,
-      userId: resolvedUserId,
-      status: 'SENT',
-      sentAt: new Date(),
+      metadata: pushError ? { ...metadata, push_error: pushError } : undefined,
     },
   });
+
+  return 'sent';
 }
 
 function chunk<T>(items: T[], size: number): T[][] {
@@ -56,32 +194,82 @@ function chunk<T>(items: T[], size: number): T[][] {
   return chunks;
 }
 
-export async function sendBroadcast(broadcastId: string): Promise<void> {
-  const broadcast = await prisma.broadcast.findUnique({
-    where: { id: broadcastId },
-  });
-
-  if (!broadcast) {
-    throw new Error('Broadcast not found');
-  }
-
-  if (['SENT', 'SENDING'].includes(broadcast.status)) {
-    return;
-  }
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-  await prisma.broadcast.update({
-    where: { id: broadcast.id },
+/**
+ * Move a draft or scheduled broadcast to SENDING. The send itself runs in the
+ * background via sendBroadcast.
+ * @returns True if this call queued the broadcast
+ */
+export async function queueBroadcast(broadcastId: string): Promise<boolean> {
+  const queued = await prisma.broadcast.updateMany({
+    where: { id: broadcastId, status: { in: ['DRAFT', 'SCHEDULED'] } },
     data: {
       status: 'SENDING',
-      sentAt: broadcast.sentAt ?? new Date(),
+      sentAt: new Date(),
       errorMessage: null,
     },
   });
 
+  return queued.count > 0;
+}
+
+/**
+ * Claim the send lease, or extend one this worker holds by passing its token.
+ * A claim fails while another worker's lease is live; a renewal fails once
+ * another worker has taken the lease over or the broadcast is no longer
+ * SENDING (e.g. it was cancelled).
+ * @returns The lease token, or null if this worker does not hold the lease
+ */
+async function claimSendLease(broadcastId: string, token?: string): Promise<string | null> {
+  const now = new Date();
+  const leaseToken = token ?? uuidv4();
+  const claimed = await prisma.broadcast.updateMany({
+    where: {
+      id: broadcastId,
+      status: 'SENDING',
+      ...(token
+        ? { sendLeaseToken: token }
+        : { OR: [{ sendLeaseUntil: null }, { sendLeaseUntil: { lt: now } }] }),
+    },
+    data: {
+      sendLeaseUntil: new Date(now.getTime() + config.broadcasts.sendLeaseMs),
+      sendLeaseToken: leaseToken,
+    },
+  });
+
+  return claimed.count > 0 ? leaseToken : null;
+}
+
+/**
+ * Resolve the audience once and store it as PENDING recipient rows. These rows
+ * are the checkpoint: a resumed send only works through what is still pending.
+ * Local-time delivery and quiet hours give each recipient its own scheduledFor,
+ * so the audience goes out in per-timezone waves. For an A/B test, the test
+ * group is assigned its variants here and the rest wait for the winner.
+ */
+async function materializeRecipients(
+  broadcast: {
+    id: string;
+    appId: string;
+    targetType: string;
+    segmentQuery: unknown;
+    segmentId: string | null;
+    userIds: string[];
+    scheduledAt: Date | null;
+    localTimeDelivery: boolean;
+    abTestPercent: number | null;
+    abTestWindowMinutes: number | null;
+  },
+  variantIds: string[]
+): Promise<void> {
   const recipients = await resolveBroadcastRecipients({
     appId: broadcast.appId,
     targetType: broadcast.targetType,
     segmentQuery: broadcast.segmentQuery,
+    segmentId: broadcast.segmentId,
     userIds: broadcast.userIds,
   });
 
@@ -90,62 +278,286 @@ export async function sendBroadcast(broadcastId: string): Promise<void> {
     uniqueRecipients.set(recipient.deviceId, recipient);
   });
 
-  const dedupedRecipients = Array.from(uniqueRecipients.values());
-  let sentCount = 0;
-  let failedCount = 0;
-
-  const batches = chunk(dedupedRecipients, 10);
-  for (const batch of batches) {
-    const results = await Promise.allSettled(
-      batch.map((target) => sendToRecipient(broadcast.appId, broadcast.id, target, broadcast.body))
-    );
-
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        sentCount += 1;
-      } else {
-        failedCount += 1;
-        const target = batch[index];
-        const resolvedUserId = target.userId ?? target.deviceId;
-        void prisma.broadcastRecipient.upsert({
-          where: {
-            broadcastId_deviceId: {
-              broadcastId: broadcast.id,
-              deviceId: target.deviceId,
-            },
-          },
-          update: {
-            status: 'FAILED',
-            errorMessage: result.reason instanceof Error ? result.reason.message : 'Send failed',
-          },
-          create: {
-            broadcastId: broadcast.id,
-            deviceId: target.deviceId,
-            userId: resolvedUserId,
+  const app = await prisma.app.findUnique({
+    where: { id: broadcast.appId },
+    select: { settings: true },
+  });
+  const settings = parseBroadcastDeliverySettings(app?.settings);
+  const perRecipientTiming = broadcast.localTimeDelivery || settings.quietHours !== null;
+  const now = new Date();
+
+  const variantAssignment = variantIds.length >= 2
+    ? splitAudience(Array.from(uniqueRecipients.keys()), variantIds, broadcast.abTestPercent ?? 100)
+    : new Map<string, string | null>();
+
+  for (const batch of chunk(Array.from(uniqueRecipients.values()), RECIPIENT_INSERT_CHUNK)) {
+    const storedTimezones = perRecipientTiming
+      ? await loadDeviceTimezones(
+          broadcast.appId,
+          batch.filter((target) => !isValidTimeZone(target.deviceContext?.timezone)).map((target) => target.deviceId)
+        )
+      : new Map<string, string>();
+
+    await prisma.broadcastRecipient.createMany({
+      data: batch.map((target) => {
+        const contextTimezone = target.deviceContext?.timezone;
+        const timezone = isValidTimeZone(contextTimezone)
+          ? contextTimezone
+          : storedTimezones.get(target.deviceId) ?? settings.defaultTimezone;
+
+        return {
+          broadcastId: broadcast.id,
+          deviceId: target.deviceId,
+          userId: target.userId ?? target.deviceId,
+          status: 'PENDING' as const,
+          variantId: variantAssignment.get(target.deviceId) ?? null,
+          timezone: perRecipientTiming ? timezone : null,
+          scheduledFor: perRecipientTiming
+            ? computeRecipientSendTime({
+                scheduledAt: broadcast.scheduledAt,
+                localTimeDelivery: broadcast.localTimeDelivery,
+                timezone,
+                settings,
+                now,
+              })
+            : null,
+          metadata: target.deviceContext ? { device_context: target.deviceContext } : undefined,
+        };
+      }),
+      skipDuplicates: true,
+    });
+  }
+
+  const totalRecipients = await prisma.broadcastRecipient.count({
+    where: { broadcastId: broadcast.id },
+  });
+
+  await prisma.broadcast.update({
+    where: { id: broadcast.id },
+    data: {
+      recipientsResolvedAt: new Date(),
+      totalRecipients,
+    },
+  });
+}
+
+async function countRecipients(broadcastId: string) {
+  const [pending, failed, skipped, delivered, total] = await Promise.all([
+    prisma.broadcastRecipient.count({ where: { broadcastId, status: 'PENDING' } }),
+    prisma.broadcastRecipient.count({ where: { broadcastId, status: 'FAILED' } }),
+    prisma.broadcastRecipient.count({ where: { broadcastId, status: 'SKIPPED' } }),
+    prisma.broadcastRecipient.count({ where: { broadcastId, deliveredAt: { not: null } } }),
+    prisma.broadcastRecipient.count({ where: { broadcastId } }),
+  ]);
+
+  return { pending, failed, skipped, delivered, total, sent: total - pending - failed - skipped };
+}
+
+function emitProgress(
+  appId: string,
+  broadcastId: string,
+  status: BroadcastProgressEvent['status'],
+  counts: { total: number; sent: number; failed: number; skipped: number; pending: number }
+) {
+  const event: BroadcastProgressEvent = {
+    broadcast_id: broadcastId,
+    status,
+    total_recipients: counts.total,
+    sent: counts.sent,
+    failed: counts.failed,
+    skipped: counts.skipped,
+    pending: counts.pending,
+  };
+  broadcastToApp(appId, 'broadcast:progress', event);
+}
+
+/**
+ * Send a broadcast in the background, throttled to sendRatePerSecond. Safe to
+ * call repeatedly and from several workers: only the lease holder sends, and
+ * a crashed send resumes from the remaining PENDING recipients.
+ */
+export async function sendBroadcast(broadcastId: string): Promise<void> {
+  const broadcast = await prisma.broadcast.findUnique({
+    where: { id: broadcastId },
+  });
+
+  if (!broadcast) {
+    throw new Error('Broadcast not found');
+  }
+
+  if (['DRAFT', 'SCHEDULED'].includes(broadcast.status)) {
+    await queueBroadcast(broadcast.id);
+  }
+
+  const leaseToken = await claimSendLease(broadcast.id);
+  if (!leaseToken) {
+    return;
+  }
+
+  const variants = await prisma.broadcastVariant.findMany({
+    where: { broadcastId: broadcast.id },
+    orderBy: { key: 'asc' },
+    select: { id: true, title: true, body: true, data: true },
+  });
+  const variantsById = new Map(variants.map((variant) => [variant.id, variant]));
+
+  if (!broadcast.recipientsResolvedAt) {
+    await materializeRecipients(broadcast, variants.map((variant) => variant.id));
+  }
+
+  let abTestEndsAt = broadcast.abTestEndsAt;
+
+  const capRules = await loadFrequencyCapRules(broadcast.appId);
+
+  let winningVariantId = broadcast.winningVariantId;
+  const isTesting = () => variants.length >= 2 && !winningVariantId;
+
+  const rate = Math.max(1, config.broadcasts.sendRatePerSecond);
+  let batchStartedAt = 0;
+
+  for (;;) {
+    // While the A/B test runs, only the test group is sent; the rest is held back
+    const testFilter = isTesting() ? { variantId: { not: null } } : {};
+
+    const batch = await prisma.broadcastRecipient.findMany({
+      where: {
+        broadcastId: broadcast.id,
+        status: 'PENDING',
+        ...testFilter,
+        OR: [{ scheduledFor: null }, { scheduledFor: { lte: new Date() } }],
+      },
+      orderBy: { id: 'asc' },
+      take: rate,
+      select: { id: true, deviceId: true, userId: true, variantId: true, metadata: true },
+    });
+
+    if (batch.length === 0) {
+      const nextWave = await prisma.broadcastRecipient.findFirst({
+        where: { broadcastId: broadcast.id, status: 'PENDING', ...testFilter },
+        orderBy: { scheduledFor: 'asc' },
+        select: { scheduledFor: true },
+      });
+
+      // The test window opens once the whole test group has gone out, so
+      // local-time waves and quiet hours do not eat into it
+      const testGroupSent = isTesting() && !nextWave;
+      if (testGroupSent && !abTestEndsAt) {
+        abTestEndsAt = new Date(Date.now() + (broadcast.abTestWindowMinutes ?? 0) * 60 * 1000);
+        await prisma.broadcast.update({
+          where: { id: broadcast.id },
+          data: { abTestEndsAt },
+        });
+      }
+
+      if (testGroupSent && abTestEndsAt && abTestEndsAt <= new Date()) {
+        winningVariantId = await selectWinningVariant(
+          broadcast,
+          variants.map((variant) => variant.id)
+        );
+        continue;
+      }
+
+      const resumeTimes = [nextWave?.scheduledFor, testGroupSent ? abTestEndsAt : null]
+        .filter((time): time is Date => time instanceof Date)
+        .map((time) => time.getTime());
+
+      if (resumeTimes.length === 0) break;
+
+      // Park the broadcast: the lease expires when the next timezone wave is due
+      // or the A/B test window closes, and the scheduler resumes it then
+      await prisma.broadcast.updateMany({
+        where: { id: broadcast.id, status: 'SENDING', sendLeaseToken: leaseToken },
+        data: { sendLeaseUntil: new Date(Math.min(...resumeTimes)) },
+      });
+      emitProgress(broadcast.appId, broadcast.id, 'sending', await countRecipients(broadcast.id));
+      return;
+    }
+
+    const waitMs = batchStartedAt + 1000 - Date.now();
+    if (batchStartedAt > 0 && waitMs > 0) {
+      await sleep(waitMs);
+    }
+    batchStartedAt = Date.now();
+
+    let batchSent = 0;
+    for (const group of chunk(batch, config.broadcasts.sendConcurrency)) {
+      const results = await Promise.allSettled(
+        group.map((recipient) => sendToRecipient(broadcast, recipient, variantsById, capRules))
+      );
+
+      for (const [index, result] of results.entries()) {
+        if (result.status === 'fulfilled') {
+          if (result.value === 'sent') batchSent += 1;
+          continue;
+        }
+
+        await prisma.broadcastRecipient.update({
+          where: { id: group[index].id },
+          data: {
             status: 'FAILED',
             errorMessage: result.reason instanceof Error ? result.reason.message : 'Send failed',
           },
         });
       }
-    });
+    }
+
+    if (batchSent > 0) {
+      await prisma.broadcast.update({
+        where: { id: broadcast.id },
+        data: { totalSent: { increment: batchSent } },
+      });
+    }
+
+    emitProgress(broadcast.appId, broadcast.id, 'sending', await countRecipients(broadcast.id));
+
+    // Stop if the broadcast was cancelled or another worker took over
+    if (!(await claimSendLease(broadcast.id, leaseToken))) {
+      return;
+    }
   }
 
-  await prisma.broadcast.update({
-    where: { id: broadcast.id },
+  const counts = await countRecipients(broadcast.id);
+  const status = counts.failed > 0 && counts.sent === 0 ? 'FAILED' : 'SENT';
+
+  const completed = await prisma.broadcast.updateMany({
+    where: { id: broadcast.id, status: 'SENDING', sendLeaseToken: leaseToken },
     data: {
-      status: failedCount > 0 && sentCount === 0 ? 'FAILED' : 'SENT',
+      status,
       completedAt: new Date(),
-      totalRecipients: dedupedRecipients.length,
-      totalSent: sentCount,
+      totalRecipients: counts.total,
+      totalSent: counts.sent,
+      totalDelivered: counts.delivered,
+      sendLeaseUntil: null,
+      sendLeaseToken: null,
     },
   });
 
-  const status = failedCount > 0 && sentCount === 0 ? 'failed' : 'sent';
-  void dispatchWebhook(broadcast.appId, `broadcast.${status}`, {
+  if (completed.count === 0) return;
+
+  emitProgress(broadcast.appId, broadcast.id, status === 'FAILED' ? 'failed' : 'sent', counts);
+
+  void dispatchWebhook(broadcast.appId, `broadcast.${status.toLowerCase()}`, {
     broadcast_id: broadcast.id,
     title: broadcast.title,
-    total_recipients: dedupedRecipients.length,
-    total_sent: sentCount,
-    total_failed: failedCount,
+    total_recipients: counts.total,
+    total_sent: counts.sent,
+    total_delivered: counts.delivered,
+    total_failed: counts.failed,
+    total_skipped: counts.skipped,
+  });
+}
+
+/**
+ * SENDING broadcasts with no live lease: freshly queued, or orphaned by a crash
+ */
+export async function findResumableBroadcasts(now: Date = new Date()): Promise<string[]> {
+  const broadcasts = await prisma.broadcast.findMany({
+    where: {
+      status: 'SENDING',
+      OR: [{ sendLeaseUntil: null }, { sendLeaseUntil: { lt: now } }],
+    },
+    select: { id: true },
   });
+
+  return broadcasts.map((broadcast) => broadcast.id);
 }
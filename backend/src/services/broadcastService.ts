@@ -1,4 +1,9 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
+import { buildSegmentMembersSQL } from './segmentService.js';
+import { buildSegmentSQL } from './segmentationService.js';
+import type { SegmentQuery } from '../lib/queryDSL.js';
+import { fromWallTime, isValidTimeZone, parseTimeOfDay, toWallTime } from '../lib/timezone.js';
 
 export type BroadcastTarget = {
   deviceId: string;
@@ -14,121 +19,243 @@ export type BroadcastTarget = {
   };
 };
 
-export async function resolveBroadcastRecipients(broadcast: {
+export interface BroadcastDeliverySettings {
+  // Used for recipients whose device context has no valid timezone
+  defaultTimezone: string;
+  quietHours: { start: number; end: number } | null;
+}
+
+/**
+ * Read delivery settings from App.settings: `timezone` and `quiet_hours: { start, end }`
+ * with times as "HH:MM". Quiet hours apply in each recipient's local time.
+ */
+export function parseBroadcastDeliverySettings(settings: unknown): BroadcastDeliverySettings {
+  const root = settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+  const rawQuiet = root.quiet_hours && typeof root.quiet_hours === 'object'
+    ? (root.quiet_hours as Record<string, unknown>)
+    : null;
+
+  const start = parseTimeOfDay(rawQuiet?.start);
+  const end = parseTimeOfDay(rawQuiet?.end);
+
+  return {
+    defaultTimezone: isValidTimeZone(root.timezone) ? root.timezone : 'UTC',
+    quietHours: start !== null && end !== null && start !== end ? { start, end } : null,
+  };
+}
+
+/**
+ * When a recipient should receive a broadcast.
+ * In local-time mode the UTC wall-clock of scheduledAt is replayed in the
+ * recipient's timezone (09:00Z means 09:00 wherever they are). Times that fall
+ * in quiet hours are pushed to the end of the quiet window.
+ * @returns The send instant, or null to send as soon as possible
+ */
+export function computeRecipientSendTime(options: {
+  scheduledAt: Date | null;
+  localTimeDelivery: boolean;
+  timezone: string;
+  settings: BroadcastDeliverySettings;
+  now?: Date;
+}): Date | null {
+  const { scheduledAt, localTimeDelivery, timezone, settings } = options;
+  const now = options.now ?? new Date();
+
+  let sendAt: Date | null = null;
+  if (localTimeDelivery && scheduledAt) {
+    sendAt = fromWallTime(
+      {
+        year: scheduledAt.getUTCFullYear(),
+        month: scheduledAt.getUTCMonth() + 1,
+        day: scheduledAt.getUTCDate(),
+        hour: scheduledAt.getUTCHours(),
+        minute: scheduledAt.getUTCMinutes(),
+      },
+      timezone
+    );
+  }
+
+  const quiet = settings.quietHours;
+  if (!quiet) return sendAt;
+
+  const candidate = sendAt && sendAt > now ? sendAt : now;
+  const wall = toWallTime(candidate, timezone);
+  const minutes = wall.hour * 60 + wall.minute;
+  const inQuietHours = quiet.start < quiet.end
+    ? minutes >= quiet.start && minutes < quiet.end
+    : minutes >= quiet.start || minutes < quiet.end;
+
+  if (!inQuietHours) return sendAt;
+
+  // The window ends later today unless it wraps midnight and we are before midnight
+  const endsTomorrow = minutes >= quiet.end;
+  const endDay = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + (endsTomorrow ? 1 : 0)));
+
+  return fromWallTime(
+    {
+      year: endDay.getUTCFullYear(),
+      month: endDay.getUTCMonth() + 1,
+      day: endDay.getUTCDate(),
+      hour: Math.floor(quiet.end / 60),
+      minute: quiet.end % 60,
+    },
+    timezone
+  );
+}
+
+/**
+ * Timezones from each device's most recent conversation device context
+ */
+export async function loadDeviceTimezones(appId: string, deviceIds: string[]): Promise<Map<string, string>> {
+  const timezones = new Map<string, string>();
+  if (deviceIds.length === 0) return timezones;
+
+  const conversations = await prisma.conversation.findMany({
+    where: { appId, deviceId: { in: deviceIds } },
+    orderBy: { updatedAt: 'desc' },
+    select: { deviceId: true, metadata: true },
+  });
+
+  for (const conversation of conversations) {
+    if (timezones.has(conversation.deviceId)) continue;
+    const metadata = (conversation.metadata ?? {}) as Record<string, any>;
+    const timezone = metadata.device_context?.timezone;
+    if (isValidTimeZone(timezone)) {
+      timezones.set(conversation.deviceId, timezone);
+    }
+  }
+
+  return timezones;
+}
+
+export const BROADCAST_SEGMENT_PRESETS = ['platform_ios', 'platform_android', 'active_30d'] as const;
+
+// Top-level variables a broadcast body template can use, see broadcastSender
+export const BROADCAST_TEMPLATE_VARIABLES = ['userId', 'user'] as const;
+
+/**
+ * Whether a broadcast segmentQuery is a full query DSL expression rather than a preset
+ */
+export function isDslSegmentQuery(value: unknown): value is SegmentQuery {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'operator' in value &&
+    Array.isArray((value as { conditions?: unknown }).conditions)
+  );
+}
+
+type BroadcastAudienceInput = {
   appId: string;
   targetType: string;
   segmentQuery: unknown | null;
+  segmentId?: string | null;
   userIds: string[];
-}): Promise<BroadcastTarget[]> {
-  const targetType = broadcast.targetType.toUpperCase();
+};
 
-  if (targetType === 'SPECIFIC_USERS') {
-    if (broadcast.userIds.length === 0) return [];
+type AudienceRow = {
+  device_id: string;
+  user_id: string | null;
+  platform: string | null;
+  device_context: Record<string, any> | null;
+};
 
-    const devices = await prisma.device.findMany({
-      where: {
-        appId: broadcast.appId,
-        userId: { in: broadcast.userIds },
-      },
-      select: {
-        deviceId: true,
-        userId: true,
-        platform: true,
-      },
-    });
+/**
+ * SQL selecting one row per device a broadcast targets, shared by
+ * resolveBroadcastRecipients and countBroadcastAudience so they cannot
+ * disagree. Device-based targets carry the device platform; active_30d
+ * carries the device context of the device's latest conversation.
+ * @returns null when nothing can match (no users, deleted segment, unknown preset)
+ */
+async function buildBroadcastAudienceSQL(broadcast: BroadcastAudienceInput): Promise<Prisma.Sql | null> {
+  const targetType = broadcast.targetType.toUpperCase();
+  const devices = (where: Prisma.Sql) => Prisma.sql`
+    SELECT device_id, user_id, platform, NULL::jsonb AS device_context FROM devices
+    WHERE app_id = ${broadcast.appId} AND ${where}`;
 
-    return devices.map((device) => ({
-      deviceId: device.deviceId,
-      userId: device.userId,
-      deviceContext: {
-        platform: device.platform as 'ios' | 'android',
-      },
-    }));
+  if (targetType === 'SPECIFIC_USERS') {
+    if (broadcast.userIds.length === 0) return null;
+    return devices(Prisma.sql`user_id IN (${Prisma.join(broadcast.userIds)})`);
   }
 
   if (targetType === 'SEGMENT') {
+    if (broadcast.segmentId) {
+      const members = await buildSegmentMembersSQL(broadcast.appId, broadcast.segmentId);
+      return members && devices(Prisma.sql`user_id IN (SELECT user_id FROM (${members}) AS segment_users)`);
+    }
+
+    if (isDslSegmentQuery(broadcast.segmentQuery)) {
+      const segmentUsers = buildSegmentSQL(broadcast.appId, broadcast.segmentQuery);
+      return devices(Prisma.sql`user_id IN (SELECT user_id FROM (${segmentUsers}) AS segment_users)`);
+    }
+
     const segment = broadcast.segmentQuery as { preset?: string } | null;
 
     if (segment?.preset === 'platform_ios' || segment?.preset === 'platform_android') {
-      const platform = segment.preset === 'platform_ios' ? 'ios' : 'android';
-      const devices = await prisma.device.findMany({
-        where: {
-          appId: broadcast.appId,
-          platform,
-        },
-        select: {
-          deviceId: true,
-          userId: true,
-          platform: true,
-        },
-      });
-
-      return devices.map((device) => ({
-        deviceId: device.deviceId,
-        userId: device.userId,
-        deviceContext: {
-          platform: device.platform as 'ios' | 'android',
-        },
-      }));
+      return devices(Prisma.sql`platform = ${segment.preset === 'platform_ios' ? 'ios' : 'android'}`);
     }
 
     if (segment?.preset === 'active_30d') {
       const since = new Date();
       since.setDate(since.getDate() - 30);
 
-      const conversations = await prisma.conversation.findMany({
-        where: {
-          appId: broadcast.appId,
-          updatedAt: { gte: since },
-        },
-        distinct: ['deviceId'],
-        select: {
-          deviceId: true,
-          userId: true,
-          metadata: true,
-        },
-      });
-
-      return conversations.map((conversation) => {
-        const metadata = (conversation.metadata ?? {}) as Record<string, any>;
-        const deviceContext = (metadata.device_context ?? {}) as Record<string, any>;
-
-        return {
-          deviceId: conversation.deviceId,
-          userId: conversation.userId ?? null,
-          deviceContext: deviceContext.platform
-            ? {
-                platform: deviceContext.platform,
-                os_version: deviceContext.os_version,
-                app_version: deviceContext.app_version,
-                device_model: deviceContext.device_model,
-                locale: deviceContext.locale,
-                timezone: deviceContext.timezone,
-                sdk_version: deviceContext.sdk_version,
-              }
-            : undefined,
-        };
-      });
+      return Prisma.sql`
+        SELECT DISTINCT ON (device_id)
+          device_id, user_id, NULL AS platform, metadata->'device_context' AS device_context
+        FROM conversations
+        WHERE app_id = ${broadcast.appId} AND updated_at >= ${since}
+        ORDER BY device_id, updated_at DESC`;
     }
 
-    return [];
+    return null;
   }
 
   // ALL_USERS default
-  const devices = await prisma.device.findMany({
-    where: { appId: broadcast.appId },
-    select: {
-      deviceId: true,
-      userId: true,
-      platform: true,
-    },
-  });
+  return devices(Prisma.sql`TRUE`);
+}
+
+function toBroadcastTarget(row: AudienceRow): BroadcastTarget {
+  const target: BroadcastTarget = { deviceId: row.device_id, userId: row.user_id ?? null };
+
+  if (row.platform) {
+    return { ...target, deviceContext: { platform: row.platform as 'ios' | 'android' } };
+  }
+
+  const context = row.device_context;
+  if (!context?.platform) return target;
 
-  return devices.map((device) => ({
-    deviceId: device.deviceId,
-    userId: device.userId,
+  return {
+    ...target,
     deviceContext: {
-      platform: device.platform as 'ios' | 'android',
+      platform: context.platform,
+      os_version: context.os_version,
+      app_version: context.app_version,
+      device_model: context.device_model,
+      locale: context.locale,
+      timezone: context.timezone,
+      sdk_version: context.sdk_version,
     },
-  }));
+  };
+}
+
+export async function resolveBroadcastRecipients(broadcast: BroadcastAudienceInput): Promise<BroadcastTarget[]> {
+  const audience = await buildBroadcastAudienceSQL(broadcast);
+  if (!audience) return [];
+
+  const rows = await prisma.$queryRaw<AudienceRow[]>(audience);
+  return rows.map(toBroadcastTarget);
+}
+
+/**
+ * Number of distinct devices a broadcast would reach if sent now, counted
+ * in SQL over the same audience query, so large audiences are not loaded
+ */
+export async function countBroadcastAudience(broadcast: BroadcastAudienceInput): Promise<number> {
+  const audience = await buildBroadcastAudienceSQL(broadcast);
+  if (!audience) return 0;
+
+  const result = await prisma.$queryRaw<Array<{ count: bigint }>>(
+    Prisma.sql`SELECT COUNT(*) AS count FROM (${audience}) AS audience`
+  );
+  return Number(result[0]?.count ?? 0);
 }
@@ -0,0 +1,175 @@
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+export type WinnerMetric = 'opens' | 'clicks';
+
+export interface VariantInput {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface AbTestConfig {
+  testPercent: number;
+  windowMinutes: number;
+  winnerMetric: WinnerMetric;
+}
+
+export interface VariantStats {
+  variantId: string;
+  sent: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 5;
+const VARIANT_KEYS = ['A', 'B', 'C', 'D', 'E'];
+
+const DEFAULT_AB_TEST: AbTestConfig = {
+  testPercent: 20,
+  windowMinutes: 4 * 60,
+  winnerMetric: 'opens',
+};
+
+function invalidVariants(message: string): ApiError {
+  return new ApiError(400, 'Invalid variants', 'INVALID_VARIANTS', message);
+}
+
+/**
+ * Validate the variants of a broadcast request
+ * @returns Variants keyed A, B, C... in request order
+ */
+export function parseVariantsInput(variants: unknown): Array<VariantInput & { key: string }> {
+  if (!Array.isArray(variants) || variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS) {
+    throw invalidVariants(`variants must be an array of ${MIN_VARIANTS} to ${MAX_VARIANTS} items`);
+  }
+
+  return variants.map((variant, index) => {
+    const { title, body, data } = (variant ?? {}) as Record<string, unknown>;
+    if (typeof title !== 'string' || title.length === 0 || typeof body !== 'string' || body.length === 0) {
+      throw invalidVariants(`variants[${index}] requires a title and body`);
+    }
+    if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+      throw invalidVariants(`variants[${index}].data must be an object`);
+    }
+    return { key: VARIANT_KEYS[index], title, body, data: data as Record<string, unknown> | undefined };
+  });
+}
+
+/**
+ * Validate the abTest settings of a broadcast request, applying defaults
+ */
+export function parseAbTestConfig(abTest: unknown): AbTestConfig {
+  if (abTest !== undefined && abTest !== null && (typeof abTest !== 'object' || Array.isArray(abTest))) {
+    throw invalidVariants('abTest must be an object');
+  }
+
+  const raw = (abTest ?? {}) as Record<string, unknown>;
+  const config: AbTestConfig = {
+    testPercent: raw.testPercent === undefined ? DEFAULT_AB_TEST.testPercent : Number(raw.testPercent),
+    windowMinutes: raw.windowMinutes === undefined ? DEFAULT_AB_TEST.windowMinutes : Number(raw.windowMinutes),
+    winnerMetric: (raw.winnerMetric ?? DEFAULT_AB_TEST.winnerMetric) as WinnerMetric,
+  };
+
+  if (!Number.isInteger(config.testPercent) || config.testPercent < 1 || config.testPercent > 100) {
+    throw invalidVariants('abTest.testPercent must be an integer from 1 to 100');
+  }
+  if (!Number.isInteger(config.windowMinutes) || config.windowMinutes < 1 || config.windowMinutes > 7 * 24 * 60) {
+    throw invalidVariants('abTest.windowMinutes must be an integer from 1 to 10080');
+  }
+  if (!['opens', 'clicks'].includes(config.winnerMetric)) {
+    throw invalidVariants('abTest.winnerMetric must be "opens" or "clicks"');
+  }
+
+  return config;
+}
+
+/**
+ * Randomly pick testPercent of the audience and spread it evenly across the
+ * variants. Everyone else maps to null and waits for the winner.
+ */
+export function splitAudience(
+  deviceIds: string[],
+  variantIds: string[],
+  testPercent: number,
+  random: () => number = Math.random
+): Map<string, string | null> {
+  const shuffled = [...deviceIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const testSize = Math.ceil((shuffled.length * testPercent) / 100);
+  const assignment = new Map<string, string | null>();
+
+  shuffled.forEach((deviceId, index) => {
+    assignment.set(deviceId, index < testSize ? variantIds[index % variantIds.length] : null);
+  });
+
+  return assignment;
+}
+
+/**
+ * Sent/opened/clicked counts per variant, from the recipients assigned to each
+ */
+export async function getVariantStats(broadcastId: string): Promise<VariantStats[]> {
+  const rows = await prisma.broadcastRecipient.groupBy({
+    by: ['variantId'],
+    where: { broadcastId, variantId: { not: null } },
+    _count: { sentAt: true, openedAt: true, clickedAt: true },
+  });
+
+  return rows.map((row) => {
+    const sent = row._count.sentAt;
+    const opened = row._count.openedAt;
+    const clicked = row._count.clickedAt;
+    return {
+      variantId: row.variantId!,
+      sent,
+      opened,
+      clicked,
+      openRate: sent > 0 ? opened / sent : 0,
+      clickRate: sent > 0 ? clicked / sent : 0,
+    };
+  });
+}
+
+/**
+ * Pick the variant with the best open or click rate among the test group,
+ * hand the held-back remainder to it, then record it as the winner. Ties go
+ * to the earliest variant.
+ * @param variantIds - The broadcast's variants, in key order
+ */
+export async function selectWinningVariant(
+  broadcast: { id: string; abWinnerMetric: string | null },
+  variantIds: string[]
+): Promise<string> {
+  const stats = new Map((await getVariantStats(broadcast.id)).map((entry) => [entry.variantId, entry]));
+  const metric: keyof VariantStats = broadcast.abWinnerMetric === 'clicks' ? 'clickRate' : 'openRate';
+
+  let winnerId = variantIds[0];
+  for (const variantId of variantIds) {
+    if ((stats.get(variantId)?.[metric] ?? 0) > (stats.get(winnerId)?.[metric] ?? 0)) {
+      winnerId = variantId;
+    }
+  }
+
+  // Assign first so a crash before recording the winner is simply re-run
+  await prisma.broadcastRecipient.updateMany({
+    where: { broadcastId: broadcast.id, variantId: null, status: 'PENDING' },
+    data: { variantId: winnerId },
+  });
+
+  await prisma.broadcast.updateMany({
+    where: { id: broadcast.id, winningVariantId: null },
+    data: { winningVariantId: winnerId },
+  });
+
+  console.log(`[Broadcasts] Variant ${winnerId} won A/B test for broadcast ${broadcast.id}`);
+
+  return winnerId;
+}
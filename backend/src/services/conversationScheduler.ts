@@ -0,0 +1,35 @@
+import { wakeSnoozedConversations } from './conversationService.js';
+
+let schedulerHandle: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function runSchedulerTick(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const woken = await wakeSnoozedConversations();
+    if (woken > 0) {
+      console.log(`[Conversation Scheduler] Reopened ${woken} snoozed conversation(s)`);
+    }
+  } catch (error) {
+    console.error('[Conversation Scheduler] Tick failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startConversationScheduler(intervalMs: number = 60000): void {
+  if (schedulerHandle) return;
+  schedulerHandle = setInterval(runSchedulerTick, intervalMs);
+  void runSchedulerTick();
+  console.log(`[Conversation Scheduler] Started (interval ${intervalMs}ms)`);
+}
+
+export function stopConversationScheduler(): void {
+  if (schedulerHandle) {
+    clearInterval(schedulerHandle);
+    schedulerHandle = null;
+    console.log('[Conversation Scheduler] Stopped');
+  }
+}
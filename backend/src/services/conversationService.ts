@@ -1,8 +1,10 @@
 import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
 import { generateConversationId, generateVisitorId } from '../utils/ids.js';
 import { subscribeDeviceToConversation } from './websocketService.js';
 import type { CreateConversationInput } from '../schemas/conversation.js';
 import { dispatchWebhook } from './webhookDispatchService.js';
+import { fireWorkflowTrigger } from './workflowTriggerService.js';
 
 export interface ConversationResponse {
   id: string;
@@ -13,6 +15,18 @@ export interface ConversationResponse {
   metadata: Record<string, unknown>;
 }
 
+export type ConversationStatus = 'open' | 'resolved' | 'snoozed';
+
+export type ReopenReason = 'agent' | 'user_reply' | 'snooze_expired';
+
+export interface ConversationStatusResponse {
+  id: string;
+  status: string;
+  snoozed_until: string | null;
+  resolved_at: string | null;
+  updated_at: string;
+}
+
 export async function getOrCreateConversation(
   appId: string,
   deviceId: string,
@@ -64,10 +78,34 @@ export async function getOrCreateConversation(
     status: formatted.status,
     created_at: formatted.created_at,
   });
+  if (userId !== null) {
+    void fireFirstConversationTrigger(appId, userId, deviceId, formatted.id);
+  }
   await subscribeDeviceToConversation(appId, deviceId, formatted.id);
   return formatted;
 }
 
+// Only the user's first conversation in the app fires conversation_created
+async function fireFirstConversationTrigger(
+  appId: string,
+  userId: string,
+  deviceId: string,
+  conversationId: string
+): Promise<void> {
+  try {
+    const count = await prisma.conversation.count({ where: { appId, userId } });
+    if (count !== 1) return;
+
+    await fireWorkflowTrigger(appId, 'conversation_created', {
+      userId,
+      deviceId,
+      properties: { conversation_id: conversationId },
+    });
+  } catch (error) {
+    console.error('[Conversation] Failed to fire conversation_created trigger:', error);
+  }
+}
+
 export async function getConversationForDevice(
   appId: string,
   deviceId: string,
@@ -82,6 +120,150 @@ export async function getConversationForDevice(
   });
 }
 
+export async function resolveConversation(
+  appId: string,
+  conversationId: string,
+  options: { resolvedBy?: string | null } = {}
+): Promise<ConversationStatusResponse> {
+  const conversation = await findConversationForApp(appId, conversationId);
+  const resolvedAt = new Date();
+
+  // Conditional update keeps the webhook to a single delivery under concurrent requests
+  const result = await prisma.conversation.updateMany({
+    where: { id: conversation.id, status: { not: 'resolved' } },
+    data: { status: 'resolved', resolvedAt, snoozedUntil: null },
+  });
+
+  const updated = await findConversationForApp(appId, conversationId);
+
+  if (result.count > 0) {
+    void dispatchWebhook(appId, 'conversation.resolved', {
+      conversation_id: conversation.id,
+      previous_status: conversation.status,
+      user_id: conversation.userId ?? null,
+      device_id: conversation.deviceId,
+      assignee_id: conversation.assigneeId ?? null,
+      resolved_by: options.resolvedBy ?? null,
+      resolved_at: resolvedAt.toISOString(),
+    });
+
+    if (conversation.userId) {
+      void fireWorkflowTrigger(appId, 'conversation_resolved', {
+        userId: conversation.userId,
+        deviceId: conversation.deviceId,
+        properties: { conversation_id: conversation.id },
+      });
+    }
+  }
+
+  return formatConversationStatus(updated);
+}
+
+export async function reopenConversation(
+  appId: string,
+  conversationId: string,
+  options: { reason: ReopenReason; reopenedBy?: string | null }
+): Promise<ConversationStatusResponse> {
+  const conversation = await findConversationForApp(appId, conversationId);
+
+  const result = await prisma.conversation.updateMany({
+    where: { id: conversation.id, status: { not: 'open' } },
+    data: { status: 'open', resolvedAt: null, snoozedUntil: null },
+  });
+
+  const updated = await findConversationForApp(appId, conversationId);
+
+  if (result.count > 0) {
+    void dispatchWebhook(appId, 'conversation.reopened', {
+      conversation_id: conversation.id,
+      previous_status: conversation.status,
+      reason: options.reason,
+      user_id: conversation.userId ?? null,
+      device_id: conversation.deviceId,
+      assignee_id: conversation.assigneeId ?? null,
+      reopened_by: options.reopenedBy ?? null,
+      reopened_at: updated.updatedAt.toISOString(),
+    });
+  }
+
+  return formatConversationStatus(updated);
+}
+
+export async function snoozeConversation(
+  appId: string,
+  conversationId: string,
+  until: Date
+): Promise<ConversationStatusResponse> {
+  if (Number.isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+    throw new ApiError(400, 'Invalid snooze time', 'INVALID_SNOOZE_UNTIL', 'Snooze time must be a future timestamp');
+  }
+
+  const conversation = await findConversationForApp(appId, conversationId);
+
+  const updated = await prisma.conversation.update({
+    where: { id: conversation.id },
+    data: { status: 'snoozed', snoozedUntil: until, resolvedAt: null },
+  });
+
+  return formatConversationStatus(updated);
+}
+
+/**
+ * Reopen snoozed conversations whose snooze time has passed
+ * Returns the number of conversations woken up
+ */
+export async function wakeSnoozedConversations(now: Date = new Date(), batchSize = 100): Promise<number> {
+  const due = await prisma.conversation.findMany({
+    where: {
+      status: 'snoozed',
+      snoozedUntil: { lte: now },
+    },
+    orderBy: { snoozedUntil: 'asc' },
+    take: batchSize,
+    select: { id: true, appId: true },
+  });
+
+  let woken = 0;
+  for (const conversation of due) {
+    try {
+      await reopenConversation(conversation.appId, conversation.id, { reason: 'snooze_expired' });
+      woken++;
+    } catch (error) {
+      console.error('[Conversation] Failed to wake snoozed conversation:', conversation.id, error);
+    }
+  }
+
+  return woken;
+}
+
+async function findConversationForApp(appId: string, conversationId: string) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, appId },
+  });
+
+  if (!conversation) {
+    throw new ApiError(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  return conversation;
+}
+
+function formatConversationStatus(conv: {
+  id: string;
+  status: string;
+  snoozedUntil: Date | null;
+  resolvedAt: Date | null;
+  updatedAt: Date;
+}): ConversationStatusResponse {
+  return {
+    id: conv.id,
+    status: conv.status,
+    snoozed_until: conv.snoozedUntil?.toISOString() ?? null,
+    resolved_at: conv.resolvedAt?.toISOString() ?? null,
+    updated_at: conv.updatedAt.toISOString(),
+  };
+}
+
 function formatConversation(conv: {
   id: string;
   visitorId: string;
@@ -0,0 +1,117 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { parseDuration } from './workflowUtils.js';
+
+export interface FrequencyCapRule {
+  maxMessages: number;
+  periodMs: number;
+  // As configured, e.g. "1d", for reporting why a send was skipped
+  period: string;
+}
+
+export type FrequencyCapRecipient = {
+  userId: string | null;
+  deviceId: string;
+};
+
+/**
+ * An automated message counted against the app's frequency caps. Sends that
+ * share a sendKey count once per recipient, so a broadcast reaching several
+ * of a user's devices uses one slot.
+ */
+export type AutomatedSend = {
+  source: 'broadcast' | 'workflow';
+  // e.g. broadcast:<broadcastId>
+  sendKey: string;
+  // Preloaded rules, to avoid reading settings per recipient
+  capRules?: FrequencyCapRule[];
+};
+
+export const FREQUENCY_CAP_REASON = 'frequency_cap';
+
+/**
+ * Thrown by createMessage when an automated message would exceed a cap
+ */
+export class FrequencyCapReachedError extends ApiError {
+  constructor(public rule: FrequencyCapRule) {
+    super(
+      429,
+      'Frequency cap reached',
+      'FREQUENCY_CAP_REACHED',
+      `Frequency cap of ${rule.maxMessages} per ${rule.period} reached`
+    );
+    this.name = 'FrequencyCapReachedError';
+  }
+}
+
+/**
+ * Read cap rules from App.settings.frequency_caps, e.g.
+ * `[{ "max_messages": 3, "period": "1d" }]`. Invalid rules are ignored.
+ */
+export function parseFrequencyCapSettings(settings: unknown): FrequencyCapRule[] {
+  const root = settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+  if (!Array.isArray(root.frequency_caps)) return [];
+
+  return root.frequency_caps.flatMap((raw) => {
+    const rule = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+    const maxMessages = Number(rule.max_messages);
+    const period = typeof rule.period === 'string' ? rule.period : '';
+    const periodMs = parseDuration(period);
+
+    if (!Number.isInteger(maxMessages) || maxMessages < 0 || !periodMs) return [];
+    return [{ maxMessages, periodMs, period }];
+  });
+}
+
+export async function loadFrequencyCapRules(appId: string): Promise<FrequencyCapRule[]> {
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: { settings: true },
+  });
+
+  return parseFrequencyCapSettings(app?.settings);
+}
+
+/**
+ * Take a frequency cap slot for an automated send, inside the transaction
+ * that creates its message. Only broadcast and workflow sends are counted;
+ * messages from people never use the budget. A per-recipient advisory lock
+ * makes concurrent sends check and record one at a time.
+ * @throws FrequencyCapReachedError if a rule has been reached
+ */
+export async function reserveFrequencyCapSlot(
+  tx: Prisma.TransactionClient,
+  appId: string,
+  recipient: FrequencyCapRecipient,
+  send: AutomatedSend,
+  rules: FrequencyCapRule[],
+  now: Date = new Date()
+): Promise<void> {
+  // Anonymous recipients are counted per device
+  const recipientKey = recipient.userId ? `user:${recipient.userId}` : `device:${recipient.deviceId}`;
+
+  await tx.$executeRaw(Prisma.sql`SELECT pg_advisory_xact_lock(hashtext(${appId}), hashtext(${recipientKey}))`);
+
+  // Another of the user's devices, or a resumed send, already took the slot
+  const reserved = await tx.frequencyCapSend.findUnique({
+    where: { appId_recipientKey_sendKey: { appId, recipientKey, sendKey: send.sendKey } },
+    select: { id: true },
+  });
+  if (reserved) return;
+
+  for (const rule of rules) {
+    const sent = await tx.frequencyCapSend.count({
+      where: { appId, recipientKey, createdAt: { gte: new Date(now.getTime() - rule.periodMs) } },
+    });
+
+    if (sent >= rule.maxMessages) {
+      throw new FrequencyCapReachedError(rule);
+    }
+  }
+
+  // Recorded without rules too, so a cap added later sees earlier sends
+  await tx.frequencyCapSend.create({
+    data: { appId, recipientKey, sendKey: send.sendKey, source: send.source, createdAt: now },
+  });
+}
@@ -4,9 +4,19 @@ import { ApiError } from '../middleware/errorHandler.js';
 import { config } from '../config/index.js';
 import type { CreateMessageInput } from '../schemas/message.js';
 import { broadcastToApp, broadcastToConversation } from './socketService.js';
-import { getConversationForDevice } from './conversationService.js';
+import { getConversationForDevice, reopenConversation } from './conversationService.js';
 import { sendPushNotification } from './pushNotificationService.js';
 import { dispatchWebhook } from './webhookDispatchService.js';
+import { autoAssignConversation } from './assignmentService.js';
+import { fireWorkflowTrigger } from './workflowTriggerService.js';
+import { loadFrequencyCapRules, reserveFrequencyCapSlot, type AutomatedSend } from './frequencyCapService.js';
+import {
+  formatAttachment,
+  normalizeAttachmentIds,
+  resolveMessageAttachments,
+  type AttachmentRecord,
+  type AttachmentResponse,
+} from './attachmentService.js';
 
 export interface MessageResponse {
   id: string;
@@ -16,15 +26,38 @@ export interface MessageResponse {
   sender: 'user' | 'agent' | 'system';
   created_at: string;
   status: 'QUEUED' | 'SENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  attachments: AttachmentResponse[];
 }
 
+/**
+ * Create a message in a conversation. Automated messages pass `automation`
+ * so they are held to the app's frequency caps.
+ * @throws FrequencyCapReachedError if an automated message would exceed a cap
+ */
 export async function createMessage(
   conversationId: string,
   input: CreateMessageInput,
   appId: string,
   deviceId: string,
-  sender: 'user' | 'agent' | 'system' = 'user'
+  sender: 'user' | 'agent' | 'system' = 'user',
+  automation?: AutomatedSend
 ): Promise<MessageResponse> {
+  const { message } = await saveMessage(conversationId, input, appId, deviceId, sender, automation);
+  return message;
+}
+
+/**
+ * createMessage for callers that need to know whether the message is new
+ * @returns The message, and false for `created` if its local_id already existed
+ */
+export async function saveMessage(
+  conversationId: string,
+  input: CreateMessageInput,
+  appId: string,
+  deviceId: string,
+  sender: 'user' | 'agent' | 'system' = 'user',
+  automation?: AutomatedSend
+): Promise<{ message: MessageResponse; created: boolean }> {
   const conversation = await getConversationForDevice(appId, deviceId, conversationId);
 
   if (!conversation) {
@@ -40,22 +73,42 @@ export async function createMessage(
     );
   }
 
+  const attachmentIds = normalizeAttachmentIds(input.attachment_ids ?? []);
+
   const messageId = generateMessageId();
+  const upsert = {
+    where: { localId: input.local_id },
+    update: {},
+    create: {
+      id: messageId,
+      localId: input.local_id,
+      conversationId,
+      appId, // Required for RLS
+      body: input.body,
+      sender,
+      status: 'SENT' as const,
+    },
+    include: { attachments: true },
+  };
+
+  const capRules = automation ? automation.capRules ?? (await loadFrequencyCapRules(appId)) : [];
 
   try {
-    const message = await prisma.message.upsert({
-      where: { localId: input.local_id },
-      update: {},
-      create: {
-        id: messageId,
-        localId: input.local_id,
-        conversationId,
-        appId, // Required for RLS
-        body: input.body,
-        sender,
-        status: 'SENT',
-      },
-    });
+    const message = attachmentIds.length === 0 && !automation
+      ? await prisma.message.upsert(upsert)
+      : await prisma.$transaction(async (tx) => {
+        // Rolled back with the message if it cannot be created
+        if (automation) {
+          await reserveFrequencyCapSlot(tx, appId, conversation, automation, capRules);
+        }
+
+        const saved = await tx.message.upsert(upsert);
+        // A retried local_id keeps the attachments it was first sent with
+        if (saved.id !== messageId || attachmentIds.length === 0) return saved;
+
+        await resolveMessageAttachments(tx, conversationId, messageId, attachmentIds);
+        return tx.message.findUniqueOrThrow({ where: { id: messageId }, include: { attachments: true } });
+      });
 
     const formattedMessage = formatMessage(message);
 
@@ -66,12 +119,30 @@ export async function createMessage(
 
       if (sender !== 'user') {
         void sendPushNotification(conversation.deviceId, {
-          body: formattedMessage.body,
+          body: formattedMessage.body || 'Sent an attachment',
           conversationId: conversationId,
           messageId: formattedMessage.id,
         });
       }
 
+      if (sender === 'user' && conversation.status !== 'open') {
+        reopenConversation(appId, conversationId, { reason: 'user_reply' }).catch((error) => {
+          console.error('[Message] Failed to reopen conversation:', conversationId, error);
+        });
+      }
+
+      if (sender === 'user' && !conversation.assigneeId) {
+        void autoAssignConversation(appId, conversationId);
+      }
+
+      if (sender === 'user' && conversation.userId) {
+        void fireWorkflowTrigger(appId, 'message_received', {
+          userId: conversation.userId,
+          deviceId: conversation.deviceId,
+          properties: { conversation_id: conversationId, message_id: formattedMessage.id, body: formattedMessage.body },
+        });
+      }
+
       void dispatchWebhook(appId, 'message.created', {
         message_id: formattedMessage.id,
         conversation_id: conversationId,
@@ -83,14 +154,15 @@ export async function createMessage(
       });
     }
 
-    return formattedMessage;
+    return { message: formattedMessage, created: isNewMessage };
   } catch (error) {
     const existingMessage = await prisma.message.findUnique({
       where: { localId: input.local_id },
+      include: { attachments: true },
     });
 
     if (existingMessage) {
-      return formatMessage(existingMessage);
+      return { message: formatMessage(existingMessage), created: false };
     }
 
     throw error;
@@ -122,6 +194,7 @@ export async function getMessages(
     where: whereClause,
     orderBy: { createdAt: 'asc' },
     take: limit + 1,
+    include: { attachments: true },
   });
 
   const hasMore = messages.length > limit;
@@ -141,6 +214,7 @@ function formatMessage(msg: {
   sender: string;
   createdAt: Date;
   status: string;
+  attachments?: AttachmentRecord[];
 }): MessageResponse {
   return {
     id: msg.id,
@@ -150,5 +224,6 @@ function formatMessage(msg: {
     sender: msg.sender as MessageResponse['sender'],
     created_at: msg.createdAt.toISOString(),
     status: msg.status as MessageResponse['status'],
+    attachments: (msg.attachments ?? []).map(formatAttachment),
   };
 }
@@ -0,0 +1,35 @@
+import { refreshStaleSegmentCounts } from './segmentService.js';
+
+let schedulerHandle: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function runSchedulerTick(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const refreshed = await refreshStaleSegmentCounts();
+    if (refreshed > 0) {
+      console.log(`[Segment Scheduler] Refreshed ${refreshed} segment count(s)`);
+    }
+  } catch (error) {
+    console.error('[Segment Scheduler] Tick failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startSegmentScheduler(intervalMs: number = 60000): void {
+  if (schedulerHandle) return;
+  schedulerHandle = setInterval(runSchedulerTick, intervalMs);
+  void runSchedulerTick();
+  console.log(`[Segment Scheduler] Started (interval ${intervalMs}ms)`);
+}
+
+export function stopSegmentScheduler(): void {
+  if (schedulerHandle) {
+    clearInterval(schedulerHandle);
+    schedulerHandle = null;
+    console.log('[Segment Scheduler] Stopped');
+  }
+}
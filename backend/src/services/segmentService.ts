@@ -0,0 +1,165 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { config } from '../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { SegmentQuery } from '../lib/queryDSL.js';
+import { buildSegmentSQL, userMatchesSegment } from './segmentationService.js';
+
+type SegmentRecord = {
+  id: string;
+  appId: string;
+  query: unknown;
+};
+
+/**
+ * Load a saved segment referenced from a broadcast or workflow trigger.
+ * Throws a 400 so callers can surface a bad reference as a validation error.
+ */
+export async function requireSegmentReference(appId: string, segmentId: unknown) {
+  if (typeof segmentId !== 'string' || segmentId.length === 0) {
+    throw new ApiError(400, 'Invalid segment', 'INVALID_SEGMENT', 'segmentId must be a string');
+  }
+
+  const segment = await prisma.segment.findFirst({
+    where: { id: segmentId, appId },
+    select: { id: true },
+  });
+
+  if (!segment) {
+    throw new ApiError(400, 'Invalid segment', 'INVALID_SEGMENT', `Segment ${segmentId} does not exist`);
+  }
+
+  return segment;
+}
+
+/**
+ * SQL selecting the user_id of each member of a segment: the users matched by
+ * its query, with manual includes and excludes layered over them
+ */
+function buildMembersSQL(segment: SegmentRecord): Prisma.Sql {
+  const matched = buildSegmentSQL(segment.appId, segment.query as SegmentQuery);
+
+  return Prisma.sql`SELECT user_id FROM (${matched}) AS matched
+  WHERE user_id NOT IN (
+    SELECT user_id FROM segment_members WHERE segment_id = ${segment.id} AND excluded
+  )
+  UNION
+  SELECT user_id FROM segment_members WHERE segment_id = ${segment.id} AND NOT excluded`;
+}
+
+/**
+ * Recompute and cache a segment's member count
+ */
+export async function refreshSegmentCount(segment: SegmentRecord): Promise<number> {
+  const result = await prisma.$queryRaw<Array<{ count: bigint }>>(
+    Prisma.sql`SELECT COUNT(*) AS count FROM (${buildMembersSQL(segment)}) AS members`
+  );
+  const memberCount = Number(result[0]?.count ?? 0);
+
+  await prisma.segment.update({
+    where: { id: segment.id },
+    data: { memberCount, countRefreshedAt: new Date() },
+  });
+
+  return memberCount;
+}
+
+/**
+ * Refresh the cached counts of segments that were never counted or whose
+ * count is older than countRefreshIntervalMs, oldest first
+ */
+export async function refreshStaleSegmentCounts(
+  now: Date = new Date(),
+  batchSize: number = config.segments.refreshBatchSize
+): Promise<number> {
+  const staleBefore = new Date(now.getTime() - config.segments.countRefreshIntervalMs);
+
+  const stale = await prisma.segment.findMany({
+    where: {
+      OR: [
+        { countRefreshedAt: null },
+        { countRefreshedAt: { lt: staleBefore } },
+      ],
+    },
+    orderBy: { countRefreshedAt: { sort: 'asc', nulls: 'first' } },
+    take: batchSize,
+    select: { id: true, appId: true, query: true },
+  });
+
+  let refreshed = 0;
+
+  for (const segment of stale) {
+    try {
+      await refreshSegmentCount(segment);
+      refreshed++;
+    } catch (error) {
+      console.error('[Segments] Failed to refresh count:', segment.id, error);
+    }
+  }
+
+  return refreshed;
+}
+
+/**
+ * SQL selecting the user_id of each current member of a saved segment, for
+ * use as a subquery
+ * @returns null if the segment no longer exists
+ */
+export async function buildSegmentMembersSQL(appId: string, segmentId: string): Promise<Prisma.Sql | null> {
+  const segment = await prisma.segment.findFirst({
+    where: { id: segmentId, appId },
+    select: { id: true, appId: true, query: true },
+  });
+
+  return segment ? buildMembersSQL(segment) : null;
+}
+
+/**
+ * Current members of a saved segment. A segment that no longer exists has no members.
+ */
+export async function resolveSegmentUserIds(appId: string, segmentId: string): Promise<string[]> {
+  const members = await buildSegmentMembersSQL(appId, segmentId);
+  if (!members) return [];
+
+  const result = await prisma.$queryRaw<Array<{ user_id: string }>>(members);
+  return result.map((row) => row.user_id);
+}
+
+/**
+ * Check whether a user is currently a member of a saved segment
+ */
+export async function isUserInSegment(appId: string, segmentId: string, userId: string): Promise<boolean> {
+  const segment = await prisma.segment.findFirst({
+    where: { id: segmentId, appId },
+    select: { query: true },
+  });
+
+  if (!segment) return false;
+
+  const override = await prisma.segmentMember.findUnique({
+    where: { segmentId_userId: { segmentId, userId } },
+    select: { excluded: true },
+  });
+
+  if (override) return !override.excluded;
+
+  return userMatchesSegment(appId, segment.query as unknown as SegmentQuery, userId);
+}
+
+/**
+ * Manually add a user to a segment, or remove them, regardless of its query
+ */
+export async function setSegmentMembership(
+  appId: string,
+  segmentId: string,
+  userId: string,
+  isMember: boolean
+): Promise<void> {
+  await requireSegmentReference(appId, segmentId);
+
+  await prisma.segmentMember.upsert({
+    where: { segmentId_userId: { segmentId, userId } },
+    update: { excluded: !isMember },
+    create: { segmentId, userId, excluded: !isMember },
+  });
+}
@@ -1,5 +1,14 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
-import { Condition, SegmentQuery, ComparisonOp } from '../lib/queryDSL.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import {
+  Condition,
+  SegmentQuery,
+  ComparisonOp,
+  isSegmentQuery,
+  parsePropertyPath,
+  validateSegmentQuery,
+} from '../lib/queryDSL.js';
 
 /**
  * Evaluate a segment query and return matching user IDs
@@ -10,10 +19,9 @@ export async function evaluateSegment(
 ): Promise<string[]> {
   const sql = buildSegmentSQL(appId, query);
 
-  console.log('[Segmentation] Executing SQL:', sql);
+  console.log('[Segmentation] Executing SQL:', sql.sql);
 
-  // Execute raw SQL query
-  const result = await prisma.$queryRawUnsafe<Array<{ user_id: string }>>(sql);
+  const result = await prisma.$queryRaw<Array<{ user_id: string }>>(sql);
 
   return result.map((row) => row.user_id);
 }
@@ -25,183 +33,228 @@ export async function countSegmentUsers(
   appId: string,
   query: SegmentQuery
 ): Promise<number> {
-  const userIds = await evaluateSegment(appId, query);
-  return userIds.length;
+  const sql = buildSegmentSQL(appId, query);
+  const result = await prisma.$queryRaw<Array<{ count: bigint }>>(
+    Prisma.sql`SELECT COUNT(*) AS count FROM (${sql}) AS segment_users`
+  );
+  return Number(result[0]?.count ?? 0);
 }
 
 /**
- * Build SQL query from segment DSL
+ * Check whether a single user currently matches a segment
  */
-function buildSegmentSQL(appId: string, query: SegmentQuery): string {
-  // Start with base query selecting distinct users
-  let sql = `SELECT DISTINCT user_id FROM (\n`;
-
-  // Build WHERE clause from conditions
-  const whereClause = buildWhereClause(appId, query);
+export async function userMatchesSegment(
+  appId: string,
+  query: SegmentQuery,
+  userId: string
+): Promise<boolean> {
+  const sql = buildSegmentSQL(appId, query);
+  const result = await prisma.$queryRaw<Array<{ user_id: string }>>(
+    Prisma.sql`SELECT user_id FROM (${sql}) AS segment_users WHERE user_id = ${userId} LIMIT 1`
+  );
+  return result.length > 0;
+}
 
-  // Combine with events table
-  sql += `  SELECT DISTINCT e.user_id\n`;
-  sql += `  FROM events e\n`;
-  sql += `  WHERE e.app_id = '${appId}'\n`;
-  sql += `  AND (${whereClause})\n`;
-  sql += `) AS segment_users`;
+/**
+ * Compile a segment query to a parameterized SQL statement.
+ * Every user-supplied value is bound as a parameter; the only text spliced
+ * into the statement comes from the fixed operator/function/unit tables below.
+ */
+export function buildSegmentSQL(appId: string, query: SegmentQuery): Prisma.Sql {
+  const validation = validateSegmentQuery(query);
+  if (!validation.valid) {
+    throw new ApiError(400, 'Invalid query', 'INVALID_QUERY', validation.errors.join('; '));
+  }
 
-  return sql;
+  return Prisma.sql`SELECT DISTINCT e.user_id
+  FROM events e
+  WHERE e.app_id = ${appId}
+  AND (${buildWhereClause(appId, query)})`;
 }
 
+const COMPARISON_SQL: Partial<Record<ComparisonOp, Prisma.Sql>> = {
+  equals: Prisma.raw('='),
+  not_equals: Prisma.raw('!='),
+  gt: Prisma.raw('>'),
+  gte: Prisma.raw('>='),
+  lt: Prisma.raw('<'),
+  lte: Prisma.raw('<='),
+};
+
+const AGGREGATION_SQL: Record<string, Prisma.Sql> = {
+  count: Prisma.raw('COUNT'),
+  sum: Prisma.raw('SUM'),
+  avg: Prisma.raw('AVG'),
+  min: Prisma.raw('MIN'),
+  max: Prisma.raw('MAX'),
+};
+
+const INTERVAL_SQL: Record<string, Prisma.Sql> = {
+  days: Prisma.raw("INTERVAL '1 day'"),
+  hours: Prisma.raw("INTERVAL '1 hour'"),
+  minutes: Prisma.raw("INTERVAL '1 minute'"),
+};
+
 /**
  * Build WHERE clause from segment query
  */
-function buildWhereClause(appId: string, query: SegmentQuery, depth = 0): string {
-  const clauses: string[] = [];
-
-  for (const condition of query.conditions) {
-    if ('operator' in condition && 'conditions' in condition) {
-      // Nested query
-      const nestedClause = buildWhereClause(appId, condition as SegmentQuery, depth + 1);
-      clauses.push(`(${nestedClause})`);
-    } else {
-      // Leaf condition
-      const cond = condition as Condition;
-      clauses.push(buildConditionClause(cond));
-    }
-  }
-
-  return clauses.join(` ${query.operator} `);
+function buildWhereClause(appId: string, query: SegmentQuery): Prisma.Sql {
+  const clauses = query.conditions.map((condition) =>
+    isSegmentQuery(condition)
+      ? Prisma.sql`(${buildWhereClause(appId, condition)})`
+      : buildConditionClause(appId, condition)
+  );
+
+  return Prisma.join(clauses, query.operator === 'OR' ? ' OR ' : ' AND ');
 }
 
 /**
  * Build SQL clause for a single condition
  */
-function buildConditionClause(cond: Condition): string {
+function buildConditionClause(appId: string, cond: Condition): Prisma.Sql {
   if (cond.type === 'user_attribute') {
-    return buildUserAttributeClause(cond);
+    return buildPropertyClause(Prisma.raw('e.properties'), cond.field, cond.operator, cond.value);
   } else if (cond.type === 'event') {
-    return buildEventClause(cond);
+    return buildEventClause(appId, cond);
   }
 
-  throw new Error(`Unknown condition type: ${cond.type}`);
+  throw invalidQuery(`Unknown condition type: ${String(cond.type)}`);
 }
 
 /**
- * Build clause for user attribute conditions
+ * Compare a JSON property of `column` against a bound value.
+ * The property path is whitelisted and bound as a text[] parameter.
  */
-function buildUserAttributeClause(cond: Condition): string {
-  // For user attributes, we query the properties JSONB field
-  const field = `properties->>'${cond.field}'`;
-  const value = typeof cond.value === 'string' ? `'${cond.value}'` : cond.value;
-
-  switch (cond.operator) {
+function buildPropertyClause(
+  column: Prisma.Sql,
+  field: string,
+  operator: ComparisonOp,
+  value: unknown
+): Prisma.Sql {
+  const path = requirePath(field);
+  const property = Prisma.sql`(${column} #>> ${path}::text[])`;
+
+  switch (operator) {
     case 'equals':
-      return `${field} = ${value}`;
     case 'not_equals':
-      return `${field} != ${value}`;
+      return Prisma.sql`${property} ${COMPARISON_SQL[operator]!} ${String(value)}`;
     case 'gt':
-      return `(${field})::numeric > ${value}`;
     case 'gte':
-      return `(${field})::numeric >= ${value}`;
     case 'lt':
-      return `(${field})::numeric < ${value}`;
     case 'lte':
-      return `(${field})::numeric <= ${value}`;
+      return Prisma.sql`${numericValue(property)} ${COMPARISON_SQL[operator]!} ${requireNumber(value)}`;
     case 'contains':
-      return `${field} LIKE '%${cond.value}%'`;
+      return Prisma.sql`${property} LIKE ${`%${escapeLike(String(value))}%`}`;
     case 'not_contains':
-      return `${field} NOT LIKE '%${cond.value}%'`;
+      return Prisma.sql`${property} NOT LIKE ${`%${escapeLike(String(value))}%`}`;
     case 'in':
-      const inValues = Array.isArray(cond.value) ? cond.value.map((v) => `'${v}'`).join(', ') : cond.value;
-      return `${field} IN (${inValues})`;
+      return Prisma.sql`${property} = ANY(${requireArray(value)}::text[])`;
     case 'not_in':
-      const notInValues = Array.isArray(cond.value) ? cond.value.map((v) => `'${v}'`).join(', ') : cond.value;
-      return `${field} NOT IN (${notInValues})`;
+      return Prisma.sql`${property} <> ALL(${requireArray(value)}::text[])`;
     case 'exists':
-      return `properties ? '${cond.field}'`;
+      return Prisma.sql`(${column} #> ${path}::text[]) IS NOT NULL`;
     case 'not_exists':
-      return `NOT (properties ? '${cond.field}')`;
+      return Prisma.sql`(${column} #> ${path}::text[]) IS NULL`;
     default:
-      throw new Error(`Unknown operator: ${cond.operator}`);
+      throw invalidQuery(`Unknown operator: ${String(operator)}`);
   }
 }
 
 /**
  * Build clause for event conditions
  */
-function buildEventClause(cond: Condition): string {
-  let clause = '';
-
-  // Build timeframe condition
-  let timeframeClause = '';
-  if (cond.timeframe) {
-    if (cond.timeframe.type === 'relative') {
-      const interval = `${cond.timeframe.value} ${cond.timeframe.unit}`;
-      timeframeClause = `AND event_timestamp >= NOW() - INTERVAL '${interval}'`;
-    } else if (cond.timeframe.type === 'absolute' && cond.timeframe.startDate && cond.timeframe.endDate) {
-      timeframeClause = `AND event_timestamp BETWEEN '${cond.timeframe.startDate.toISOString()}' AND '${cond.timeframe.endDate.toISOString()}'`;
-    }
-  }
+function buildEventClause(appId: string, cond: Condition): Prisma.Sql {
+  const timeframe = buildTimeframeClause(cond);
 
   // If there's an aggregation, we need a subquery
   if (cond.aggregation) {
-    const aggFunction = cond.aggregation.function.toUpperCase();
-    let aggField = 'id';
-
-    if (cond.aggregation.field) {
-      aggField = `(properties->>'${cond.aggregation.field}')::numeric`;
+    const aggFunction = AGGREGATION_SQL[cond.aggregation.function];
+    const comparison = COMPARISON_SQL[cond.operator];
+    if (!aggFunction || !comparison) {
+      throw invalidQuery('Invalid aggregation');
     }
 
-    clause = `user_id IN (
-      SELECT user_id
-      FROM events
-      WHERE event_name = '${cond.eventName}'
-        ${timeframeClause}
-      GROUP BY user_id
-      HAVING ${aggFunction}(${aggField}) ${buildComparisonOperator(cond.operator)} ${cond.value}
-    )`;
-  } else {
-    // Simple event field condition
-    const field = `properties->>'${cond.field}'`;
-    const value = typeof cond.value === 'string' ? `'${cond.value}'` : cond.value;
-
-    clause = `user_id IN (
-      SELECT DISTINCT user_id
-      FROM events
-      WHERE event_name = '${cond.eventName}'
-        AND ${field} ${buildComparisonOperator(cond.operator)} ${value}
-        ${timeframeClause}
+    const aggField = cond.aggregation.field
+      ? numericValue(Prisma.sql`(ev.properties #>> ${requirePath(cond.aggregation.field)}::text[])`)
+      : Prisma.raw('ev.id');
+
+    return Prisma.sql`e.user_id IN (
+      SELECT ev.user_id
+      FROM events ev
+      WHERE ev.app_id = ${appId}
+        AND ev.event_name = ${cond.eventName}
+        ${timeframe}
+      GROUP BY ev.user_id
+      HAVING ${aggFunction}(${aggField}) ${comparison} ${requireNumber(cond.value)}
     )`;
   }
 
-  return clause;
+  // Simple event property condition
+  const property = buildPropertyClause(Prisma.raw('ev.properties'), cond.field, cond.operator, cond.value);
+
+  return Prisma.sql`e.user_id IN (
+    SELECT DISTINCT ev.user_id
+    FROM events ev
+    WHERE ev.app_id = ${appId}
+      AND ev.event_name = ${cond.eventName}
+      AND ${property}
+      ${timeframe}
+  )`;
+}
+
+function buildTimeframeClause(cond: Condition): Prisma.Sql {
+  if (!cond.timeframe) return Prisma.empty;
+
+  if (cond.timeframe.type === 'relative') {
+    const unit = INTERVAL_SQL[cond.timeframe.unit];
+    if (!unit) throw invalidQuery('Invalid timeframe unit');
+    return Prisma.sql`AND ev.event_timestamp >= NOW() - (${requireNumber(cond.timeframe.value)} * ${unit})`;
+  }
+
+  if (cond.timeframe.type === 'absolute' && cond.timeframe.startDate && cond.timeframe.endDate) {
+    return Prisma.sql`AND ev.event_timestamp BETWEEN ${requireDate(cond.timeframe.startDate)} AND ${requireDate(cond.timeframe.endDate)}`;
+  }
+
+  return Prisma.empty;
 }
 
 /**
- * Build SQL comparison operator
+ * Cast a JSON text value to numeric, yielding NULL instead of a cast error for non-numbers
  */
-function buildComparisonOperator(op: ComparisonOp): string {
-  switch (op) {
-    case 'equals':
-      return '=';
-    case 'not_equals':
-      return '!=';
-    case 'gt':
-      return '>';
-    case 'gte':
-      return '>=';
-    case 'lt':
-      return '<';
-    case 'lte':
-      return '<=';
-    case 'contains':
-      return 'LIKE';
-    case 'not_contains':
-      return 'NOT LIKE';
-    case 'in':
-      return 'IN';
-    case 'not_in':
-      return 'NOT IN';
-    default:
-      return '=';
+function numericValue(property: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`(CASE WHEN ${property} ~ '^-?[0-9]+([.][0-9]+)?$' THEN ${property}::numeric END)`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function requirePath(field: unknown): string[] {
+  const path = parsePropertyPath(field);
+  if (!path) throw invalidQuery(`Invalid field path: ${String(field).slice(0, 100)}`);
+  return path;
+}
+
+function requireNumber(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalidQuery('Expected a numeric value');
   }
+  return value;
+}
+
+function requireArray(value: unknown): string[] {
+  if (!Array.isArray(value)) throw invalidQuery('Expected an array value');
+  return value.map((item) => String(item));
+}
+
+function requireDate(value: unknown): Date {
+  const date = new Date(value as string | Date);
+  if (Number.isNaN(date.getTime())) throw invalidQuery('Expected a valid date');
+  return date;
+}
+
+function invalidQuery(message: string): ApiError {
+  return new ApiError(400, 'Invalid query', 'INVALID_QUERY', message);
 }
 
 /**
@@ -273,6 +326,7 @@ export async function exportSegment(
 export default {
   evaluateSegment,
   countSegmentUsers,
+  userMatchesSegment,
   getSegmentPreview,
   exportSegment,
 };
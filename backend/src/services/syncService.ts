@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import { formatAttachment, type AttachmentRecord, type AttachmentResponse } from './attachmentService.js';
 
 export interface SyncResult {
   messages: MessageSyncItem[];
@@ -18,6 +19,7 @@ export interface MessageSyncItem {
   created_at: string;
   delivered_at: string | null;
   read_at: string | null;
+  attachments: AttachmentResponse[];
 }
 
 export async function syncMessages(
@@ -40,6 +42,7 @@ export async function syncMessages(
     },
     orderBy: { sequence: 'asc' },
     take: limit + 1,
+    include: { attachments: true },
   });
 
   const hasMore = messages.length > limit;
@@ -105,6 +108,7 @@ function formatMessageSync(msg: {
   createdAt: Date;
   deliveredAt: Date | null;
   readAt: Date | null;
+  attachments?: AttachmentRecord[];
 }): MessageSyncItem {
   return {
     id: msg.id,
@@ -117,5 +121,6 @@ function formatMessageSync(msg: {
     created_at: msg.createdAt.toISOString(),
     delivered_at: msg.deliveredAt?.toISOString() || null,
     read_at: msg.readAt?.toISOString() || null,
+    attachments: (msg.attachments ?? []).map(formatAttachment),
   };
 }
@@ -1,5 +1,7 @@
-import crypto from 'crypto';
 import { prisma } from '../lib/prisma.js';
+import { config } from '../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { buildWebhookHeaders } from '../lib/webhookSignature.js';
 
 export type WebhookPayload = {
   event: string;
@@ -8,17 +10,51 @@ export type WebhookPayload = {
   data: Record<string, any>;
 };
 
-async function postWebhook(url: string, secret: string, payload: WebhookPayload) {
+export type WebhookDeliveryStatus = 'retrying' | 'success' | 'failed';
+
+type WebhookTarget = {
+  id: string;
+  url: string;
+  secret: string;
+  previousSecret: string | null;
+  previousSecretExpiresAt: Date | null;
+  consecutiveFailures: number;
+  failingSince: Date | null;
+};
+
+type DeliveryRecord = {
+  id: string;
+  event: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+};
+
+const MAX_RESPONSE_BODY_LENGTH = 4000;
+
+/**
+ * Secrets that currently sign requests: the current one, plus the previous
+ * one while its rotation window is open
+ */
+export function getActiveSecrets(webhook: WebhookTarget, now: Date = new Date()): string[] {
+  const secrets = [webhook.secret];
+  if (webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > now) {
+    secrets.push(webhook.previousSecret);
+  }
+  return secrets;
+}
+
+async function postWebhook(webhook: WebhookTarget, deliveryId: string, payload: WebhookPayload) {
   const body = JSON.stringify(payload);
-  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
 
-  const response = await fetch(url, {
+  const response = await fetch(webhook.url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'X-ReplyHQ-Signature': `sha256=${signature}`,
+      ...buildWebhookHeaders(getActiveSecrets(webhook), deliveryId, body),
     },
     body,
+    signal: AbortSignal.timeout(config.webhooks.requestTimeoutMs),
   });
 
   const responseBody = await response.text();
@@ -50,33 +86,241 @@ export async function dispatchWebhook(appId: string, event: string, data: Record
 
   await Promise.all(
     webhooks.map(async (webhook) => {
-      let status = 'success';
-      let httpStatus: number | null = null;
-      let responseBody: string | null = null;
-
-      try {
-        const response = await postWebhook(webhook.url, webhook.secret, payload);
-        httpStatus = response.status;
-        responseBody = response.responseBody;
-        if (!response.ok) {
-          status = 'failed';
-        }
-      } catch (error) {
-        status = 'failed';
-        responseBody = error instanceof Error ? error.message : 'Request failed';
-      }
-
-      await prisma.webhookDelivery.create({
+      // Queue with a lease before the first attempt so the event survives a crash mid-request
+      const delivery = await prisma.webhookDelivery.create({
         data: {
           webhookId: webhook.id,
           event,
           payload,
-          status,
-          httpStatus: httpStatus ?? undefined,
-          responseBody: responseBody ?? undefined,
-          deliveredAt: status === 'success' ? new Date() : undefined,
+          status: 'retrying',
+          attempts: 0,
+          nextRetryAt: new Date(Date.now() + config.webhooks.retryLeaseMs),
         },
       });
+
+      await attemptDelivery(webhook, delivery);
     })
   );
 }
+
+/**
+ * Exponential backoff with +/-20% jitter, capped at retryMaxDelayMs
+ * @param attempt - Number of attempts already made (1 = first retry)
+ */
+export function computeRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const exponential = config.webhooks.retryBaseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(exponential, config.webhooks.retryMaxDelayMs);
+  const jitter = 0.8 + random() * 0.4;
+  return Math.round(capped * jitter);
+}
+
+/**
+ * Make one delivery attempt and record the outcome on the delivery row.
+ * Automatic attempts schedule a retry or give up after maxAttempts. Manual
+ * redeliveries do not count towards auto-disable and are never retried.
+ */
+async function attemptDelivery(
+  webhook: WebhookTarget,
+  delivery: DeliveryRecord,
+  options: { manual?: boolean } = {}
+): Promise<WebhookDeliveryStatus> {
+  let ok = false;
+  let httpStatus: number | null = null;
+  let responseBody: string | null = null;
+
+  try {
+    const response = await postWebhook(webhook, delivery.id, delivery.payload as WebhookPayload);
+    ok = response.ok;
+    httpStatus = response.status;
+    responseBody = response.responseBody;
+  } catch (error) {
+    responseBody = error instanceof Error ? error.message : 'Request failed';
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  let status: WebhookDeliveryStatus;
+  let nextRetryAt: Date | null = null;
+
+  if (ok) {
+    status = 'success';
+  } else if (
+    attempts < config.webhooks.maxAttempts &&
+    !options.manual
+  ) {
+    status = 'retrying';
+    nextRetryAt = new Date(now.getTime() + computeRetryDelay(attempts));
+  } else {
+    status = 'failed';
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      nextRetryAt,
+      httpStatus,
+      responseBody: responseBody?.slice(0, MAX_RESPONSE_BODY_LENGTH) ?? null,
+      deliveredAt: ok ? now : undefined,
+    },
+  });
+
+  if (ok) {
+    if (webhook.consecutiveFailures > 0 || webhook.failingSince) {
+      await prisma.webhook.update({
+        where: { id: webhook.id },
+        data: { consecutiveFailures: 0, failingSince: null },
+      });
+    }
+  } else if (!options.manual) {
+    await recordWebhookFailure(webhook, now);
+  }
+
+  return status;
+}
+
+/**
+ * Count a failed attempt and disable the webhook once failures are sustained
+ */
+async function recordWebhookFailure(webhook: WebhookTarget, now: Date): Promise<void> {
+  const updated = await prisma.webhook.update({
+    where: { id: webhook.id },
+    data: {
+      consecutiveFailures: { increment: 1 },
+      failingSince: webhook.failingSince ?? now,
+    },
+    select: { consecutiveFailures: true, failingSince: true, isActive: true },
+  });
+
+  const failingFor = updated.failingSince ? now.getTime() - updated.failingSince.getTime() : 0;
+
+  if (
+    updated.isActive &&
+    updated.consecutiveFailures >= config.webhooks.disableAfterFailures &&
+    failingFor >= config.webhooks.disableAfterMs
+  ) {
+    await prisma.webhook.update({
+      where: { id: webhook.id },
+      data: {
+        isActive: false,
+        disabledAt: now,
+        disabledReason: `Disabled after ${updated.consecutiveFailures} consecutive failed deliveries`,
+      },
+    });
+    console.warn(`[Webhooks] Disabled webhook ${webhook.id} after sustained delivery failures`);
+  }
+}
+
+/**
+ * Retry deliveries whose backoff has elapsed. Each row is claimed by pushing
+ * nextRetryAt forward by a lease, so concurrent workers never double-send and
+ * a crashed worker's claims become due again.
+ */
+export async function retryDueDeliveries(
+  now: Date = new Date(),
+  batchSize: number = config.webhooks.retryBatchSize
+): Promise<number> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'retrying',
+      nextRetryAt: { lte: now },
+      webhook: { isActive: true },
+    },
+    orderBy: { nextRetryAt: 'asc' },
+    take: batchSize,
+    include: { webhook: true },
+  });
+
+  let retried = 0;
+
+  for (const delivery of due) {
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'retrying', nextRetryAt: delivery.nextRetryAt },
+      data: { nextRetryAt: new Date(now.getTime() + config.webhooks.retryLeaseMs) },
+    });
+
+    if (claimed.count === 0) continue;
+
+    try {
+      await attemptDelivery(delivery.webhook, delivery);
+      retried++;
+    } catch (error) {
+      console.error('[Webhooks] Retry failed:', delivery.id, error);
+    }
+  }
+
+  return retried;
+}
+
+/**
+ * Manually redeliver a finished delivery once. Deliveries still in the retry
+ * queue belong to the retry worker. The row is claimed by moving it back to
+ * retrying under a lease, so a concurrent redeliver sees it in flight and a
+ * crash mid-request leaves it for the worker.
+ */
+export async function redeliverWebhookDelivery(appId: string, webhookId: string, deliveryId: string) {
+  const delivery = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, webhookId, webhook: { appId } },
+    include: { webhook: true },
+  });
+
+  if (!delivery) {
+    throw new ApiError(404, 'Delivery not found', 'DELIVERY_NOT_FOUND');
+  }
+
+  const claimed = delivery.status !== 'retrying'
+    ? await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: delivery.status, attempts: delivery.attempts },
+        data: { status: 'retrying', nextRetryAt: new Date(Date.now() + config.webhooks.retryLeaseMs) },
+      })
+    : { count: 0 };
+
+  if (claimed.count === 0) {
+    throw new ApiError(
+      409,
+      'Delivery in progress',
+      'DELIVERY_IN_PROGRESS',
+      'This delivery is still being retried; redeliver it once it has succeeded or failed'
+    );
+  }
+
+  await attemptDelivery(delivery.webhook, delivery, { manual: true });
+
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } });
+}
+
+/**
+ * Send a one-off webhook.test event. Recorded as a delivery but never retried.
+ */
+export async function sendTestWebhook(appId: string, webhookId: string) {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id: webhookId, appId },
+  });
+
+  if (!webhook) {
+    throw new ApiError(404, 'Webhook not found', 'WEBHOOK_NOT_FOUND');
+  }
+
+  const payload: WebhookPayload = {
+    event: 'webhook.test',
+    app_id: appId,
+    timestamp: new Date().toISOString(),
+    data: {},
+  };
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: webhook.id,
+      event: payload.event,
+      payload,
+      status: 'failed',
+      attempts: 0,
+    },
+  });
+
+  await attemptDelivery(webhook, delivery, { manual: true });
+
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } });
+}
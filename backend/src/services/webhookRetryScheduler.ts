@@ -0,0 +1,35 @@
+import { retryDueDeliveries } from './webhookDispatchService.js';
+
+let schedulerHandle: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function runSchedulerTick(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const retried = await retryDueDeliveries();
+    if (retried > 0) {
+      console.log(`[Webhook Retry Scheduler] Retried ${retried} delivery(ies)`);
+    }
+  } catch (error) {
+    console.error('[Webhook Retry Scheduler] Tick failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startWebhookRetryScheduler(intervalMs: number = 15000): void {
+  if (schedulerHandle) return;
+  schedulerHandle = setInterval(runSchedulerTick, intervalMs);
+  void runSchedulerTick();
+  console.log(`[Webhook Retry Scheduler] Started (interval ${intervalMs}ms)`);
+}
+
+export function stopWebhookRetryScheduler(): void {
+  if (schedulerHandle) {
+    clearInterval(schedulerHandle);
+    schedulerHandle = null;
+    console.log('[Webhook Retry Scheduler] Stopped');
+  }
+}
@@ -0,0 +1,345 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { config } from '../config/index.js';
+import {
+  workflowNodeConfigSchemas,
+  type AssignConversationConfig,
+  type SegmentMembershipConfig,
+  type SendPushConfig,
+  type SetUserAttributeConfig,
+  type TrackEventConfig,
+  type WebhookConfig,
+} from '../schemas/workflow.js';
+import { sendPushNotificationToUser } from './pushNotificationService.js';
+import { trackEvent } from './analyticsService.js';
+import { setSegmentMembership } from './segmentService.js';
+import { assignConversation, autoAssignConversation } from './assignmentService.js';
+import { resolveConversation } from './conversationService.js';
+import { renderTemplate, validateTemplate } from '../lib/template.js';
+import { fetchPublicUrl } from '../lib/outboundUrl.js';
+import {
+  renderTemplateValue,
+  WORKFLOW_TEMPLATE_VARIABLES,
+  type WorkflowGraphError,
+  type WorkflowNode,
+} from './workflowUtils.js';
+
+export type WorkflowActionContext = {
+  appId: string;
+  userId: string;
+  deviceId: string | null;
+  // Execution context used to fill {{placeholders}}
+  context: Record<string, any>;
+};
+
+type ActionOutput = Record<string, unknown>;
+
+type ActionHandler<TConfig> = (config: TConfig, action: WorkflowActionContext) => Promise<ActionOutput>;
+
+type ActionPreview<TConfig> = (config: TConfig, action: WorkflowActionContext) => ActionOutput;
+
+/**
+ * The conversation an action applies to: the triggering device's, else the
+ * user's most recently active one
+ */
+async function findTargetConversation(action: WorkflowActionContext): Promise<{ id: string }> {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      appId: action.appId,
+      OR: [{ userId: action.userId }, ...(action.deviceId ? [{ deviceId: action.deviceId }] : [])],
+    },
+    orderBy: { updatedAt: 'desc' },
+    select: { id: true },
+  });
+
+  if (!conversation) {
+    throw new Error('No conversation for user');
+  }
+
+  return conversation;
+}
+
+function renderPush(options: SendPushConfig, context: Record<string, any>) {
+  return {
+    title: options.title ? renderTemplate(options.title, context) : undefined,
+    body: renderTemplate(options.body, context),
+    data: options.data
+      ? Object.fromEntries(Object.entries(options.data).map(([key, value]) => [key, renderTemplate(value, context)]))
+      : undefined,
+  };
+}
+
+function renderWebhookBody(options: WebhookConfig, context: Record<string, any>): unknown {
+  return options.body && options.method !== 'GET' ? renderTemplateValue(options.body, context) : undefined;
+}
+
+const sendPush: ActionHandler<SendPushConfig> = async (options, action) => {
+  const results = await sendPushNotificationToUser(action.appId, action.userId, renderPush(options, action.context));
+
+  return {
+    sent: results.filter((result) => result.success).length,
+    failed: results.filter((result) => !result.success).length,
+  };
+};
+
+const callWebhook: ActionHandler<WebhookConfig> = async (options, action) => {
+  const rendered = renderWebhookBody(options, action.context);
+  const body = rendered === undefined ? undefined : JSON.stringify(rendered);
+
+  const response = await fetchPublicUrl(options.url, {
+    method: options.method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body,
+    signal: AbortSignal.timeout(config.workflows.httpTimeoutMs),
+  });
+
+  const responseBody = (await response.text()).slice(0, config.workflows.maxResponseBodyLength);
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+
+  return { status: response.status, response_body: responseBody };
+};
+
+/**
+ * Attributes live on the user profile stored in conversation metadata by identify
+ */
+const setUserAttribute: ActionHandler<SetUserAttributeConfig> = async (options, action) => {
+  const value = renderTemplateValue(options.value, action.context);
+  const conversations = await prisma.conversation.findMany({
+    where: { appId: action.appId, userId: action.userId },
+    select: { id: true, metadata: true },
+  });
+
+  for (const conversation of conversations) {
+    const metadata = (conversation.metadata ?? {}) as Record<string, any>;
+    const user = (metadata.user ?? { id: action.userId }) as Record<string, any>;
+
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        metadata: {
+          ...metadata,
+          user: { ...user, attributes: { ...user.attributes, [options.attribute]: value } },
+        } as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  return { attribute: options.attribute, value, conversations: conversations.length };
+};
+
+// Tracked directly rather than through the events route, so it cannot re-trigger workflows
+const trackWorkflowEvent: ActionHandler<TrackEventConfig> = async (options, action) => {
+  await trackEvent({
+    userId: action.userId,
+    appId: action.appId,
+    eventName: options.event_name,
+    properties: renderTemplateValue(options.properties ?? {}, action.context) as Record<string, any>,
+    sessionId: action.deviceId ?? undefined,
+  });
+
+  return { event_name: options.event_name };
+};
+
+const addToSegment: ActionHandler<SegmentMembershipConfig> = async (options, action) => {
+  await setSegmentMembership(action.appId, options.segment_id, action.userId, true);
+  return { segment_id: options.segment_id };
+};
+
+const removeFromSegment: ActionHandler<SegmentMembershipConfig> = async (options, action) => {
+  await setSegmentMembership(action.appId, options.segment_id, action.userId, false);
+  return { segment_id: options.segment_id };
+};
+
+const assignTargetConversation: ActionHandler<AssignConversationConfig> = async (options, action) => {
+  const conversation = await findTargetConversation(action);
+
+  const assignment = options.assignee_id
+    ? await assignConversation(action.appId, conversation.id, options.assignee_id, { reason: 'auto' })
+    : await autoAssignConversation(action.appId, conversation.id);
+
+  return { conversation_id: conversation.id, assignee_id: assignment?.assignee_id ?? null };
+};
+
+const resolveTargetConversation: ActionHandler<Record<string, never>> = async (_options, action) => {
+  const conversation = await findTargetConversation(action);
+  const resolved = await resolveConversation(action.appId, conversation.id);
+  return { conversation_id: conversation.id, status: resolved.status };
+};
+
+const actionHandlers: Record<string, ActionHandler<any>> = {
+  send_push: sendPush,
+  webhook: callWebhook,
+  set_user_attribute: setUserAttribute,
+  track_event: trackWorkflowEvent,
+  add_to_segment: addToSegment,
+  remove_from_segment: removeFromSegment,
+  assign_conversation: assignTargetConversation,
+  resolve_conversation: resolveTargetConversation,
+};
+
+// Config fields rendered as templates; objects have each string value rendered
+const TEMPLATED_FIELDS: Record<string, string[]> = {
+  send_message: ['body'],
+  send_push: ['title', 'body', 'data'],
+  webhook: ['body'],
+  set_user_attribute: ['value'],
+  track_event: ['properties'],
+};
+
+function forEachTemplate(
+  node: WorkflowNode,
+  basePath: string,
+  callback: (path: string, template: string) => void
+): void {
+  const visit = (value: unknown, path: string) => {
+    if (typeof value === 'string') {
+      callback(path, value);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}.${index}`));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => visit(item, `${path}.${key}`));
+    }
+  };
+
+  for (const field of TEMPLATED_FIELDS[node.type] ?? []) {
+    visit(node.config?.[field], `${basePath}.${field}`);
+  }
+}
+
+// What each action would do, rendered against the context, without doing it
+const actionPreviews: Record<string, ActionPreview<any>> = {
+  send_push: (options: SendPushConfig, action) => renderPush(options, action.context),
+  webhook: (options: WebhookConfig, action) => ({
+    method: options.method,
+    url: options.url,
+    body: renderWebhookBody(options, action.context),
+  }),
+  set_user_attribute: (options: SetUserAttributeConfig, action) => ({
+    attribute: options.attribute,
+    value: renderTemplateValue(options.value, action.context),
+  }),
+  track_event: (options: TrackEventConfig, action) => ({
+    event_name: options.event_name,
+    properties: renderTemplateValue(options.properties ?? {}, action.context),
+  }),
+  add_to_segment: (options: SegmentMembershipConfig) => ({ segment_id: options.segment_id }),
+  remove_from_segment: (options: SegmentMembershipConfig) => ({ segment_id: options.segment_id }),
+  assign_conversation: (options: AssignConversationConfig) => ({ assignee_id: options.assignee_id ?? null }),
+  resolve_conversation: () => ({}),
+};
+
+export function isWorkflowAction(type: string): boolean {
+  return type in actionHandlers;
+}
+
+export function isKnownNodeType(type: string): boolean {
+  return type in workflowNodeConfigSchemas;
+}
+
+function parseActionConfig(node: WorkflowNode): unknown {
+  const schema = workflowNodeConfigSchemas[node.type as keyof typeof workflowNodeConfigSchemas];
+
+  if (!schema || !isWorkflowAction(node.type)) {
+    throw new Error(`Unknown action "${node.type}"`);
+  }
+
+  // Configs are checked on save; this applies defaults and guards older workflows
+  const parsed = schema.safeParse(node.config ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid ${node.type} config: ${parsed.error.issues[0]?.message ?? 'invalid'}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Run an action node. Throws if the action fails.
+ * @returns Output recorded on the workflow step
+ */
+export async function runWorkflowAction(node: WorkflowNode, action: WorkflowActionContext): Promise<ActionOutput> {
+  return actionHandlers[node.type](parseActionConfig(node), action);
+}
+
+/**
+ * Render an action node without side effects, e.g. for the simulator.
+ * Throws if its config is invalid.
+ */
+export function previewWorkflowAction(node: WorkflowNode, action: WorkflowActionContext): ActionOutput {
+  return actionPreviews[node.type](parseActionConfig(node), action);
+}
+
+/**
+ * Check every node has a known type and a config matching its schema
+ * @returns Errors located as nodes[i].type or nodes[i].config.<field>
+ */
+export function validateWorkflowNodeConfigs(nodes: unknown[]): WorkflowGraphError[] {
+  const errors: WorkflowGraphError[] = [];
+
+  nodes.forEach((node, index) => {
+    const { type, config: nodeConfig } = (node ?? {}) as Partial<WorkflowNode>;
+    if (typeof type !== 'string') return;
+
+    if (!isKnownNodeType(type)) {
+      errors.push({ path: `nodes[${index}].type`, message: `Unknown node type "${type}"` });
+      return;
+    }
+
+    const parsed = workflowNodeConfigSchemas[type as keyof typeof workflowNodeConfigSchemas].safeParse(nodeConfig ?? {});
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push({
+          path: [`nodes[${index}].config`, ...issue.path].join('.'),
+          message: issue.message,
+        });
+      }
+      return;
+    }
+
+    forEachTemplate(node as WorkflowNode, `nodes[${index}].config`, (path, template) => {
+      for (const message of validateTemplate(template).errors) {
+        errors.push({ path, message });
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Variables used by node templates that a workflow's context does not
+ * provide. Flat {{key}} templates reading trigger properties are reported
+ * too, since those properties are only known at runtime.
+ * @returns Warnings located as nodes[i].config.<field>
+ */
+export function getWorkflowTemplateWarnings(nodes: unknown[]): WorkflowGraphError[] {
+  const warnings: WorkflowGraphError[] = [];
+
+  nodes.forEach((node, index) => {
+    forEachTemplate((node ?? {}) as WorkflowNode, `nodes[${index}].config`, (path, template) => {
+      for (const variable of validateTemplate(template, WORKFLOW_TEMPLATE_VARIABLES).unknownVariables) {
+        warnings.push({ path, message: `Unknown variable "${variable}"; trigger properties are available as event.${variable}` });
+      }
+    });
+  });
+
+  return warnings;
+}
+
+/**
+ * Saved segments referenced by add_to_segment / remove_from_segment nodes
+ */
+export function getReferencedSegmentIds(nodes: unknown[]): string[] {
+  return nodes.flatMap((node) => {
+    const { type, config: nodeConfig } = (node ?? {}) as Partial<WorkflowNode>;
+    if ((type === 'add_to_segment' || type === 'remove_from_segment') && typeof nodeConfig?.segment_id === 'string') {
+      return [nodeConfig.segment_id];
+    }
+    return [];
+  });
+}
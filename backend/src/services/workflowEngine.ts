@@ -1,8 +1,28 @@
 import { v4 as uuidv4 } from 'uuid';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
+import { config } from '../config/index.js';
+import { renderTemplate } from '../lib/template.js';
 import { createMessage } from './messageService.js';
 import { getOrCreateConversation } from './conversationService.js';
-import { buildAdjacency, evaluateCondition, findStartNode, parseDuration, type WorkflowEdge, type WorkflowNode } from './workflowUtils.js';
+import { FREQUENCY_CAP_REASON, FrequencyCapReachedError, type FrequencyCapRule } from './frequencyCapService.js';
+import { isKnownNodeType, isWorkflowAction, runWorkflowAction } from './workflowActions.js';
+import { loadExecutionGraph } from './workflowVersionService.js';
+import { checkWorkflowEntry, lockWorkflowEntry } from './workflowEnrollmentService.js';
+import {
+  buildAdjacency,
+  buildWorkflowContext,
+  collectEventHistoryConditions,
+  evaluateCondition,
+  findStartNode,
+  getJoinInputs,
+  getJoinMode,
+  getWaitForEventNextNodeId,
+  parseDuration,
+  type WaitForEventOutcome,
+  type WorkflowEdge,
+  type WorkflowNode,
+} from './workflowUtils.js';
 
 export type WorkflowTriggerContext = {
   userId: string;
@@ -22,19 +42,30 @@ async function resolveDeviceId(appId: string, userId: string, deviceId?: string
   return device?.deviceId ?? null;
 }
 
+/**
+ * The profile identify stored for a user ({ id, name, email, attributes }),
+ * from their most recently active conversation
+ */
+async function loadUserProfile(appId: string, userId: string): Promise<Record<string, any>> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { appId, userId },
+    orderBy: { updatedAt: 'desc' },
+    select: { metadata: true },
+  });
+
+  const user = (conversation?.metadata as Record<string, any> | null | undefined)?.user;
+  return user && typeof user === 'object' ? user : {};
+}
+
 async function handleSendMessage(
   appId: string,
+  executionId: string,
   node: WorkflowNode,
   context: Record<string, any>,
   deviceId: string
 ): Promise<void> {
   const config = node.config ?? {};
-  const template = (config.body as string | undefined) ?? '';
-  const body = template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_, key) => {
-    const value = context[key];
-    if (value === null || value === undefined) return '';
-    return String(value);
-  });
+  const body = renderTemplate((config.body as string | undefined) ?? '', context);
 
   const conversation = await getOrCreateConversation(appId, deviceId, {
     user: context.userId ? { id: context.userId as string } : undefined,
@@ -49,18 +80,51 @@ async function handleSendMessage(
     },
     appId,
     deviceId,
-    'agent'
+    'agent',
+    // Keyed by node so a retried step does not take a second slot
+    { source: 'workflow', sendKey: `workflow:${executionId}:${node.id}` }
   );
 }
 
+/**
+ * Evaluate a condition node, first counting the user's events for any event
+ * history conditions it contains
+ */
+async function evaluateConditionNode(
+  appId: string,
+  userId: string,
+  node: WorkflowNode,
+  context: Record<string, any>
+): Promise<boolean> {
+  const now = new Date();
+  const eventConditions = collectEventHistoryConditions(node.config);
+
+  const counts = new Map(await Promise.all(eventConditions.map(async (condition) => {
+    const withinMs = parseDuration(condition.within);
+    const count = await prisma.event.count({
+      where: {
+        appId,
+        userId,
+        eventName: condition.event_name,
+        ...(withinMs !== null && { eventTimestamp: { gte: new Date(now.getTime() - withinMs) } }),
+      },
+    });
+    return [condition, count] as const;
+  })));
+
+  return evaluateCondition(node.config ?? {}, context, {
+    now,
+    countEvents: (condition) => counts.get(condition) ?? 0,
+  });
+}
+
 function getNextNodeId(
   node: WorkflowNode,
   edges: WorkflowEdge[],
-  context: Record<string, any>
+  conditionResult = false
 ): string | null {
   if (node.type === 'condition') {
-    const result = evaluateCondition(node.config ?? {}, context);
-    const branchKey = result ? 'true' : 'false';
+    const branchKey = conditionResult ? 'true' : 'false';
     const branchTarget = node.branches?.[branchKey];
     if (branchTarget) return branchTarget;
   }
@@ -70,7 +134,185 @@ function getNextNodeId(
   return nextList[0] ?? null;
 }
 
-export async function executeWorkflow(workflowId: string, trigger: WorkflowTriggerContext): Promise<void> {
+/**
+ * Fail a step and the execution it belongs to
+ */
+async function failExecution(executionId: string, stepId: string, errorMessage: string): Promise<void> {
+  await prisma.workflowStep.update({
+    where: { id: stepId },
+    data: {
+      status: 'FAILED',
+      errorMessage,
+    },
+  });
+  await prisma.workflowExecution.update({
+    where: { id: executionId },
+    data: {
+      status: 'FAILED',
+      errorMessage,
+    },
+  });
+}
+
+type StepFailure = {
+  message: string;
+  // Thrown errors may be transient; a missing device or unknown node type is not
+  retryable: boolean;
+};
+
+/**
+ * Which attempt a node's current step is: a retry continues from the step
+ * that was parked for it, anything else (including an operator retry of an
+ * exhausted step) starts again at 1
+ */
+async function getStepAttempt(executionId: string, nodeId: string): Promise<number> {
+  const previous = await prisma.workflowStep.findFirst({
+    where: { executionId, nodeId, status: 'FAILED' },
+    orderBy: { startedAt: 'desc' },
+    select: { output: true },
+  });
+
+  const nextAttempt = (previous?.output as { next_attempt?: unknown } | null | undefined)?.next_attempt;
+  return typeof nextAttempt === 'number' ? nextAttempt : 1;
+}
+
+/**
+ * Handle a failed step: park it for the scheduler to run again while the
+ * node type's retry policy allows, doubling the delay each attempt, then
+ * continue down the node's on_error branch or fail the execution
+ * @returns Node to continue at, or null when this path stops here
+ */
+async function handleStepFailure(
+  executionId: string,
+  node: WorkflowNode,
+  stepId: string,
+  failure: StepFailure
+): Promise<string | null> {
+  const policy = config.workflows.retries[node.type] ?? config.workflows.retries.default;
+
+  if (failure.retryable && policy.maxAttempts > 1) {
+    const attempt = await getStepAttempt(executionId, node.id);
+
+    if (attempt < policy.maxAttempts) {
+      const resumeAt = new Date(Date.now() + policy.backoffMs * 2 ** (attempt - 1));
+
+      await prisma.workflowStep.update({
+        where: { id: stepId },
+        data: {
+          status: 'PENDING',
+          errorMessage: failure.message,
+          output: { attempt, next_attempt: attempt + 1 },
+          resumeAt,
+        },
+      });
+      return null;
+    }
+  }
+
+  const onError = node.branches?.on_error;
+  if (!onError) {
+    await failExecution(executionId, stepId, failure.message);
+    return null;
+  }
+
+  await prisma.workflowStep.update({
+    where: { id: stepId },
+    data: {
+      status: 'FAILED',
+      errorMessage: failure.message,
+      completedAt: new Date(),
+    },
+  });
+  return onError;
+}
+
+/**
+ * End one path of an execution. The execution completes once no paths
+ * remain, so parallel branches all have to finish first. Both writes only
+ * apply while it is still running, so a path finishing late never turns a
+ * cancelled or failed execution into a completed one.
+ */
+export async function finishBranch(executionId: string): Promise<void> {
+  const decremented = await prisma.workflowExecution.updateMany({
+    where: { id: executionId, status: 'RUNNING' },
+    data: { activeBranches: { decrement: 1 } },
+  });
+
+  if (decremented.count === 0) return;
+
+  await prisma.workflowExecution.updateMany({
+    where: { id: executionId, status: 'RUNNING', activeBranches: 0 },
+    data: {
+      status: 'COMPLETED',
+      completedAt: new Date(),
+      currentNodeId: null,
+    },
+  });
+}
+
+/**
+ * Record a path arriving at a join node. Arrivals at one join take a
+ * transaction-scoped lock and are counted by their completed steps, so two
+ * paths arriving at once see each other in order: exactly one passes.
+ * Arrivals from before the execution was last moved belong to the run the
+ * move abandoned and are not counted. A retried path is counted with its
+ * siblings, which arrived in the same run.
+ * @returns True if this path continues past the join: the last arrival in
+ * "all" mode, or the first in "any" mode. Other arrivals end their path.
+ */
+async function arriveAtJoin(
+  executionId: string,
+  node: WorkflowNode,
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  stepId: string
+): Promise<boolean> {
+  const mode = getJoinMode(node);
+  const expected = getJoinInputs(node.id, nodes, edges).length;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw(Prisma.sql`SELECT pg_advisory_xact_lock(hashtext(${executionId}), hashtext(${node.id}))`);
+
+    const execution = await tx.workflowExecution.findUnique({
+      where: { id: executionId },
+      select: { movedAt: true },
+    });
+    const previous = await tx.workflowStep.count({
+      where: {
+        executionId,
+        nodeId: node.id,
+        status: 'COMPLETED',
+        ...(execution?.movedAt && { startedAt: { gte: execution.movedAt } }),
+      },
+    });
+    const arrived = previous + 1;
+    const proceeds = mode === 'any' ? arrived === 1 : arrived === expected;
+
+    await tx.workflowStep.update({
+      where: { id: stepId },
+      data: {
+        status: 'COMPLETED',
+        output: { mode, arrived, expected, proceeds },
+        completedAt: new Date(),
+      },
+    });
+
+    return proceeds;
+  });
+}
+
+/**
+ * Start an execution of a workflow's current version and run it until it
+ * ends or parks on a wait
+ * @param options.enforceEntryRules - Check the workflow's re-entry and
+ * concurrency rules atomically with creating the execution
+ * @returns False if the entry rules kept the user out
+ */
+export async function executeWorkflow(
+  workflowId: string,
+  trigger: WorkflowTriggerContext,
+  options: { enforceEntryRules?: boolean } = {}
+): Promise<boolean> {
   const workflow = await prisma.workflow.findUnique({
     where: { id: workflowId },
   });
@@ -87,26 +329,41 @@ export async function executeWorkflow(workflowId: string, trigger: WorkflowTrigg
     throw new Error('Workflow has no start node');
   }
 
-  const context: Record<string, any> = {
+  const context = buildWorkflowContext(
+    trigger.userId,
+    trigger.payload,
+    await loadUserProfile(workflow.appId, trigger.userId)
+  );
+
+  const data = {
+    workflowId: workflow.id,
+    workflowVersion: workflow.version,
     userId: trigger.userId,
-    ...trigger.payload,
+    deviceId: trigger.deviceId ?? undefined,
+    status: 'RUNNING' as const,
+    currentNodeId: startNode.id,
+    context,
   };
 
-  const execution = await prisma.workflowExecution.create({
-    data: {
-      workflowId: workflow.id,
-      userId: trigger.userId,
-      deviceId: trigger.deviceId ?? undefined,
-      status: 'RUNNING',
-      currentNodeId: startNode.id,
-      context,
-    },
-  });
+  const execution = options.enforceEntryRules
+    ? await prisma.$transaction(async (tx) => {
+      await lockWorkflowEntry(tx, workflow.id, trigger.userId);
+      if (await checkWorkflowEntry(workflow, trigger.userId, new Date(), tx)) return null;
+      return tx.workflowExecution.create({ data });
+    })
+    : await prisma.workflowExecution.create({ data });
+
+  if (!execution) return false;
 
   await runNodes(workflow.appId, execution.id, nodes, edges, startNode.id, context, trigger);
+  return true;
 }
 
-export async function continueExecution(executionId: string, nextNodeId: string): Promise<void> {
+/**
+ * Load an execution with the graph of its pinned version
+ * @returns Null once the execution is no longer running
+ */
+async function loadRunningExecution(executionId: string) {
   const execution = await prisma.workflowExecution.findUnique({
     where: { id: executionId },
     include: { workflow: true },
@@ -116,12 +373,52 @@ export async function continueExecution(executionId: string, nextNodeId: string)
     throw new Error('Execution not found');
   }
 
-  const workflow = execution.workflow;
-  const nodes = workflow.nodes as unknown as WorkflowNode[];
-  const edges = workflow.edges as unknown as WorkflowEdge[];
-  const context = execution.context as Record<string, any>;
+  // Another path may have failed the execution while this one was waiting
+  if (execution.status !== 'RUNNING') return null;
 
-  await runNodes(workflow.appId, execution.id, nodes, edges, nextNodeId, context, {
+  const graph = await loadExecutionGraph(execution.workflow, execution.workflowVersion);
+  return { execution, ...graph };
+}
+
+export async function continueExecution(executionId: string, nextNodeId: string): Promise<void> {
+  const loaded = await loadRunningExecution(executionId);
+  if (!loaded) return;
+
+  const { execution, nodes, edges } = loaded;
+
+  await runNodes(execution.workflow.appId, execution.id, nodes, edges, nextNodeId, execution.context as Record<string, any>, {
+    userId: execution.userId,
+    deviceId: execution.deviceId,
+  });
+}
+
+/**
+ * Continue a path parked on a wait or wait_for_event node, or on a step
+ * waiting to be retried, once its step has been claimed. A plain wait always
+ * ends by timing out and follows its edge.
+ */
+export async function resumeExecution(executionId: string, nodeId: string, outcome: WaitForEventOutcome): Promise<void> {
+  const loaded = await loadRunningExecution(executionId);
+  if (!loaded) return;
+
+  const { execution, nodes, edges } = loaded;
+  const node = nodes.find((item) => item.id === nodeId);
+  let nextNodeId: string | null;
+  if (node?.type === 'wait_for_event') {
+    nextNodeId = getWaitForEventNextNodeId(node, edges, outcome);
+  } else if (node && node.type !== 'wait') {
+    // A step parked for a retry runs its node again
+    nextNodeId = node.id;
+  } else {
+    nextNodeId = buildAdjacency(edges).get(nodeId)?.[0] ?? null;
+  }
+
+  if (!nextNodeId) {
+    await finishBranch(executionId);
+    return;
+  }
+
+  await runNodes(execution.workflow.appId, execution.id, nodes, edges, nextNodeId, execution.context as Record<string, any>, {
     userId: execution.userId,
     deviceId: execution.deviceId,
   });
@@ -144,10 +441,14 @@ async function runNodes(
       break;
     }
 
-    await prisma.workflowExecution.update({
-      where: { id: executionId },
+    // Stops the path once the execution is cancelled, e.g. by its exit event
+    const advanced = await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: 'RUNNING' },
       data: { currentNodeId: node.id },
     });
+    if (advanced.count === 0) {
+      return;
+    }
 
     const step = await prisma.workflowStep.create({
       data: {
@@ -159,6 +460,49 @@ async function runNodes(
       },
     });
 
+    if (node.type === 'fan_out') {
+      const branchIds = buildAdjacency(edges).get(node.id) ?? [];
+
+      await prisma.workflowStep.update({
+        where: { id: step.id },
+        data: {
+          status: 'COMPLETED',
+          output: { branches: branchIds },
+          completedAt: new Date(),
+        },
+      });
+
+      if (branchIds.length === 0) {
+        await finishBranch(executionId);
+        return;
+      }
+
+      await prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: { activeBranches: { increment: branchIds.length - 1 } },
+      });
+
+      // Each branch runs until it ends or parks on a wait, so a wait in one
+      // branch does not hold up the others
+      for (const branchId of branchIds) {
+        await runNodes(appId, executionId, nodes, edges, branchId, context, trigger);
+      }
+      return;
+    }
+
+    if (node.type === 'join') {
+      if (!(await arriveAtJoin(executionId, node, nodes, edges, step.id))) {
+        await finishBranch(executionId);
+        return;
+      }
+
+      currentId = getNextNodeId(node, edges);
+      if (!currentId) {
+        await finishBranch(executionId);
+      }
+      continue;
+    }
+
     if (node.type === 'wait') {
       const durationMs = parseDuration((node.config?.duration as string) ?? '') ?? 0;
 
@@ -167,6 +511,7 @@ async function runNodes(
         data: {
           status: 'PENDING',
           output: { durationMs },
+          resumeAt: new Date(Date.now() + durationMs),
         },
       });
 
@@ -178,48 +523,91 @@ async function runNodes(
       return;
     }
 
-    if (node.type === 'send_message') {
-      const deviceId = await resolveDeviceId(appId, trigger.userId, trigger.deviceId);
-      if (!deviceId) {
-        await prisma.workflowStep.update({
-          where: { id: step.id },
-          data: {
-            status: 'FAILED',
-            errorMessage: 'No device available for user',
-          },
-        });
-        await prisma.workflowExecution.update({
-          where: { id: executionId },
-          data: {
-            status: 'FAILED',
-            errorMessage: 'No device available for user',
+    // Parks like a wait; the event or the scheduler's timeout resumes it
+    if (node.type === 'wait_for_event') {
+      const durationMs = parseDuration((node.config?.timeout as string) ?? '') ?? 0;
+
+      await prisma.workflowStep.update({
+        where: { id: step.id },
+        data: {
+          status: 'PENDING',
+          output: {
+            durationMs,
+            event_name: (node.config?.event_name as string) ?? null,
           },
+          resumeAt: new Date(Date.now() + durationMs),
+        },
+      });
+
+      return;
+    }
+
+    let reachedCap: FrequencyCapRule | null = null;
+    let actionOutput: Record<string, unknown> | undefined;
+    let conditionResult = false;
+
+    let failure: StepFailure | null = null;
+
+    try {
+      if (node.type === 'send_message') {
+        const deviceId = await resolveDeviceId(appId, trigger.userId, trigger.deviceId);
+        if (!deviceId) {
+          failure = { message: 'No device available for user', retryable: false };
+        } else {
+          try {
+            await handleSendMessage(appId, executionId, node, context, deviceId);
+          } catch (error) {
+            // A capped message is skipped and the workflow carries on
+            if (!(error instanceof FrequencyCapReachedError)) throw error;
+            reachedCap = error.rule;
+          }
+        }
+      } else if (isWorkflowAction(node.type)) {
+        actionOutput = await runWorkflowAction(node, {
+          appId,
+          userId: trigger.userId,
+          deviceId: trigger.deviceId ?? null,
+          context,
         });
-        return;
+      } else if (node.type === 'condition') {
+        conditionResult = await evaluateConditionNode(appId, trigger.userId, node, context);
+        actionOutput = { result: conditionResult };
+      } else if (!isKnownNodeType(node.type)) {
+        failure = { message: `Unknown node type "${node.type}"`, retryable: false };
       }
+    } catch (error) {
+      failure = { message: error instanceof Error ? error.message : 'Step failed', retryable: true };
+    }
 
-      await handleSendMessage(appId, node, context, deviceId);
+    if (failure) {
+      currentId = await handleStepFailure(executionId, node, step.id, failure);
+      if (!currentId) return;
+      continue;
     }
 
-    const nextNodeId = getNextNodeId(node, edges, context);
+    const nextNodeId = getNextNodeId(node, edges, conditionResult);
 
     await prisma.workflowStep.update({
       where: { id: step.id },
-      data: {
-        status: 'COMPLETED',
-        completedAt: new Date(),
-      },
+      data: reachedCap
+        ? {
+            status: 'SKIPPED',
+            output: {
+              reason: FREQUENCY_CAP_REASON,
+              max_messages: reachedCap.maxMessages,
+              period: reachedCap.period,
+            },
+            completedAt: new Date(),
+          }
+        : {
+            status: 'COMPLETED',
+            ...(actionOutput && { output: actionOutput as Prisma.InputJsonObject }),
+            completedAt: new Date(),
+          },
     });
 
     if (!nextNodeId) {
-      await prisma.workflowExecution.update({
-        where: { id: executionId },
-        data: {
-          status: 'COMPLETED',
-          completedAt: new Date(),
-          currentNodeId: null,
-        },
-      });
+      await finishBranch(executionId);
       return;
     }
 
@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { parseDuration } from './workflowUtils.js';
+
+export type ReEntryPolicy = 'never' | 'after_cooldown' | 'always';
+
+export type WorkflowSettings = {
+  reEntry: ReEntryPolicy;
+  reEntryCooldownMs: number | null;
+  maxConcurrentPerUser: number | null;
+  exitEvent: string | null;
+};
+
+// Why a user was not enrolled
+export type WorkflowEntryBlock = 're_entry' | 'cooldown' | 'concurrency_limit';
+
+const RE_ENTRY_POLICIES: ReEntryPolicy[] = ['never', 'after_cooldown', 'always'];
+
+/**
+ * Read Workflow.settings. Users may re-enter freely unless configured otherwise.
+ */
+export function parseWorkflowSettings(settings: unknown): WorkflowSettings {
+  const root = settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+  const reEntryCooldownMs = typeof root.re_entry_cooldown === 'string' ? parseDuration(root.re_entry_cooldown) : null;
+  const maxConcurrent = Number(root.max_concurrent_per_user);
+
+  let reEntry = RE_ENTRY_POLICIES.includes(root.re_entry as ReEntryPolicy) ? (root.re_entry as ReEntryPolicy) : 'always';
+  // A cooldown that cannot be read is treated as never re-entering
+  if (reEntry === 'after_cooldown' && !reEntryCooldownMs) {
+    reEntry = 'never';
+  }
+
+  return {
+    reEntry,
+    reEntryCooldownMs,
+    maxConcurrentPerUser: Number.isInteger(maxConcurrent) && maxConcurrent > 0 ? maxConcurrent : null,
+    exitEvent: typeof root.exit_event === 'string' && root.exit_event.length > 0 ? root.exit_event : null,
+  };
+}
+
+/**
+ * Hold a transaction-scoped lock on enrolling this user in this workflow, so
+ * concurrent triggers check the entry rules one at a time and each sees the
+ * executions the others created
+ */
+export async function lockWorkflowEntry(tx: Prisma.TransactionClient, workflowId: string, userId: string): Promise<void> {
+  await tx.$executeRaw(Prisma.sql`SELECT pg_advisory_xact_lock(hashtext(${workflowId}), hashtext(${userId}))`);
+}
+
+/**
+ * Check a workflow's re-entry and concurrency rules before enrolling a user.
+ * Run it under lockWorkflowEntry in the transaction that creates the execution.
+ * @returns The rule that blocks entry, or null if the user may enter
+ */
+export async function checkWorkflowEntry(
+  workflow: { id: string; settings: unknown },
+  userId: string,
+  now: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<WorkflowEntryBlock | null> {
+  const settings = parseWorkflowSettings(workflow.settings);
+
+  if (settings.reEntry !== 'always') {
+    const previous = await client.workflowExecution.findFirst({
+      where: {
+        workflowId: workflow.id,
+        userId,
+        ...(settings.reEntry === 'after_cooldown' && {
+          startedAt: { gte: new Date(now.getTime() - settings.reEntryCooldownMs!) },
+        }),
+      },
+      select: { id: true },
+    });
+
+    if (previous) {
+      return settings.reEntry === 'never' ? 're_entry' : 'cooldown';
+    }
+  }
+
+  if (settings.maxConcurrentPerUser !== null) {
+    const running = await client.workflowExecution.count({
+      where: { workflowId: workflow.id, userId, status: 'RUNNING' },
+    });
+
+    if (running >= settings.maxConcurrentPerUser) {
+      return 'concurrency_limit';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cancel the user's running executions of workflows whose exit event was
+ * tracked. Parked wait steps are skipped so the scheduler leaves them alone.
+ * @returns Number of executions cancelled
+ */
+export async function exitWorkflowExecutions(
+  workflows: Array<{ id: string; settings: unknown }>,
+  userId: string,
+  eventName: string
+): Promise<number> {
+  const workflowIds = workflows
+    .filter((workflow) => parseWorkflowSettings(workflow.settings).exitEvent === eventName)
+    .map((workflow) => workflow.id);
+
+  if (workflowIds.length === 0) return 0;
+
+  const executions = await prisma.workflowExecution.findMany({
+    where: { workflowId: { in: workflowIds }, userId, status: 'RUNNING' },
+    select: { id: true },
+  });
+
+  if (executions.length === 0) return 0;
+
+  const executionIds = executions.map((execution) => execution.id);
+  const now = new Date();
+
+  const cancelled = await prisma.workflowExecution.updateMany({
+    where: { id: { in: executionIds }, status: 'RUNNING' },
+    data: { status: 'CANCELLED', completedAt: now, currentNodeId: null },
+  });
+
+  await prisma.workflowStep.updateMany({
+    where: { executionId: { in: executionIds }, status: 'PENDING' },
+    data: {
+      status: 'SKIPPED',
+      output: { reason: 'exit_event', event_name: eventName },
+      completedAt: now,
+    },
+  });
+
+  return cancelled.count;
+}
@@ -0,0 +1,238 @@
+import { Prisma, type ExecutionStatus, type WorkflowExecution } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { continueExecution, resumeExecution } from './workflowEngine.js';
+import { loadExecutionGraph } from './workflowVersionService.js';
+import { isInsideParallelBranches, type WaitForEventOutcome } from './workflowUtils.js';
+
+export type ExecutionAuditAction = 'cancel' | 'retry' | 'skip_wait' | 'move';
+
+function invalidState(message: string): ApiError {
+  return new ApiError(409, 'Invalid execution state', 'INVALID_EXECUTION_STATE', message);
+}
+
+function requireStatus(execution: WorkflowExecution, statuses: ExecutionStatus[], action: string): void {
+  if (!statuses.includes(execution.status)) {
+    throw invalidState(`Cannot ${action} a ${execution.status.toLowerCase()} execution`);
+  }
+}
+
+async function audit(
+  executionId: string,
+  adminUserId: string | null,
+  action: ExecutionAuditAction,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  await prisma.workflowExecutionAudit.create({
+    data: { executionId, adminUserId, action, details: details as Prisma.InputJsonObject },
+  });
+}
+
+export async function requireExecution(workflowId: string, executionId: string): Promise<WorkflowExecution> {
+  const execution = await prisma.workflowExecution.findFirst({
+    where: { id: executionId, workflowId },
+  });
+
+  if (!execution) {
+    throw new ApiError(404, 'Execution not found', 'EXECUTION_NOT_FOUND');
+  }
+
+  return execution;
+}
+
+/**
+ * An execution with its step timeline and the operator actions taken on it
+ */
+export async function getExecutionDetail(workflowId: string, executionId: string) {
+  const execution = await prisma.workflowExecution.findFirst({
+    where: { id: executionId, workflowId },
+    include: {
+      steps: { orderBy: { startedAt: 'asc' } },
+      audits: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!execution) {
+    throw new ApiError(404, 'Execution not found', 'EXECUTION_NOT_FOUND');
+  }
+
+  return execution;
+}
+
+/**
+ * Stop a running execution; its parked waits are skipped
+ */
+export async function cancelExecution(execution: WorkflowExecution, adminUserId: string | null): Promise<void> {
+  requireStatus(execution, ['RUNNING'], 'cancel');
+  const now = new Date();
+
+  const cancelled = await prisma.workflowExecution.updateMany({
+    where: { id: execution.id, status: 'RUNNING' },
+    data: { status: 'CANCELLED', completedAt: now, currentNodeId: null },
+  });
+  if (cancelled.count === 0) {
+    throw invalidState('The execution stopped running');
+  }
+
+  await prisma.workflowStep.updateMany({
+    where: { executionId: execution.id, status: 'PENDING' },
+    data: {
+      status: 'SKIPPED',
+      output: { reason: 'cancelled' },
+      completedAt: now,
+    },
+  });
+
+  await audit(execution.id, adminUserId, 'cancel');
+}
+
+/**
+ * Run a failed execution's last failed step again and carry on from there.
+ * Waits parked on other parallel paths resume as usual; paths that were
+ * halted mid-way by the failure are not restarted.
+ */
+export async function retryExecution(execution: WorkflowExecution, adminUserId: string | null): Promise<void> {
+  requireStatus(execution, ['FAILED'], 'retry');
+
+  const step = await prisma.workflowStep.findFirst({
+    where: { executionId: execution.id, status: 'FAILED' },
+    orderBy: { startedAt: 'desc' },
+  });
+  if (!step) {
+    throw invalidState('The execution has no failed step');
+  }
+
+  const parked = await prisma.workflowStep.count({
+    where: { executionId: execution.id, status: 'PENDING' },
+  });
+
+  const reopened = await prisma.workflowExecution.updateMany({
+    where: { id: execution.id, status: 'FAILED' },
+    data: {
+      status: 'RUNNING',
+      errorMessage: null,
+      completedAt: null,
+      currentNodeId: step.nodeId,
+      activeBranches: parked + 1,
+    },
+  });
+  if (reopened.count === 0) {
+    throw invalidState('The execution is no longer failed');
+  }
+
+  await audit(execution.id, adminUserId, 'retry', { step_id: step.id, node_id: step.nodeId });
+  await continueExecution(execution.id, step.nodeId);
+}
+
+/**
+ * End a parked wait or wait_for_event step now instead of at its resumeAt.
+ * A wait_for_event continues down its `outcome` branch (timeout by default);
+ * a step waiting to be retried is retried now.
+ */
+export async function skipExecutionWait(
+  execution: WorkflowExecution,
+  options: { stepId?: string; outcome?: WaitForEventOutcome },
+  adminUserId: string | null
+): Promise<void> {
+  requireStatus(execution, ['RUNNING'], 'skip the wait of');
+
+  const parked = await prisma.workflowStep.findMany({
+    where: { executionId: execution.id, status: 'PENDING', ...(options.stepId && { id: options.stepId }) },
+    orderBy: { startedAt: 'asc' },
+  });
+
+  if (parked.length === 0) {
+    throw invalidState(options.stepId ? `Step ${options.stepId} is not waiting` : 'The execution is not waiting');
+  }
+  if (parked.length > 1) {
+    throw new ApiError(400, 'Step required', 'STEP_ID_REQUIRED', 'Several parallel paths are waiting; pass stepId');
+  }
+
+  const [step] = parked;
+  const isWait = step.action === 'wait' || step.action === 'wait_for_event';
+  const outcome: WaitForEventOutcome = step.action === 'wait_for_event' ? options.outcome ?? 'timeout' : 'timeout';
+
+  // Claimed the same way the scheduler claims due steps, so only one of them resumes it
+  const claimed = await prisma.workflowStep.updateMany({
+    where: { id: step.id, status: 'PENDING' },
+    data: {
+      status: isWait ? 'COMPLETED' : 'FAILED',
+      output: {
+        ...(step.output as Prisma.JsonObject | null),
+        ...(step.action === 'wait_for_event' && { outcome }),
+        skipped: true,
+      },
+      completedAt: new Date(),
+    },
+  });
+  if (claimed.count === 0) {
+    throw invalidState('The wait already ended');
+  }
+
+  await audit(execution.id, adminUserId, 'skip_wait', {
+    step_id: step.id,
+    node_id: step.nodeId,
+    ...(step.action === 'wait_for_event' && { outcome }),
+  });
+  await resumeExecution(execution.id, step.nodeId, outcome);
+}
+
+/**
+ * Continue a running or failed execution from any node of its pinned
+ * version. Parked waits are skipped, so the moved path is the only one left.
+ * Nodes between a fan_out and its join are refused: the moved path would
+ * reach the join alone. Joins only count arrivals made after the move.
+ */
+export async function moveExecution(
+  execution: WorkflowExecution,
+  nodeId: string,
+  adminUserId: string | null
+): Promise<void> {
+  requireStatus(execution, ['RUNNING', 'FAILED'], 'move');
+
+  const workflow = await prisma.workflow.findUniqueOrThrow({
+    where: { id: execution.workflowId },
+    select: { id: true, version: true, nodes: true, edges: true },
+  });
+  const { nodes, edges } = await loadExecutionGraph(workflow, execution.workflowVersion);
+
+  if (!nodes.some((node) => node.id === nodeId)) {
+    throw new ApiError(400, 'Invalid node', 'INVALID_NODE', `Node ${nodeId} is not in version ${execution.workflowVersion}`);
+  }
+  if (isInsideParallelBranches(nodeId, nodes, edges)) {
+    throw new ApiError(
+      400,
+      'Invalid node',
+      'INVALID_NODE',
+      `Node ${nodeId} is inside parallel branches; move to their fan_out or past their join`
+    );
+  }
+
+  // Skipped first so the scheduler cannot resume one of them alongside the moved path
+  await prisma.workflowStep.updateMany({
+    where: { executionId: execution.id, status: 'PENDING' },
+    data: {
+      status: 'SKIPPED',
+      output: { reason: 'moved', node_id: nodeId },
+      completedAt: new Date(),
+    },
+  });
+
+  const moved = await prisma.workflowExecution.updateMany({
+    where: { id: execution.id, status: execution.status },
+    data: {
+      status: 'RUNNING',
+      errorMessage: null,
+      completedAt: null,
+      currentNodeId: nodeId,
+      activeBranches: 1,
+      movedAt: new Date(),
+    },
+  });
+  if (moved.count === 0) {
+    throw invalidState('The execution changed while it was being moved');
+  }
+
+  await audit(execution.id, adminUserId, 'move', { from_node_id: execution.currentNodeId, node_id: nodeId });
+  await continueExecution(execution.id, nodeId);
+}
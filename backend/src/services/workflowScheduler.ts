@@ -1,83 +1,135 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
-import { continueExecution } from './workflowEngine.js';
+import { config } from '../config/index.js';
+import { resumeExecution } from './workflowEngine.js';
+import { runScheduledTriggers } from './workflowTriggerService.js';
 
 let schedulerHandle: NodeJS.Timeout | null = null;
 let isRunning = false;
 
-async function runSchedulerTick(): Promise<void> {
-  if (isRunning) return;
-  isRunning = true;
+type ClaimedStep = {
+  id: string;
+  execution_id: string;
+  node_id: string;
+  action: string;
+};
 
-  try {
-    const pendingSteps = await prisma.workflowStep.findMany({
-      where: {
-        status: 'PENDING',
-        action: 'wait',
-      },
-      include: {
-        execution: true,
-      },
-    });
+const STALLED_STEP_ERROR = 'Step did not finish in time';
 
-    const now = Date.now();
+/**
+ * Close a batch of parked steps that are due and return them. Rows locked by
+ * another instance are skipped, so each step is claimed exactly once. A step
+ * parked for a retry closes as the failed attempt it was.
+ */
+async function claimDueSteps(now: Date, batchSize: number): Promise<ClaimedStep[]> {
+  return prisma.$queryRaw<ClaimedStep[]>(Prisma.sql`
+    UPDATE workflow_steps
+    SET status = (CASE WHEN action IN ('wait', 'wait_for_event') THEN 'COMPLETED' ELSE 'FAILED' END)::"StepStatus",
+        completed_at = ${now},
+        output = CASE
+          WHEN action = 'wait_for_event' THEN COALESCE(output, '{}'::jsonb) || '{"outcome": "timeout"}'::jsonb
+          ELSE output
+        END
+    WHERE id IN (
+      SELECT id FROM workflow_steps
+      WHERE status = 'PENDING' AND resume_at <= ${now}
+      ORDER BY resume_at
+      LIMIT ${batchSize}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, execution_id, node_id, action
+  `);
+}
 
-    for (const step of pendingSteps) {
-      const output = (step.output ?? {}) as Record<string, any>;
-      const durationMs = typeof output.durationMs === 'number' ? output.durationMs : 0;
-      const startedAt = step.startedAt.getTime();
+/**
+ * Resume every parked wait / wait_for_event step whose resumeAt has passed
+ * @returns Number of steps resumed
+ */
+export async function runSchedulerTick(
+  now: Date = new Date(),
+  batchSize: number = config.workflows.schedulerBatchSize
+): Promise<number> {
+  if (isRunning) return 0;
+  isRunning = true;
 
-      if (startedAt + durationMs > now) {
-        continue;
-      }
+  let resumed = 0;
 
-      const workflow = await prisma.workflow.findUnique({
-        where: { id: step.execution.workflowId },
-      });
+  try {
+    let batch: ClaimedStep[];
 
-      if (!workflow) {
-        continue;
-      }
+    do {
+      batch = await claimDueSteps(now, batchSize);
 
-      const nodes = workflow.nodes as any[];
-      const edges = workflow.edges as { from: string; to: string }[];
-      const adjacency = new Map<string, string[]>();
-      edges.forEach((edge) => {
-        const list = adjacency.get(edge.from) ?? [];
-        list.push(edge.to);
-        adjacency.set(edge.from, list);
-      });
-      const nextNodeId = adjacency.get(step.nodeId)?.[0] ?? null;
-
-      await prisma.workflowStep.update({
-        where: { id: step.id },
-        data: {
-          status: 'COMPLETED',
-          completedAt: new Date(),
-        },
-      });
-
-      if (nextNodeId) {
-        await continueExecution(step.executionId, nextNodeId);
-      } else {
-        await prisma.workflowExecution.update({
-          where: { id: step.executionId },
-          data: {
-            status: 'COMPLETED',
-            completedAt: new Date(),
-            currentNodeId: null,
-          },
-        });
+      for (const step of batch) {
+        try {
+          await resumeExecution(step.execution_id, step.node_id, 'timeout');
+          resumed++;
+        } catch (error) {
+          console.error('[Workflow Scheduler] Failed to resume execution', step.execution_id, error);
+        }
       }
-    }
+    } while (batch.length === batchSize);
   } finally {
     isRunning = false;
   }
+
+  return resumed;
+}
+
+/**
+ * Fail steps still RUNNING after the step timeout, which the process running
+ * them can no longer finish (e.g. it crashed), along with their executions
+ * @returns Number of steps failed
+ */
+export async function failStalledSteps(
+  now: Date = new Date(),
+  timeoutMs: number = config.workflows.stepTimeoutMs
+): Promise<number> {
+  const stalled = await prisma.$queryRaw<Array<{ execution_id: string }>>(Prisma.sql`
+    UPDATE workflow_steps
+    SET status = 'FAILED',
+        completed_at = ${now},
+        error_message = ${STALLED_STEP_ERROR}
+    WHERE status = 'RUNNING' AND started_at <= ${new Date(now.getTime() - timeoutMs)}
+    RETURNING execution_id
+  `);
+
+  const executionIds = Array.from(new Set(stalled.map((step) => step.execution_id)));
+  if (executionIds.length > 0) {
+    await prisma.workflowExecution.updateMany({
+      where: { id: { in: executionIds }, status: 'RUNNING' },
+      data: { status: 'FAILED', errorMessage: STALLED_STEP_ERROR },
+    });
+  }
+
+  return stalled.length;
+}
+
+async function runSweepTick(): Promise<void> {
+  try {
+    await failStalledSteps();
+  } catch (error) {
+    console.error('[Workflow Scheduler] Stalled step sweep failed:', error);
+  }
+}
+
+async function runTriggerTick(): Promise<void> {
+  try {
+    await runScheduledTriggers();
+  } catch (error) {
+    console.error('[Workflow Scheduler] Trigger tick failed:', error);
+  }
 }
 
 export function startWorkflowScheduler(intervalMs: number = 30000): void {
   if (schedulerHandle) return;
-  schedulerHandle = setInterval(runSchedulerTick, intervalMs);
-  void runSchedulerTick();
+  const tick = async () => {
+    await runSchedulerTick().catch((error) => console.error('[Workflow Scheduler] Tick failed:', error));
+    await runSweepTick();
+    await runTriggerTick();
+  };
+  schedulerHandle = setInterval(() => void tick(), intervalMs);
+  void tick();
   console.log(`[Workflow Scheduler] Started (interval ${intervalMs}ms)`);
 }
 
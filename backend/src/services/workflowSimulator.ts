@@ -0,0 +1,178 @@
+import { renderTemplate } from '../lib/template.js';
+import type { SimulateWorkflowInput } from '../schemas/workflow.js';
+import { isWorkflowAction, previewWorkflowAction } from './workflowActions.js';
+import {
+  buildAdjacency,
+  buildWorkflowContext,
+  evaluateCondition,
+  findStartNode,
+  getJoinInputs,
+  getJoinMode,
+  getWaitForEventNextNodeId,
+  parseDuration,
+  type WorkflowEdge,
+  type WorkflowNode,
+} from './workflowUtils.js';
+
+export type SimulatedStep = {
+  nodeId: string;
+  type: string;
+  status: 'COMPLETED' | 'FAILED';
+  // Simulated time the node ran, after skipping over earlier waits
+  at: string;
+  output?: Record<string, unknown>;
+  error?: string;
+};
+
+export type SimulatedMessage = {
+  nodeId: string;
+  channel: 'message' | 'push';
+  title?: string;
+  body: string;
+};
+
+export type WorkflowSimulation = {
+  path: SimulatedStep[];
+  messages: SimulatedMessage[];
+  errors: Array<{ nodeId: string; message: string }>;
+  // Simulated time from the trigger to the last step
+  durationMs: number;
+};
+
+/**
+ * Walk a workflow graph the way the engine would for one user, without side
+ * effects: actions are rendered rather than run and waits are skipped over on
+ * a simulated clock. Parallel branches are walked one after another,
+ * frequency caps and entry rules are not applied, and event history
+ * conditions read input.eventCounts instead of the user's events.
+ */
+export function simulateWorkflow(
+  workflow: { appId: string; nodes: WorkflowNode[]; edges: WorkflowEdge[] },
+  input: SimulateWorkflowInput,
+  now: Date = new Date()
+): WorkflowSimulation {
+  const { nodes, edges } = workflow;
+  const adjacency = buildAdjacency(edges);
+  const context = buildWorkflowContext(input.userId, input.payload, input.user);
+  const action = { appId: workflow.appId, userId: input.userId, deviceId: null, context };
+
+  const simulation: WorkflowSimulation = { path: [], messages: [], errors: [], durationMs: 0 };
+  const joinArrivals = new Map<string, { count: number; clock: number }>();
+  let failed = false;
+
+  const at = (clock: number) => new Date(now.getTime() + clock).toISOString();
+
+  const record = (node: WorkflowNode, clock: number, output?: Record<string, unknown>) => {
+    simulation.path.push({ nodeId: node.id, type: node.type, status: 'COMPLETED', at: at(clock), output });
+    simulation.durationMs = Math.max(simulation.durationMs, clock);
+  };
+
+  // Like the engine, a failure ends the whole execution unless the node has
+  // an on_error branch. Retries are not simulated: a preview fails every time.
+  const fail = (node: WorkflowNode, clock: number, message: string): string | null => {
+    simulation.path.push({ nodeId: node.id, type: node.type, status: 'FAILED', at: at(clock), error: message });
+    simulation.errors.push({ nodeId: node.id, message });
+    const onError = node.branches?.on_error ?? null;
+    if (!onError) failed = true;
+    return onError;
+  };
+
+  const walk = (startNodeId: string, startClock: number): void => {
+    let currentId: string | null = startNodeId;
+    let clock = startClock;
+
+    while (currentId && !failed) {
+      const node = nodes.find((item) => item.id === currentId);
+      if (!node) return;
+
+      const next: string | null = adjacency.get(node.id)?.[0] ?? null;
+
+      if (node.type === 'fan_out') {
+        const branchIds = adjacency.get(node.id) ?? [];
+        record(node, clock, { branches: branchIds });
+        branchIds.forEach((branchId) => walk(branchId, clock));
+        return;
+      }
+
+      if (node.type === 'join') {
+        const mode = getJoinMode(node);
+        const expected = getJoinInputs(node.id, nodes, edges).length;
+        const previous = joinArrivals.get(node.id) ?? { count: 0, clock: 0 };
+        const arrival = { count: previous.count + 1, clock: Math.max(previous.clock, clock) };
+        const proceeds = mode === 'any' ? arrival.count === 1 : arrival.count >= expected;
+        joinArrivals.set(node.id, arrival);
+
+        // "all" continues once the slowest path has arrived
+        clock = mode === 'all' ? arrival.clock : clock;
+        record(node, clock, { mode, arrived: arrival.count, expected, proceeds });
+        if (!proceeds) return;
+        currentId = next;
+        continue;
+      }
+
+      if (node.type === 'wait') {
+        const durationMs = parseDuration((node.config?.duration as string) ?? '') ?? 0;
+        record(node, clock, { durationMs });
+        clock += durationMs;
+        currentId = next;
+        continue;
+      }
+
+      if (node.type === 'wait_for_event') {
+        const outcome = input.waitForEvent;
+        const durationMs = parseDuration((node.config?.timeout as string) ?? '') ?? 0;
+        record(node, clock, { event_name: node.config?.event_name ?? null, outcome });
+        // The event's arrival time is unknown, so only a timeout moves the clock
+        if (outcome === 'timeout') clock += durationMs;
+        currentId = getWaitForEventNextNodeId(node, edges, outcome);
+        continue;
+      }
+
+      if (node.type === 'condition') {
+        const result = evaluateCondition(node.config ?? {}, context, {
+          now: new Date(now.getTime() + clock),
+          countEvents: (condition) => input.eventCounts[condition.event_name] ?? 0,
+        });
+        record(node, clock, { result });
+        currentId = node.branches?.[result ? 'true' : 'false'] ?? next;
+        continue;
+      }
+
+      if (node.type === 'send_message') {
+        const body = renderTemplate((node.config?.body as string | undefined) ?? '', context);
+        simulation.messages.push({ nodeId: node.id, channel: 'message', body });
+        record(node, clock, { body });
+      } else if (isWorkflowAction(node.type)) {
+        let output: Record<string, unknown>;
+        try {
+          output = previewWorkflowAction(node, action);
+        } catch (error) {
+          currentId = fail(node, clock, error instanceof Error ? error.message : 'Action failed');
+          continue;
+        }
+
+        if (node.type === 'send_push') {
+          simulation.messages.push({
+            nodeId: node.id,
+            channel: 'push',
+            title: output.title as string | undefined,
+            body: output.body as string,
+          });
+        }
+        record(node, clock, output);
+      } else {
+        currentId = fail(node, clock, `Unknown node type "${node.type}"`);
+        continue;
+      }
+
+      currentId = next;
+    }
+  };
+
+  const startNode = findStartNode(nodes, edges);
+  if (startNode) {
+    walk(startNode.id, 0);
+  }
+
+  return simulation;
+}
@@ -1,5 +1,12 @@
 import { prisma } from '../lib/prisma.js';
-import { executeWorkflow } from './workflowEngine.js';
+import { executeWorkflow, resumeExecution } from './workflowEngine.js';
+import { config } from '../config/index.js';
+import { getNextCronRun } from '../lib/cron.js';
+import { isUserInSegment, resolveSegmentUserIds } from './segmentService.js';
+import { exitWorkflowExecutions } from './workflowEnrollmentService.js';
+import { eventMatchesFilters } from './workflowUtils.js';
+import { loadExecutionGraph } from './workflowVersionService.js';
+import { broadcastToApp } from './socketService.js';
 
 export type WorkflowEventPayload = {
   appId: string;
@@ -10,6 +17,132 @@ export type WorkflowEventPayload = {
   properties?: Record<string, any>;
 };
 
+export type WorkflowTriggerSubject = {
+  userId: string;
+  deviceId?: string | null;
+  // Becomes the execution context, available to {{placeholders}} and conditions
+  properties?: Record<string, any>;
+};
+
+// Triggers fired by something the user did, outside of tracked events
+export type UserActivityTriggerType = 'user_identified' | 'conversation_created' | 'message_received' | 'conversation_resolved';
+
+type WorkflowTriggerConfig = {
+  type?: string;
+  event_name?: string;
+  filters?: unknown;
+  segment_id?: string;
+  cron?: string;
+  timezone?: string;
+};
+
+export type WorkflowEnrollmentEvent = {
+  workflow_id: string;
+  status: 'enrolling' | 'completed';
+  total: number;
+  enrolled: number;
+  skipped: number;
+  // Users kept out by re-entry or concurrency rules, once completed
+  skipped_user_ids?: string[];
+};
+
+// Users processed between workflow:enrollment progress events
+const ENROLLMENT_PROGRESS_INTERVAL = 50;
+
+type TriggeredWorkflow = {
+  id: string;
+  appId: string;
+  trigger: unknown;
+  settings: unknown;
+};
+
+function getTrigger(workflow: { trigger: unknown }): WorkflowTriggerConfig {
+  return (workflow.trigger ?? {}) as WorkflowTriggerConfig;
+}
+
+/**
+ * Start an execution for a user unless the trigger's segment filter or the
+ * workflow's re-entry and concurrency rules keep them out
+ * @param checkSegment - False where segment_id names the audience rather than a filter
+ * @returns True if an execution was started
+ */
+async function enrollUser(
+  workflow: TriggeredWorkflow,
+  subject: WorkflowTriggerSubject,
+  checkSegment: boolean = true
+): Promise<boolean> {
+  try {
+    const { segment_id: segmentId } = getTrigger(workflow);
+    if (checkSegment && segmentId && !(await isUserInSegment(workflow.appId, segmentId, subject.userId))) {
+      return false;
+    }
+
+    return await executeWorkflow(
+      workflow.id,
+      {
+        userId: subject.userId,
+        deviceId: subject.deviceId ?? null,
+        payload: subject.properties ?? {},
+      },
+      { enforceEntryRules: true }
+    );
+  } catch (error) {
+    console.error('[Workflow Trigger] Failed to execute workflow', workflow.id, error);
+    return false;
+  }
+}
+
+/**
+ * Resume the user's executions parked on a wait_for_event node for this event
+ */
+async function resumeWaitingExecutions(payload: WorkflowEventPayload): Promise<void> {
+  const waiting = await prisma.workflowStep.findMany({
+    where: {
+      status: 'PENDING',
+      action: 'wait_for_event',
+      output: { path: ['event_name'], equals: payload.eventName },
+      execution: {
+        userId: payload.userId,
+        status: 'RUNNING',
+        workflow: { appId: payload.appId },
+      },
+    },
+    include: {
+      execution: { include: { workflow: true } },
+    },
+  });
+
+  for (const step of waiting) {
+    try {
+      const { nodes } = await loadExecutionGraph(step.execution.workflow, step.execution.workflowVersion);
+      const node = nodes.find((item) => item.id === step.nodeId);
+      if (!node || !eventMatchesFilters(node.config, payload.properties ?? {})) {
+        continue;
+      }
+
+      // The scheduler may have timed this step out since it was loaded
+      const claimed = await prisma.workflowStep.updateMany({
+        where: { id: step.id, status: 'PENDING' },
+        data: {
+          status: 'COMPLETED',
+          output: { ...(step.output as Record<string, any>), outcome: 'event' },
+          completedAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) continue;
+
+      await resumeExecution(step.executionId, step.nodeId, 'event');
+    } catch (error) {
+      console.error('[Workflow Trigger] Failed to resume execution', step.executionId, error);
+    }
+  }
+}
+
+/**
+ * Deliver a tracked event to active workflows: cancel executions whose exit
+ * event it is, resume executions waiting for it, then start the workflows it
+ * triggers where re-entry and concurrency rules allow
+ */
 export async function triggerWorkflows(payload: WorkflowEventPayload): Promise<void> {
   const workflows = await prisma.workflow.findMany({
     where: {
@@ -18,21 +151,209 @@ export async function triggerWorkflows(payload: WorkflowEventPayload): Promise<v
     },
   });
 
+  await exitWorkflowExecutions(workflows, payload.userId, payload.eventName);
+  await resumeWaitingExecutions(payload);
+
   const matching = workflows.filter((workflow) => {
-    const trigger = workflow.trigger as { type?: string; event_name?: string } | null;
-    if (!trigger) return false;
-    return trigger.type === 'event' && trigger.event_name === payload.eventName;
+    const trigger = getTrigger(workflow);
+    return trigger.type === 'event'
+      && trigger.event_name === payload.eventName
+      && eventMatchesFilters(trigger, payload.properties ?? {});
   });
 
   for (const workflow of matching) {
+    await enrollUser(workflow, {
+      userId: payload.userId,
+      deviceId: payload.deviceId ?? payload.sessionId ?? null,
+      properties: payload.properties,
+    });
+  }
+}
+
+/**
+ * Start workflows triggered by user activity. Never throws, so callers can
+ * fire and forget alongside their webhooks.
+ */
+export async function fireWorkflowTrigger(
+  appId: string,
+  type: UserActivityTriggerType,
+  subject: WorkflowTriggerSubject
+): Promise<void> {
+  try {
+    const workflows = await prisma.workflow.findMany({
+      where: {
+        appId,
+        status: 'ACTIVE',
+        trigger: { path: ['type'], equals: type },
+      },
+    });
+
+    for (const workflow of workflows) {
+      await enrollUser(workflow, subject);
+    }
+  } catch (error) {
+    console.error('[Workflow Trigger] Failed to fire trigger', type, error);
+  }
+}
+
+/**
+ * Enroll chosen users, e.g. from the admin API. Trigger conditions are
+ * skipped but re-entry and concurrency rules still apply.
+ * @param onProgress - Called every ENROLLMENT_PROGRESS_INTERVAL users while more remain
+ */
+export async function enrollUsers(
+  workflow: TriggeredWorkflow,
+  userIds: string[],
+  onProgress?: (progress: { enrolled: string[]; skipped: string[] }) => void
+): Promise<{ enrolled: string[]; skipped: string[] }> {
+  const enrolled: string[] = [];
+  const skipped: string[] = [];
+
+  for (const [index, userId] of userIds.entries()) {
+    if (await enrollUser(workflow, { userId }, false)) {
+      enrolled.push(userId);
+    } else {
+      skipped.push(userId);
+    }
+
+    const processed = index + 1;
+    if (onProgress && processed % ENROLLMENT_PROGRESS_INTERVAL === 0 && processed < userIds.length) {
+      onProgress({ enrolled, skipped });
+    }
+  }
+
+  return { enrolled, skipped };
+}
+
+/**
+ * Enroll chosen users in the background so the admin API can answer at once.
+ * Progress and the result are reported on the admin socket as workflow:enrollment.
+ */
+export function startEnrollment(workflow: TriggeredWorkflow, userIds: string[]): void {
+  const report = (status: WorkflowEnrollmentEvent['status'], result: { enrolled: string[]; skipped: string[] }) => {
+    const event: WorkflowEnrollmentEvent = {
+      workflow_id: workflow.id,
+      status,
+      total: userIds.length,
+      enrolled: result.enrolled.length,
+      skipped: result.skipped.length,
+      ...(status === 'completed' && { skipped_user_ids: result.skipped }),
+    };
+    broadcastToApp(workflow.appId, 'workflow:enrollment', event);
+  };
+
+  enrollUsers(workflow, userIds, (progress) => report('enrolling', progress))
+    .then((result) => report('completed', result))
+    .catch((error) => {
+      console.error('[Workflow Trigger] Background enrollment failed:', workflow.id, error);
+    });
+}
+
+/**
+ * Run schedule triggers whose next cron run is due, enrolling the members
+ * of their segment. A workflow without a next run is only scheduled.
+ */
+async function runScheduleTriggers(workflows: Array<TriggeredWorkflow & { nextRunAt: Date | null }>, now: Date): Promise<void> {
+  for (const workflow of workflows) {
+    const trigger = getTrigger(workflow);
+    if (workflow.nextRunAt && workflow.nextRunAt > now) continue;
+
+    // Claim the run so only one instance enrolls its audience
+    const claimed = await prisma.workflow.updateMany({
+      where: { id: workflow.id, nextRunAt: workflow.nextRunAt },
+      data: { nextRunAt: getNextCronRun(trigger.cron, now, trigger.timezone) },
+    });
+    if (claimed.count === 0 || !workflow.nextRunAt || !trigger.segment_id) continue;
+
+    for (const userId of await resolveSegmentUserIds(workflow.appId, trigger.segment_id)) {
+      await enrollUser(workflow, { userId }, false);
+    }
+  }
+}
+
+/**
+ * Compare a segment's members with the last snapshot and enroll users who
+ * entered or left it. The first check, or one after the segment went
+ * untracked for a while, only records a baseline.
+ */
+async function runSegmentTriggers(workflows: TriggeredWorkflow[], now: Date): Promise<void> {
+  const bySegment = new Map<string, TriggeredWorkflow[]>();
+  for (const workflow of workflows) {
+    const segmentId = getTrigger(workflow).segment_id;
+    if (segmentId) bySegment.set(segmentId, [...(bySegment.get(segmentId) ?? []), workflow]);
+  }
+
+  const interval = config.workflows.segmentTriggerIntervalMs;
+
+  for (const [segmentId, segmentWorkflows] of bySegment) {
     try {
-      await executeWorkflow(workflow.id, {
-        userId: payload.userId,
-        deviceId: payload.deviceId ?? payload.sessionId ?? null,
-        payload: payload.properties ?? {},
+      const { appId } = segmentWorkflows[0];
+      const segment = await prisma.segment.findFirst({
+        where: { id: segmentId, appId },
+        select: { triggerSnapshotAt: true },
+      });
+      if (!segment) continue;
+
+      const lastCheck = segment.triggerSnapshotAt;
+      if (lastCheck && lastCheck.getTime() > now.getTime() - interval) continue;
+
+      // Claim the check so only one instance diffs this segment
+      const claimed = await prisma.segment.updateMany({
+        where: { id: segmentId, triggerSnapshotAt: lastCheck },
+        data: { triggerSnapshotAt: now },
       });
+      if (claimed.count === 0) continue;
+
+      const current = new Set(await resolveSegmentUserIds(appId, segmentId));
+      const previous = new Set(
+        (await prisma.segmentTriggerMember.findMany({ where: { segmentId }, select: { userId: true } }))
+          .map((member) => member.userId)
+      );
+      const entered = [...current].filter((userId) => !previous.has(userId));
+      const exited = [...previous].filter((userId) => !current.has(userId));
+
+      if (entered.length > 0) {
+        await prisma.segmentTriggerMember.createMany({
+          data: entered.map((userId) => ({ segmentId, userId })),
+          skipDuplicates: true,
+        });
+      }
+      if (exited.length > 0) {
+        await prisma.segmentTriggerMember.deleteMany({ where: { segmentId, userId: { in: exited } } });
+      }
+
+      const isBaseline = !lastCheck || lastCheck.getTime() < now.getTime() - interval * 2;
+      if (isBaseline) continue;
+
+      for (const workflow of segmentWorkflows) {
+        const userIds = getTrigger(workflow).type === 'segment_entered' ? entered : exited;
+        for (const userId of userIds) {
+          await enrollUser(workflow, { userId }, false);
+        }
+      }
     } catch (error) {
-      console.error('[Workflow Trigger] Failed to execute workflow', workflow.id, error);
+      console.error('[Workflow Trigger] Failed to check segment', segmentId, error);
     }
   }
 }
+
+/**
+ * Fire time-based triggers: cron schedules and segment entry / exit
+ */
+export async function runScheduledTriggers(now: Date = new Date()): Promise<void> {
+  const workflows = await prisma.workflow.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: ['schedule', 'segment_entered', 'segment_exited'].map((type) => ({
+        trigger: { path: ['type'], equals: type },
+      })),
+    },
+    select: { id: true, appId: true, trigger: true, settings: true, nextRunAt: true },
+  });
+
+  const byType = (...types: string[]) =>
+    workflows.filter((workflow) => types.includes(getTrigger(workflow).type ?? ''));
+
+  await runScheduleTriggers(byType('schedule'), now);
+  await runSegmentTriggers(byType('segment_entered', 'segment_exited'), now);
+}
@@ -1,3 +1,6 @@
+import { renderTemplate } from '../lib/template.js';
+import { testSafeRegex } from '../lib/safeRegex.js';
+
 export type WorkflowNode = {
   id: string;
   type: string;
@@ -47,18 +50,88 @@ export function findStartNode(nodes: WorkflowNode[], edges: WorkflowEdge[]): Wor
   return candidate ?? nodes[0];
 }
 
-export function evaluateCondition(
-  config: Record<string, any> | undefined,
-  context: Record<string, any>
+export type EventHistoryCondition = {
+  type: 'event';
+  event_name: string;
+  within?: string;
+  operator?: string;
+  value?: number;
+};
+
+export type ConditionEvaluationOptions = {
+  now?: Date;
+  // How many events an event history condition matched, looked up beforehand
+  countEvents?: (condition: EventHistoryCondition) => number;
+};
+
+export function isConditionGroup(config: Record<string, any>): boolean {
+  return Array.isArray(config.conditions);
+}
+
+export function isEventHistoryCondition(config: Record<string, any>): config is EventHistoryCondition {
+  return config.type === 'event';
+}
+
+/**
+ * Look up a field in the context: an exact key first, so flat keys that
+ * contain dots keep working, then a dotted path such as "user.attributes.plan"
+ */
+export function resolveConditionField(context: Record<string, any>, field: string): unknown {
+  if (field in context) return context[field];
+
+  let value: unknown = context;
+  for (const key of field.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null;
+  const time = value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function compareCount(count: number, operator: string, value: number): boolean {
+  switch (operator) {
+    case 'eq':
+      return count === value;
+    case 'neq':
+      return count !== value;
+    case 'gt':
+      return count > value;
+    case 'gte':
+      return count >= value;
+    case 'lt':
+      return count < value;
+    case 'lte':
+      return count <= value;
+    default:
+      return false;
+  }
+}
+
+function evaluateEventHistoryCondition(
+  condition: EventHistoryCondition,
+  countEvents: ConditionEvaluationOptions['countEvents']
 ): boolean {
-  if (!config) return false;
+  const count = countEvents?.(condition) ?? 0;
+  const operator = condition.operator ?? 'exists';
+
+  if (operator === 'exists') return count > 0;
+  if (operator === 'not_exists') return count === 0;
+  return typeof condition.value === 'number' && compareCount(count, operator, condition.value);
+}
+
+function evaluateFieldCondition(config: Record<string, any>, context: Record<string, any>, now: Date): boolean {
   const field = config.field as string | undefined;
   const operator = (config.operator as string | undefined)?.toLowerCase();
   const value = config.value;
 
   if (!field || !operator) return false;
 
-  const actual = context[field];
+  const actual = resolveConditionField(context, field);
 
   switch (operator) {
     case 'eq':
@@ -74,8 +147,381 @@ export function evaluateCondition(
     case 'lte':
       return typeof actual === 'number' && actual <= value;
     case 'contains':
+      if (Array.isArray(actual)) return actual.includes(value);
       return typeof actual === 'string' && typeof value === 'string' && actual.includes(value);
+    case 'in':
+      return Array.isArray(value) && value.includes(actual);
+    case 'not_in':
+      return Array.isArray(value) && !value.includes(actual);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'not_exists':
+      return actual === undefined || actual === null;
+    case 'matches':
+      return typeof actual === 'string' && typeof value === 'string' && testSafeRegex(value, actual);
+    // The field holds a date no more than / more than a duration before now
+    case 'within_last':
+    case 'older_than': {
+      const time = toTimestamp(actual);
+      const durationMs = typeof value === 'string' ? parseDuration(value) : null;
+      if (time === null || durationMs === null) return false;
+      const cutoff = now.getTime() - durationMs;
+      return operator === 'within_last' ? time >= cutoff : time < cutoff;
+    }
     default:
       return false;
   }
 }
+
+/**
+ * Evaluate a condition: a field comparison, an event history lookup or an
+ * AND/OR group of conditions, nested the way segment queries are
+ */
+export function evaluateCondition(
+  config: Record<string, any> | undefined,
+  context: Record<string, any>,
+  options: ConditionEvaluationOptions = {}
+): boolean {
+  if (!config) return false;
+
+  if (isConditionGroup(config)) {
+    const conditions = config.conditions as Record<string, any>[];
+    if (conditions.length === 0) return false;
+    return config.operator === 'OR'
+      ? conditions.some((condition) => evaluateCondition(condition, context, options))
+      : conditions.every((condition) => evaluateCondition(condition, context, options));
+  }
+
+  if (isEventHistoryCondition(config)) {
+    return evaluateEventHistoryCondition(config, options.countEvents);
+  }
+
+  return evaluateFieldCondition(config, context, options.now ?? new Date());
+}
+
+/**
+ * Every event history condition in a condition tree, so their counts can be
+ * looked up before the tree is evaluated
+ */
+export function collectEventHistoryConditions(config: Record<string, any> | undefined): EventHistoryCondition[] {
+  if (!config) return [];
+  if (isConditionGroup(config)) {
+    return (config.conditions as Record<string, any>[]).flatMap(collectEventHistoryConditions);
+  }
+  return isEventHistoryCondition(config) ? [config] : [];
+}
+
+// Top-level variables of a workflow's execution context, see buildWorkflowContext
+export const WORKFLOW_TEMPLATE_VARIABLES = ['userId', 'user', 'event'] as const;
+
+/**
+ * Execution context available to templates and conditions: the trigger's
+ * properties under `event` and the user's profile under `user`. Properties
+ * are also copied to the top level, where flat {{key}} templates find them.
+ */
+export function buildWorkflowContext(
+  userId: string,
+  payload: Record<string, any> = {},
+  profile: Record<string, any> = {}
+): Record<string, any> {
+  return {
+    userId,
+    ...payload,
+    user: { ...profile, id: userId },
+    event: payload,
+  };
+}
+
+/**
+ * Render every string inside a JSON value, e.g. a webhook body or event properties
+ */
+export function renderTemplateValue(value: unknown, context: Record<string, any>): unknown {
+  if (typeof value === 'string') return renderTemplate(value, context);
+  if (Array.isArray(value)) return value.map((item) => renderTemplateValue(item, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplateValue(item, context)])
+    );
+  }
+  return value;
+}
+
+// Nodes whose next step may come from `branches` rather than their edge.
+// Every node may also have `branches.on_error`, taken once its step fails.
+const BRANCHING_NODE_TYPES = new Set(['condition', 'wait_for_event']);
+
+export type WaitForEventOutcome = 'event' | 'timeout';
+
+/**
+ * Check an event's properties against a wait_for_event node's filters
+ */
+export function eventMatchesFilters(config: Record<string, any> | undefined, properties: Record<string, any>): boolean {
+  const filters = Array.isArray(config?.filters) ? (config.filters as Record<string, any>[]) : [];
+  return filters.every((filter) => evaluateCondition(filter, properties));
+}
+
+/**
+ * Where a wait_for_event node resumes: branches.event (or its edge) once the
+ * event arrives, branches.timeout otherwise. A timeout with no timeout branch
+ * ends the path.
+ */
+export function getWaitForEventNextNodeId(
+  node: WorkflowNode,
+  edges: WorkflowEdge[],
+  outcome: WaitForEventOutcome
+): string | null {
+  if (outcome === 'timeout') {
+    return node.branches?.timeout ?? null;
+  }
+
+  return node.branches?.event ?? buildAdjacency(edges).get(node.id)?.[0] ?? null;
+}
+
+export type JoinMode = 'all' | 'any';
+
+export type WorkflowGraphError = {
+  // Location in the request body, e.g. "edges[2].to" or "nodes[0].branches.true"
+  path: string;
+  message: string;
+};
+
+export function getJoinMode(node: WorkflowNode): JoinMode {
+  return node.config?.mode === 'any' ? 'any' : 'all';
+}
+
+/**
+ * Successors of each node through its edges and branches, the links a path
+ * may follow. Each successor is listed once per node.
+ */
+function collectLinks(nodes: WorkflowNode[], edges: WorkflowEdge[]): Map<string, string[]> {
+  const links = new Map<string, string[]>();
+  const addLink = (from: string, to: string) => {
+    const list = links.get(from) ?? [];
+    if (!list.includes(to)) links.set(from, [...list, to]);
+  };
+
+  edges.forEach((edge) => addLink(edge.from, edge.to));
+  for (const node of nodes) {
+    for (const [key, target] of Object.entries(node.branches ?? {})) {
+      if (typeof target !== 'string') continue;
+      if (key === 'on_error' || BRANCHING_NODE_TYPES.has(node.type)) addLink(node.id, target);
+    }
+  }
+
+  return links;
+}
+
+/**
+ * The nodes with an edge or branch into a join. In "all" mode the join waits
+ * for an arrival over each of them.
+ */
+export function getJoinInputs(joinId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): string[] {
+  const inputs: string[] = [];
+  for (const [from, targets] of collectLinks(nodes, edges)) {
+    if (targets.includes(joinId)) inputs.push(from);
+  }
+  return inputs;
+}
+
+function reachableFrom(start: string, links: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>();
+  const stack = [start];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(links.get(id) ?? []));
+  }
+  return seen;
+}
+
+/**
+ * The fan_out whose branches a join merges: every input of the join comes
+ * down a different one of its branches. Inputs that share a branch, or come
+ * from no fan_out at all, are alternatives (e.g. a condition's true and false
+ * branches), so an "all" join after them would never see them all arrive.
+ * @returns The fan_out node ID, or null if there is none
+ */
+function findMergedFanOut(joinId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): string | null {
+  const links = collectLinks(nodes, edges);
+  const inputs = getJoinInputs(joinId, nodes, edges);
+
+  const fanOut = nodes.find((candidate) => {
+    if (candidate.type !== 'fan_out') return false;
+
+    const branchReach = (buildAdjacency(edges).get(candidate.id) ?? []).map((start) => ({
+      start,
+      nodes: start === joinId ? new Set<string>() : reachableFrom(start, links),
+    }));
+    const used = new Set<string>();
+
+    return inputs.every((input) => {
+      const branches = branchReach.filter((branch) =>
+        input === candidate.id ? branch.start === joinId : branch.nodes.has(input)
+      );
+      if (branches.length !== 1 || used.has(branches[0].start)) return false;
+      used.add(branches[0].start);
+      return true;
+    });
+  });
+
+  return fanOut?.id ?? null;
+}
+
+/**
+ * Whether a node lies on the branches of a fan_out before the join that
+ * merges them, or is that join. A path started there would reach the join
+ * without the other branches.
+ */
+export function isInsideParallelBranches(nodeId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): boolean {
+  const links = collectLinks(nodes, edges);
+  const downstream = reachableFrom(nodeId, links);
+
+  return nodes.some((join) => {
+    if (join.type !== 'join' || !downstream.has(join.id)) return false;
+    const fanOutId = findMergedFanOut(join.id, nodes, edges);
+    return fanOutId !== null && fanOutId !== nodeId && reachableFrom(fanOutId, links).has(nodeId);
+  });
+}
+
+/**
+ * Check that nodes and edges form a runnable graph: unique node IDs, no
+ * dangling edges or branch targets, a single start node that reaches every
+ * node, no cycles, and multiple successors only on fan_out (or through
+ * condition, wait_for_event and on_error branches). Join nodes need at
+ * least two incoming paths, each from a different branch of one fan_out.
+ * Node configs are checked separately by validateWorkflowNodeConfigs.
+ * @returns Errors, empty when the graph is valid
+ */
+export function validateWorkflowGraph(nodes: unknown, edges: unknown): WorkflowGraphError[] {
+  const errors: WorkflowGraphError[] = [];
+
+  if (!Array.isArray(nodes) || nodes.length === 0) {
+    return [{ path: 'nodes', message: 'nodes must be a non-empty array' }];
+  }
+  if (!Array.isArray(edges)) {
+    return [{ path: 'edges', message: 'edges must be an array' }];
+  }
+
+  const indexById = new Map<string, number>();
+  nodes.forEach((node, index) => {
+    const { id, type } = (node ?? {}) as Partial<WorkflowNode>;
+    if (typeof id !== 'string' || id.length === 0) {
+      errors.push({ path: `nodes[${index}].id`, message: 'Node id is required' });
+      return;
+    }
+    if (typeof type !== 'string' || type.length === 0) {
+      errors.push({ path: `nodes[${index}].type`, message: `Node "${id}" has no type` });
+    }
+    if (indexById.has(id)) {
+      errors.push({ path: `nodes[${index}].id`, message: `Duplicate node id "${id}"` });
+      return;
+    }
+    indexById.set(id, index);
+  });
+
+  // Successors per node, each with the location that declared it
+  const successors = new Map<string, Array<{ to: string; path: string }>>();
+  const incoming = new Map<string, number>();
+  const addLink = (from: string, to: string, path: string) => {
+    successors.set(from, [...(successors.get(from) ?? []), { to, path }]);
+    incoming.set(to, (incoming.get(to) ?? 0) + 1);
+  };
+
+  edges.forEach((edge, index) => {
+    const { from, to } = (edge ?? {}) as Partial<WorkflowEdge>;
+    let valid = true;
+    for (const [key, value] of [['from', from], ['to', to]] as const) {
+      if (typeof value !== 'string' || !indexById.has(value)) {
+        errors.push({ path: `edges[${index}].${key}`, message: `Edge ${key} references unknown node "${value}"` });
+        valid = false;
+      }
+    }
+    if (valid) addLink(from!, to!, `edges[${index}]`);
+  });
+
+  nodes.forEach((node, index) => {
+    const { id, type, branches } = (node ?? {}) as Partial<WorkflowNode>;
+    if (typeof id !== 'string' || indexById.get(id) !== index) return;
+
+    const branchTargets = new Set<string>();
+    if (branches && typeof branches === 'object') {
+      for (const [key, target] of Object.entries(branches)) {
+        // Any node may have an on_error branch; other branches belong to branching nodes
+        if (key !== 'on_error' && !BRANCHING_NODE_TYPES.has(type as string)) continue;
+        if (typeof target !== 'string' || !indexById.has(target)) {
+          errors.push({ path: `nodes[${index}].branches.${key}`, message: `Branch references unknown node "${target}"` });
+          continue;
+        }
+        branchTargets.add(target);
+        // An edge to a branch target already counts it as a successor
+        if (!(successors.get(id) ?? []).some((link) => link.to === target)) {
+          addLink(id, target, `nodes[${index}].branches.${key}`);
+        }
+      }
+    }
+
+    const edgeCount = (successors.get(id) ?? []).filter((link) => !branchTargets.has(link.to)).length;
+    if (type === 'fan_out' && edgeCount < 2) {
+      errors.push({ path: `nodes[${index}]`, message: `fan_out node "${id}" needs at least 2 outgoing edges` });
+    } else if (type !== 'fan_out' && edgeCount > 1) {
+      errors.push({
+        path: `nodes[${index}]`,
+        message: `Node "${id}" has ${edgeCount} outgoing edges; use a fan_out node to run paths in parallel`,
+      });
+    }
+  });
+
+  if (errors.length > 0) return errors;
+
+  const graphNodes = nodes as WorkflowNode[];
+  const graphEdges = edges as WorkflowEdge[];
+  graphNodes.forEach((node, index) => {
+    if (node.type !== 'join') return;
+    if (getJoinInputs(node.id, graphNodes, graphEdges).length < 2) {
+      errors.push({ path: `nodes[${index}]`, message: `join node "${node.id}" needs at least 2 incoming edges` });
+    } else if (findMergedFanOut(node.id, graphNodes, graphEdges) === null) {
+      errors.push({
+        path: `nodes[${index}]`,
+        message: `join node "${node.id}" must merge separate branches of a fan_out node`,
+      });
+    }
+  });
+
+  if (errors.length > 0) return errors;
+
+  const ids = Array.from(indexById.keys());
+  const roots = ids.filter((id) => !incoming.has(id));
+  if (roots.length === 0) {
+    return [{ path: 'nodes', message: 'Workflow has no start node (every node has an incoming edge)' }];
+  }
+
+  // Depth-first search from the start node: a link back to a node on the
+  // current path closes a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const link of successors.get(id) ?? []) {
+      const targetState = state.get(link.to);
+      if (targetState === 'visiting') {
+        errors.push({ path: link.path, message: `Link from "${id}" to "${link.to}" creates a cycle` });
+      } else if (!targetState) {
+        visit(link.to);
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  visit(roots[0]);
+
+  for (const id of ids) {
+    if (!state.has(id)) {
+      errors.push({
+        path: `nodes[${indexById.get(id)}]`,
+        message: `Node "${id}" is not reachable from the start node "${roots[0]}"`,
+      });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { WorkflowEdge, WorkflowNode } from './workflowUtils.js';
+
+export type WorkflowDefinition = {
+  trigger: unknown;
+  nodes: unknown;
+  edges: unknown;
+  settings: unknown;
+};
+
+export type WorkflowVersionDiff = {
+  nodes: {
+    added: WorkflowNode[];
+    removed: WorkflowNode[];
+    changed: Array<{ id: string; from: WorkflowNode; to: WorkflowNode }>;
+  };
+  edges: {
+    added: WorkflowEdge[];
+    removed: WorkflowEdge[];
+  };
+  // Present only when the value differs between the versions
+  trigger?: { from: unknown; to: unknown };
+  settings?: { from: unknown; to: unknown };
+};
+
+function isSameJson(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+export async function requireWorkflowVersion(workflowId: string, version: unknown) {
+  const number = Number(version);
+  const found = Number.isInteger(number)
+    ? await prisma.workflowVersion.findUnique({
+        where: { workflowId_version: { workflowId, version: number } },
+      })
+    : null;
+
+  if (!found) {
+    throw new ApiError(404, 'Workflow version not found', 'WORKFLOW_VERSION_NOT_FOUND');
+  }
+
+  return found;
+}
+
+/**
+ * Nodes and edges of the version an execution started on, so edits to the
+ * workflow do not move running executions onto a different graph
+ */
+export async function loadExecutionGraph(
+  workflow: { id: string; version: number; nodes: unknown; edges: unknown },
+  version: number
+): Promise<{ nodes: WorkflowNode[]; edges: WorkflowEdge[] }> {
+  const source = version === workflow.version
+    ? workflow
+    : await prisma.workflowVersion.findUnique({
+        where: { workflowId_version: { workflowId: workflow.id, version } },
+        select: { nodes: true, edges: true },
+      });
+
+  // Executions from before versions were stored fall back to the current graph
+  const graph = source ?? workflow;
+
+  return {
+    nodes: graph.nodes as unknown as WorkflowNode[],
+    edges: graph.edges as unknown as WorkflowEdge[],
+  };
+}
+
+/**
+ * Compare two workflow definitions. Nodes are matched by id and edges by
+ * their endpoints.
+ */
+export function diffWorkflowDefinitions(from: WorkflowDefinition, to: WorkflowDefinition): WorkflowVersionDiff {
+  const fromNodes = new Map((from.nodes as WorkflowNode[]).map((node) => [node.id, node]));
+  const toNodes = new Map((to.nodes as WorkflowNode[]).map((node) => [node.id, node]));
+  const edgeKey = (edge: WorkflowEdge) => `${edge.from}->${edge.to}`;
+  const fromEdges = new Set((from.edges as WorkflowEdge[]).map(edgeKey));
+  const toEdges = new Set((to.edges as WorkflowEdge[]).map(edgeKey));
+
+  const diff: WorkflowVersionDiff = {
+    nodes: {
+      added: [...toNodes.values()].filter((node) => !fromNodes.has(node.id)),
+      removed: [...fromNodes.values()].filter((node) => !toNodes.has(node.id)),
+      changed: [...toNodes.values()].flatMap((node) => {
+        const previous = fromNodes.get(node.id);
+        return previous && !isSameJson(previous, node) ? [{ id: node.id, from: previous, to: node }] : [];
+      }),
+    },
+    edges: {
+      added: (to.edges as WorkflowEdge[]).filter((edge) => !fromEdges.has(edgeKey(edge))),
+      removed: (from.edges as WorkflowEdge[]).filter((edge) => !toEdges.has(edgeKey(edge))),
+    },
+  };
+
+  if (!isSameJson(from.trigger, to.trigger)) {
+    diff.trigger = { from: from.trigger, to: to.trigger };
+  }
+  if (!isSameJson(from.settings, to.settings)) {
+    diff.settings = { from: from.settings, to: to.settings };
+  }
+
+  return diff;
+}
+
+/**
+ * Run a save that creates the next version. Two concurrent saves both pick
+ * version + 1 and the unique (workflowId, version) key rejects the second,
+ * which is a conflict for the client to resolve rather than a server error.
+ */
+export async function saveNextVersion<T>(save: () => Promise<T>): Promise<T> {
+  try {
+    return await save();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApiError(
+        409,
+        'Workflow was changed',
+        'WORKFLOW_VERSION_CONFLICT',
+        'Another change saved a new version first; reload the workflow and try again'
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Restore an earlier version's definition. History stays immutable: the
+ * restored definition is saved as a new version.
+ * @returns The new current version number
+ */
+export async function rollbackWorkflow(
+  workflow: { id: string; version: number },
+  targetVersion: unknown,
+  userId: string | null
+): Promise<number> {
+  const target = await requireWorkflowVersion(workflow.id, targetVersion);
+  const version = workflow.version + 1;
+  const definition = {
+    trigger: target.trigger as Prisma.InputJsonValue,
+    nodes: target.nodes as Prisma.InputJsonValue,
+    edges: target.edges as Prisma.InputJsonValue,
+    settings: target.settings as Prisma.InputJsonValue,
+  };
+
+  await saveNextVersion(() =>
+    prisma.workflow.update({
+      where: { id: workflow.id },
+      data: {
+        ...definition,
+        // The restored trigger's schedule starts over, as when a PUT changes it
+        nextRunAt: null,
+        version,
+        versions: { create: { version, ...definition, createdBy: userId } },
+      },
+    })
+  );
+
+  return version;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { autoAssignConversation, parseAssignmentSettings } from '../services/assignmentService.js';
+import { prisma } from '../lib/prisma.js';
+import { broadcastToApp } from '../services/socketService.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    app: {
+      findUnique: vi.fn(),
+    },
+    adminUser: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    conversation: {
+      groupBy: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/socketService.js', () => ({
+  broadcastToApp: vi.fn(),
+}));
+
+vi.mock('../services/webhookDispatchService.js', () => ({
+  dispatchWebhook: vi.fn(),
+}));
+
+describe('assignmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.conversation.updateMany).mockResolvedValue({ count: 1 } as any);
+    vi.mocked(prisma.conversation.findUnique).mockResolvedValue({ userId: 'user_1', deviceId: 'device_1' } as any);
+  });
+
+  describe('parseAssignmentSettings', () => {
+    it('should default to round-robin across all agents', () => {
+      expect(parseAssignmentSettings({})).toEqual({ strategy: 'round_robin', agentIds: null });
+    });
+
+    it('should ignore unknown strategies', () => {
+      expect(parseAssignmentSettings({ assignment: { strategy: 'random' } }).strategy).toBe('round_robin');
+    });
+
+    it('should read strategy and agent pool', () => {
+      const settings = parseAssignmentSettings({
+        assignment: { strategy: 'least_busy', agent_ids: ['a', 42, 'b'] },
+      });
+      expect(settings).toEqual({ strategy: 'least_busy', agentIds: ['a', 'b'] });
+    });
+  });
+
+  describe('autoAssignConversation', () => {
+    it('should assign the least recently assigned agent for round-robin', async () => {
+      vi.mocked(prisma.app.findUnique).mockResolvedValue({ settings: {} } as any);
+      vi.mocked(prisma.adminUser.findMany).mockResolvedValue([{ id: 'agent_idle' }, { id: 'agent_recent' }] as any);
+
+      const result = await autoAssignConversation('app_1', 'conv_1');
+
+      expect(result?.assignee_id).toBe('agent_idle');
+      expect(result?.reason).toBe('auto');
+      expect(prisma.conversation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'conv_1', appId: 'app_1', assigneeId: null },
+        data: expect.objectContaining({ assigneeId: 'agent_idle' }),
+      });
+      expect(broadcastToApp).toHaveBeenCalledWith('app_1', 'conversation:assigned', result);
+    });
+
+    it('should pick the agent with the fewest open conversations for least-busy', async () => {
+      vi.mocked(prisma.app.findUnique).mockResolvedValue({
+        settings: { assignment: { strategy: 'least_busy' } },
+      } as any);
+      vi.mocked(prisma.adminUser.findMany).mockResolvedValue([{ id: 'agent_a' }, { id: 'agent_b' }] as any);
+      vi.mocked(prisma.conversation.groupBy).mockResolvedValue([
+        { assigneeId: 'agent_a', _count: { id: 4 } },
+        { assigneeId: 'agent_b', _count: { id: 1 } },
+      ] as any);
+
+      const result = await autoAssignConversation('app_1', 'conv_1');
+
+      expect(result?.assignee_id).toBe('agent_b');
+    });
+
+    it('should not assign when the app routes manually', async () => {
+      vi.mocked(prisma.app.findUnique).mockResolvedValue({
+        settings: { assignment: { strategy: 'manual' } },
+      } as any);
+
+      const result = await autoAssignConversation('app_1', 'conv_1');
+
+      expect(result).toBeNull();
+      expect(prisma.conversation.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not announce when another message already claimed the conversation', async () => {
+      vi.mocked(prisma.app.findUnique).mockResolvedValue({ settings: {} } as any);
+      vi.mocked(prisma.adminUser.findMany).mockResolvedValue([{ id: 'agent_a' }] as any);
+      vi.mocked(prisma.conversation.updateMany).mockResolvedValue({ count: 0 } as any);
+
+      const result = await autoAssignConversation('app_1', 'conv_1');
+
+      expect(result).toBeNull();
+      expect(broadcastToApp).not.toHaveBeenCalled();
+      expect(prisma.adminUser.update).not.toHaveBeenCalled();
+    });
+  });
+});
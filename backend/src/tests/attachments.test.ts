@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LocalDiskStorage } from '../lib/storage.js';
+import {
+  completeAttachmentUpload,
+  normalizeAttachmentIds,
+  resolveMessageAttachments,
+  validateAttachmentInput,
+} from '../services/attachmentService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    attachment: {
+      findFirst: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/conversationService.js', () => ({
+  getConversationForDevice: vi.fn().mockResolvedValue({ id: 'conv_1' }),
+}));
+
+function parseSignedUrl(url: string) {
+  const [path, query] = url.split('?');
+  const params = new URLSearchParams(query);
+  return {
+    key: decodeURIComponent(path.replace(/^.*?\/files\//, '')),
+    expires: params.get('expires')!,
+    signature: params.get('signature')!,
+  };
+}
+
+describe('attachments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('LocalDiskStorage signed URLs', () => {
+    const storage = new LocalDiskStorage('/tmp/replyhq-test-uploads');
+
+    it('should accept its own upload signature', () => {
+      const upload = storage.createUploadUrl('app_1/conv_1/att_1/photo.png', {
+        mimeType: 'image/png',
+        sizeBytes: 1024,
+        expiresInSeconds: 60,
+      });
+      const { key, expires, signature } = parseSignedUrl(upload.url);
+
+      expect(upload.headers['Content-Type']).toBe('image/png');
+      expect(storage.verifySignature('PUT', key, expires, signature)).toBe(true);
+    });
+
+    it('should reject a signature used for another method or key', () => {
+      const download = storage.createDownloadUrl('app_1/conv_1/att_1/photo.png', {
+        fileName: 'photo.png',
+        mimeType: 'image/png',
+        expiresInSeconds: 60,
+      });
+      const { key, expires, signature } = parseSignedUrl(download.url);
+
+      expect(storage.verifySignature('PUT', key, expires, signature)).toBe(false);
+      expect(storage.verifySignature('GET', 'app_2/conv_1/att_1/photo.png', expires, signature)).toBe(false);
+    });
+
+    it('should reject expired URLs', () => {
+      const upload = storage.createUploadUrl('app_1/conv_1/att_1/photo.png', {
+        mimeType: 'image/png',
+        sizeBytes: 1024,
+        expiresInSeconds: -1,
+      });
+      const { key, expires, signature } = parseSignedUrl(upload.url);
+
+      expect(storage.verifySignature('PUT', key, expires, signature)).toBe(false);
+    });
+  });
+
+  describe('validateAttachmentInput', () => {
+    it('should reject disallowed MIME types', () => {
+      expect(() => validateAttachmentInput({
+        file_name: 'run.sh',
+        mime_type: 'application/x-sh',
+        size_bytes: 10,
+      })).toThrowError(expect.objectContaining({ code: 'UNSUPPORTED_MEDIA_TYPE' }));
+    });
+
+    it('should reject files over the size limit', () => {
+      expect(() => validateAttachmentInput({
+        file_name: 'huge.png',
+        mime_type: 'image/png',
+        size_bytes: 500 * 1024 * 1024,
+      })).toThrowError(expect.objectContaining({ code: 'ATTACHMENT_TOO_LARGE' }));
+    });
+  });
+
+  describe('resolveMessageAttachments', () => {
+    const tx = prisma as any;
+
+    it('should claim attachments for the message in one conditional update', async () => {
+      vi.mocked(prisma.attachment.updateMany).mockResolvedValue({ count: 2 });
+
+      await resolveMessageAttachments(tx, 'conv_1', 'msg_1', ['att_1', 'att_2']);
+
+      expect(prisma.attachment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['att_1', 'att_2'] }, conversationId: 'conv_1', status: 'uploaded', messageId: null },
+        data: { messageId: 'msg_1' },
+      });
+    });
+
+    it('should reject attachments that are not uploaded to this conversation or already claimed', async () => {
+      vi.mocked(prisma.attachment.updateMany).mockResolvedValue({ count: 1 });
+
+      await expect(resolveMessageAttachments(tx, 'conv_1', 'msg_1', ['att_1', 'att_2']))
+        .rejects.toMatchObject({ code: 'INVALID_ATTACHMENTS' });
+    });
+
+    it('should skip the claim for messages without attachments', async () => {
+      await resolveMessageAttachments(tx, 'conv_1', 'msg_1', []);
+      expect(prisma.attachment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should dedupe IDs and enforce the per-message limit', () => {
+      expect(normalizeAttachmentIds(['att_1', 'att_1'])).toEqual(['att_1']);
+      expect(() => normalizeAttachmentIds(Array.from({ length: 50 }, (_, i) => `att_${i}`)))
+        .toThrowError(expect.objectContaining({ code: 'TOO_MANY_ATTACHMENTS' }));
+    });
+  });
+
+  describe('completeAttachmentUpload', () => {
+    const pending = {
+      id: 'att_1',
+      status: 'pending',
+      storageDriver: 'local',
+      storageKey: 'app_1/conv_1/att_1/photo.png',
+      mimeType: 'image/png',
+      sizeBytes: 1024,
+    };
+
+    it('should reject an upload whose size differs from the declared one', async () => {
+      vi.mocked(prisma.attachment.findFirst).mockResolvedValue(pending as any);
+      vi.spyOn(LocalDiskStorage.prototype, 'stat').mockResolvedValue({ sizeBytes: 4096, mimeType: null });
+
+      await expect(completeAttachmentUpload('app_1', 'device_1', 'conv_1', 'att_1'))
+        .rejects.toMatchObject({ statusCode: 409, code: 'ATTACHMENT_MISMATCH' });
+      expect(prisma.attachment.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
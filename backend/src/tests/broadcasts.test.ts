@@ -0,0 +1,805 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  computeRecipientSendTime,
+  countBroadcastAudience,
+  parseBroadcastDeliverySettings,
+  resolveBroadcastRecipients,
+} from '../services/broadcastService.js';
+import { recordBroadcastEngagement } from '../services/broadcastEngagementService.js';
+import { sendBroadcast } from '../services/broadcastSender.js';
+import {
+  parseAbTestConfig,
+  parseVariantsInput,
+  splitAudience,
+} from '../services/broadcastVariantService.js';
+import { sendPushNotification } from '../services/pushNotificationService.js';
+import { saveMessage } from '../services/messageService.js';
+import { getOrCreateConversation } from '../services/conversationService.js';
+import { broadcastToApp } from '../services/socketService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    app: {
+      findUnique: vi.fn(),
+    },
+    segment: {
+      findFirst: vi.fn(),
+    },
+    conversation: {
+      findMany: vi.fn(),
+    },
+    device: {
+      findUnique: vi.fn(),
+    },
+    broadcast: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    broadcastRecipient: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    broadcastVariant: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/conversationService.js', () => ({
+  getOrCreateConversation: vi.fn().mockResolvedValue({ id: 'conv_1' }),
+}));
+
+vi.mock('../services/messageService.js', () => ({
+  saveMessage: vi.fn().mockResolvedValue({ message: { id: 'msg_1' }, created: true }),
+}));
+
+vi.mock('../services/pushNotificationService.js', () => ({
+  sendPushNotification: vi.fn(),
+}));
+
+vi.mock('../services/webhookDispatchService.js', () => ({
+  dispatchWebhook: vi.fn(),
+}));
+
+vi.mock('../services/socketService.js', () => ({
+  broadcastToApp: vi.fn(),
+}));
+
+const query = {
+  operator: 'AND',
+  conditions: [{ type: 'user_attribute', field: 'plan', operator: 'equals', value: 'pro' }],
+};
+
+describe('broadcasts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('query DSL targeting', () => {
+    it('should evaluate the segment query and join users to their devices', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { device_id: 'dev_1', user_id: 'user_1', platform: 'ios', device_context: null },
+        { device_id: 'dev_2', user_id: 'user_1', platform: 'android', device_context: null },
+      ] as any);
+
+      const recipients = await resolveBroadcastRecipients({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: query,
+        userIds: [],
+      });
+
+      expect(recipients).toEqual([
+        { deviceId: 'dev_1', userId: 'user_1', deviceContext: { platform: 'ios' } },
+        { deviceId: 'dev_2', userId: 'user_1', deviceContext: { platform: 'android' } },
+      ]);
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      const [statement] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any[];
+      expect(statement.sql).toContain('FROM devices');
+      expect(statement.values).toContain('pro');
+    });
+
+    it('should not query devices for an empty user list', async () => {
+      const recipients = await resolveBroadcastRecipients({
+        appId: 'app_1',
+        targetType: 'SPECIFIC_USERS',
+        segmentQuery: null,
+        userIds: [],
+      });
+
+      expect(recipients).toEqual([]);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should still resolve presets', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { device_id: 'dev_1', user_id: null, platform: 'ios', device_context: null },
+      ] as any);
+
+      const recipients = await resolveBroadcastRecipients({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: { preset: 'platform_ios' },
+        userIds: [],
+      });
+
+      expect(recipients).toEqual([{ deviceId: 'dev_1', userId: null, deviceContext: { platform: 'ios' } }]);
+      const [statement] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any[];
+      expect(statement.values).toEqual(['app_1', 'ios']);
+    });
+
+    it('should take the device context of recently active devices from their conversation', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { device_id: 'dev_1', user_id: 'user_1', platform: null, device_context: { platform: 'android', locale: 'de' } },
+        { device_id: 'dev_2', user_id: null, platform: null, device_context: null },
+      ] as any);
+
+      const recipients = await resolveBroadcastRecipients({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: { preset: 'active_30d' },
+        userIds: [],
+      });
+
+      expect(recipients[0].deviceContext).toEqual(expect.objectContaining({ platform: 'android', locale: 'de' }));
+      expect(recipients[1]).toEqual({ deviceId: 'dev_2', userId: null });
+      expect(prisma.conversation.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('countBroadcastAudience', () => {
+    const audienceStatement = (call: number) => (vi.mocked(prisma.$queryRaw).mock.calls[call] as any[])[0];
+
+    it('should count devices without loading them', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ count: BigInt(2) }] as any);
+
+      const audienceSize = await countBroadcastAudience({
+        appId: 'app_1',
+        targetType: 'SPECIFIC_USERS',
+        segmentQuery: null,
+        userIds: ['user_1', 'user_2'],
+      });
+
+      expect(audienceSize).toBe(2);
+      expect(audienceStatement(0).sql).toContain('COUNT(*)');
+      expect(audienceStatement(0).values).toEqual(['app_1', 'user_1', 'user_2']);
+    });
+
+    it('should count over the same query that resolves the recipients', async () => {
+      const targets = [
+        { targetType: 'ALL_USERS', segmentQuery: null },
+        { targetType: 'SPECIFIC_USERS', segmentQuery: null, userIds: ['user_1'] },
+        { targetType: 'SEGMENT', segmentQuery: query },
+        { targetType: 'SEGMENT', segmentQuery: null, segmentId: 'seg_1' },
+        { targetType: 'SEGMENT', segmentQuery: { preset: 'platform_android' } },
+        { targetType: 'SEGMENT', segmentQuery: { preset: 'active_30d' } },
+      ];
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({ id: 'seg_1', appId: 'app_1', query } as any);
+      // Keeps the active_30d cutoff the same for both calls
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      for (const [index, target] of targets.entries()) {
+        const broadcast = { appId: 'app_1', userIds: [], ...target };
+        vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([]).mockResolvedValueOnce([{ count: BigInt(0) }]);
+
+        await resolveBroadcastRecipients(broadcast);
+        await countBroadcastAudience(broadcast);
+
+        const recipients = audienceStatement(index * 2);
+        const count = audienceStatement(index * 2 + 1);
+        expect(count.sql).toContain(recipients.sql);
+        expect(count.values).toEqual(recipients.values);
+      }
+      vi.useRealTimers();
+    });
+
+    it('should count the members of a saved segment in SQL', async () => {
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({ id: 'seg_1', appId: 'app_1', query } as any);
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ count: BigInt(7) }] as any);
+
+      const audienceSize = await countBroadcastAudience({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: null,
+        segmentId: 'seg_1',
+        userIds: [],
+      });
+
+      expect(audienceSize).toBe(7);
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(audienceStatement(0).sql).toContain('segment_members');
+      expect(audienceStatement(0).values).toEqual(expect.arrayContaining(['seg_1', 'pro']));
+    });
+
+    it('should count distinct devices active in the last 30 days', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ count: BigInt(3) }] as any);
+
+      const audienceSize = await countBroadcastAudience({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: { preset: 'active_30d' },
+        userIds: [],
+      });
+
+      expect(audienceSize).toBe(3);
+      expect(audienceStatement(0).sql).toContain('DISTINCT ON (device_id)');
+      expect(prisma.conversation.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delivery windows', () => {
+    const noQuietHours = parseBroadcastDeliverySettings({});
+
+    it('should replay the scheduled wall-clock time in each recipient timezone', () => {
+      const scheduledAt = new Date('2026-07-01T09:00:00Z');
+
+      expect(computeRecipientSendTime({
+        scheduledAt,
+        localTimeDelivery: true,
+        timezone: 'America/New_York',
+        settings: noQuietHours,
+        now: new Date('2026-06-30T00:00:00Z'),
+      })).toEqual(new Date('2026-07-01T13:00:00Z'));
+      expect(computeRecipientSendTime({
+        scheduledAt,
+        localTimeDelivery: true,
+        timezone: 'Asia/Kolkata',
+        settings: noQuietHours,
+        now: new Date('2026-06-30T00:00:00Z'),
+      })).toEqual(new Date('2026-07-01T03:30:00Z'));
+    });
+
+    it('should follow daylight saving changes', () => {
+      expect(computeRecipientSendTime({
+        scheduledAt: new Date('2026-01-15T09:00:00Z'),
+        localTimeDelivery: true,
+        timezone: 'America/New_York',
+        settings: noQuietHours,
+        now: new Date('2026-01-01T00:00:00Z'),
+      })).toEqual(new Date('2026-01-15T14:00:00Z'));
+    });
+
+    it('should send immediately outside quiet hours', () => {
+      expect(computeRecipientSendTime({
+        scheduledAt: null,
+        localTimeDelivery: false,
+        timezone: 'Europe/Berlin',
+        settings: parseBroadcastDeliverySettings({ quiet_hours: { start: '22:00', end: '08:00' } }),
+        now: new Date('2026-07-01T10:00:00Z'),
+      })).toBeNull();
+    });
+
+    it('should defer sends in overnight quiet hours to the end of the window', () => {
+      const settings = parseBroadcastDeliverySettings({ quiet_hours: { start: '22:00', end: '08:00' } });
+
+      // 23:30 in Berlin (UTC+2 in summer) -> 08:00 next morning
+      expect(computeRecipientSendTime({
+        scheduledAt: null,
+        localTimeDelivery: false,
+        timezone: 'Europe/Berlin',
+        settings,
+        now: new Date('2026-07-01T21:30:00Z'),
+      })).toEqual(new Date('2026-07-02T06:00:00Z'));
+
+      // 03:00 in Berlin -> 08:00 the same morning
+      expect(computeRecipientSendTime({
+        scheduledAt: null,
+        localTimeDelivery: false,
+        timezone: 'Europe/Berlin',
+        settings,
+        now: new Date('2026-07-01T01:00:00Z'),
+      })).toEqual(new Date('2026-07-01T06:00:00Z'));
+    });
+
+    it('should apply quiet hours to local send times', () => {
+      expect(computeRecipientSendTime({
+        scheduledAt: new Date('2026-07-01T07:00:00Z'),
+        localTimeDelivery: true,
+        timezone: 'UTC',
+        settings: parseBroadcastDeliverySettings({ quiet_hours: { start: '21:00', end: '08:30' } }),
+        now: new Date('2026-06-30T00:00:00Z'),
+      })).toEqual(new Date('2026-07-01T08:30:00Z'));
+    });
+
+    it('should ignore malformed settings', () => {
+      expect(parseBroadcastDeliverySettings({
+        timezone: 'Mars/Olympus_Mons',
+        quiet_hours: { start: '25:00', end: '08:00' },
+      })).toEqual({ defaultTimezone: 'UTC', quietHours: null });
+    });
+  });
+
+  describe('background sending', () => {
+    const broadcast = {
+      id: 'bc_1',
+      appId: 'app_1',
+      title: 'Launch',
+      body: 'We shipped',
+      data: { deep_link: 'app://launch', priority: 2 },
+      targetType: 'SPECIFIC_USERS',
+      segmentQuery: null,
+      segmentId: null,
+      userIds: ['user_1'],
+      sendPush: true,
+      status: 'DRAFT',
+      sentAt: null,
+      recipientsResolvedAt: null,
+    };
+
+    const pendingRecipient = {
+      id: 'rcp_1',
+      deviceId: 'dev_1',
+      userId: 'user_1',
+      metadata: { device_context: { platform: 'ios' } },
+    };
+
+    function mockRecipientCounts(counts: {
+      pending?: number;
+      failed?: number;
+      skipped?: number;
+      delivered?: number;
+      total?: number;
+    }) {
+      vi.mocked(prisma.broadcastRecipient.count).mockImplementation((async (args: any) => {
+        if (args.where.status === 'PENDING') return counts.pending ?? 0;
+        if (args.where.status === 'FAILED') return counts.failed ?? 0;
+        if (args.where.status === 'SKIPPED') return counts.skipped ?? 0;
+        if (args.where.deliveredAt) return counts.delivered ?? 0;
+        return counts.total ?? 0;
+      }) as any);
+    }
+
+    beforeEach(() => {
+      vi.mocked(prisma.broadcast.findUnique).mockResolvedValue(broadcast as any);
+      vi.mocked(prisma.broadcast.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { device_id: 'dev_1', user_id: 'user_1', platform: 'ios', device_context: null },
+      ] as any);
+      vi.mocked(prisma.device.findUnique).mockResolvedValue({ id: 'device_pk_1' } as any);
+      vi.mocked(prisma.broadcastRecipient.findMany)
+        .mockResolvedValueOnce([pendingRecipient] as any)
+        .mockResolvedValue([]);
+      vi.mocked(prisma.broadcastRecipient.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.broadcastVariant.findMany).mockResolvedValue([]);
+      vi.mocked(sendPushNotification).mockResolvedValue({ success: true, messageId: 'fcm_1' });
+      mockRecipientCounts({ delivered: 1, total: 1 });
+    });
+
+    it('should checkpoint the resolved audience as pending recipients', async () => {
+      await sendBroadcast('bc_1');
+
+      expect(prisma.broadcastRecipient.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ broadcastId: 'bc_1', deviceId: 'dev_1', status: 'PENDING' })],
+        skipDuplicates: true,
+      });
+      expect(prisma.broadcast.update).toHaveBeenCalledWith({
+        where: { id: 'bc_1' },
+        data: { recipientsResolvedAt: expect.any(Date), totalRecipients: 1 },
+      });
+    });
+
+    it('should resume from pending recipients without resolving the audience again', async () => {
+      vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+        ...broadcast,
+        status: 'SENDING',
+        recipientsResolvedAt: new Date(),
+      } as any);
+
+      await sendBroadcast('bc_1');
+
+      expect(prisma.broadcastRecipient.createMany).not.toHaveBeenCalled();
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+      expect(saveMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send while another worker holds the lease', async () => {
+      vi.mocked(prisma.broadcast.updateMany).mockResolvedValue({ count: 0 });
+
+      await sendBroadcast('bc_1');
+
+      expect(prisma.broadcastRecipient.findMany).not.toHaveBeenCalled();
+      expect(saveMessage).not.toHaveBeenCalled();
+    });
+
+    it('should renew only the lease this worker claimed', async () => {
+      vi.mocked(prisma.broadcastRecipient.findMany).mockReset().mockResolvedValue([pendingRecipient] as any);
+      vi.mocked(prisma.broadcast.updateMany)
+        .mockResolvedValueOnce({ count: 1 }) // queue
+        .mockResolvedValueOnce({ count: 1 }) // claim
+        .mockResolvedValue({ count: 0 }); // renew after another worker took over
+
+      await sendBroadcast('bc_1');
+
+      const claim = vi.mocked(prisma.broadcast.updateMany).mock.calls[1][0] as any;
+      const renew = vi.mocked(prisma.broadcast.updateMany).mock.calls[2][0] as any;
+      expect(claim.data.sendLeaseToken).toEqual(expect.any(String));
+      expect(renew.where).toEqual({ id: 'bc_1', status: 'SENDING', sendLeaseToken: claim.data.sendLeaseToken });
+      expect(saveMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not push a message that was already sent', async () => {
+      vi.mocked(saveMessage).mockResolvedValueOnce({ message: { id: 'msg_1' }, created: false } as any);
+      vi.mocked(prisma.broadcastRecipient.updateMany).mockResolvedValue({ count: 0 });
+
+      await sendBroadcast('bc_1');
+
+      expect(sendPushNotification).not.toHaveBeenCalled();
+      expect(prisma.broadcastRecipient.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rcp_1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'SENT' }),
+      });
+      expect(prisma.broadcastRecipient.update).not.toHaveBeenCalled();
+    });
+
+    it('should derive a stable message local ID per recipient', async () => {
+      await sendBroadcast('bc_1');
+      vi.mocked(prisma.broadcastRecipient.findMany).mockResolvedValueOnce([pendingRecipient] as any);
+      await sendBroadcast('bc_1');
+
+      const [first, second] = vi.mocked(saveMessage).mock.calls;
+      expect(first[1].local_id).toBe(second[1].local_id);
+    });
+
+    it('should report progress and completion to the admin app room', async () => {
+      await sendBroadcast('bc_1');
+
+      expect(broadcastToApp).toHaveBeenCalledWith('app_1', 'broadcast:progress', expect.objectContaining({
+        broadcast_id: 'bc_1',
+        status: 'sending',
+      }));
+      expect(broadcastToApp).toHaveBeenLastCalledWith('app_1', 'broadcast:progress', {
+        broadcast_id: 'bc_1',
+        status: 'sent',
+        total_recipients: 1,
+        sent: 1,
+        failed: 0,
+        skipped: 0,
+        pending: 0,
+      });
+    });
+
+    it('should stop when the broadcast is cancelled mid-send', async () => {
+      vi.mocked(prisma.broadcastRecipient.findMany).mockReset().mockResolvedValue([pendingRecipient] as any);
+      vi.mocked(prisma.broadcast.updateMany)
+        .mockResolvedValueOnce({ count: 1 }) // queue
+        .mockResolvedValueOnce({ count: 1 }) // claim
+        .mockResolvedValue({ count: 0 }); // renew after cancellation
+
+      await sendBroadcast('bc_1');
+
+      expect(saveMessage).toHaveBeenCalledTimes(1);
+      expect(prisma.broadcast.updateMany).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'SENT' }),
+      }));
+    });
+
+    it('should give each recipient a local send time and park until the first wave is due', async () => {
+      vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+        ...broadcast,
+        status: 'SCHEDULED',
+        localTimeDelivery: true,
+        scheduledAt: new Date('2099-03-02T09:00:00Z'),
+      } as any);
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { device_id: 'dev_1', user_id: 'user_1', platform: 'ios', device_context: null },
+      ] as any);
+      vi.mocked(prisma.conversation.findMany).mockResolvedValue([
+        { deviceId: 'dev_1', metadata: { device_context: { timezone: 'Asia/Tokyo' } } },
+      ] as any);
+      vi.mocked(prisma.broadcastRecipient.findMany).mockReset().mockResolvedValue([]);
+      vi.mocked(prisma.broadcastRecipient.findFirst).mockResolvedValue({
+        scheduledFor: new Date('2099-03-02T00:00:00Z'),
+      } as any);
+      mockRecipientCounts({ pending: 1, total: 1 });
+
+      await sendBroadcast('bc_1');
+
+      expect(prisma.broadcastRecipient.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({
+          timezone: 'Asia/Tokyo',
+          scheduledFor: new Date('2099-03-02T00:00:00Z'),
+        })],
+        skipDuplicates: true,
+      });
+      expect(prisma.broadcast.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'bc_1', status: 'SENDING', sendLeaseToken: expect.any(String) },
+        data: { sendLeaseUntil: new Date('2099-03-02T00:00:00Z') },
+      });
+      expect(saveMessage).not.toHaveBeenCalled();
+    });
+
+    it('should push to the device and mark the recipient delivered', async () => {
+      await sendBroadcast('bc_1');
+
+      expect(sendPushNotification).toHaveBeenCalledWith('device_pk_1', expect.objectContaining({
+        title: 'Launch',
+        body: 'We shipped',
+        data: { deep_link: 'app://launch', priority: '2', type: 'broadcast', broadcast_id: 'bc_1' },
+      }));
+      expect(prisma.broadcastRecipient.update).toHaveBeenCalledWith({
+        where: { id: 'rcp_1' },
+        data: expect.objectContaining({ status: 'DELIVERED', deliveredAt: expect.any(Date) }),
+      });
+      expect(prisma.broadcast.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'bc_1', status: 'SENDING', sendLeaseToken: expect.any(String) },
+        data: expect.objectContaining({ status: 'SENT', totalSent: 1, totalDelivered: 1 }),
+      });
+    });
+
+    it('should personalize the body from the recipient profile', async () => {
+      vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+        ...broadcast,
+        body: 'Hi {{ user.name | default: "there" }}{{#if user.attributes.vip}}, thanks for being VIP{{/if}}',
+      } as any);
+      vi.mocked(getOrCreateConversation).mockResolvedValueOnce({
+        id: 'conv_1',
+        metadata: { user: { id: 'user_1', name: 'Ada', attributes: { vip: true } } },
+      } as any);
+
+      await sendBroadcast('bc_1');
+
+      expect(saveMessage).toHaveBeenCalledWith(
+        'conv_1',
+        expect.objectContaining({ body: 'Hi Ada, thanks for being VIP' }),
+        'app_1',
+        'dev_1',
+        'agent',
+        expect.objectContaining({ source: 'broadcast', sendKey: 'broadcast:bc_1' })
+      );
+      expect(sendPushNotification).toHaveBeenCalledWith('device_pk_1', expect.objectContaining({
+        body: 'Hi Ada, thanks for being VIP',
+      }));
+    });
+
+    it('should keep the in-app send when push fails', async () => {
+      vi.mocked(sendPushNotification).mockResolvedValue({ success: false, errorCode: 'NO_TOKEN' });
+
+      await sendBroadcast('bc_1');
+
+      expect(prisma.broadcastRecipient.update).toHaveBeenCalledWith({
+        where: { id: 'rcp_1' },
+        data: expect.objectContaining({
+          status: 'SENT',
+          deliveredAt: null,
+          metadata: { device_context: { platform: 'ios' }, push_error: 'NO_TOKEN' },
+        }),
+      });
+    });
+
+    it('should not push when the broadcast is in-app only', async () => {
+      vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({ ...broadcast, sendPush: false } as any);
+
+      await sendBroadcast('bc_1');
+
+      expect(sendPushNotification).not.toHaveBeenCalled();
+    });
+
+    describe('A/B variants', () => {
+      const variants = [
+        { id: 'var_a', title: 'Launch A', body: 'Body A', data: null },
+        { id: 'var_b', title: 'Launch B', body: 'Body B', data: { promo: 'b' } },
+      ];
+
+      beforeEach(() => {
+        vi.mocked(prisma.broadcastVariant.findMany).mockResolvedValue(variants as any);
+      });
+
+      it('should send the test group its variants and hold back the rest until the window closes', async () => {
+        vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+          ...broadcast,
+          abTestPercent: 50,
+          abTestWindowMinutes: 60,
+          abWinnerMetric: 'opens',
+          abTestEndsAt: null,
+          winningVariantId: null,
+        } as any);
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([
+          { device_id: 'dev_1', user_id: 'user_1', platform: 'ios', device_context: null },
+          { device_id: 'dev_2', user_id: 'user_1', platform: 'android', device_context: null },
+          { device_id: 'dev_3', user_id: 'user_1', platform: 'ios', device_context: null },
+          { device_id: 'dev_4', user_id: 'user_1', platform: 'ios', device_context: null },
+        ] as any);
+        vi.mocked(prisma.broadcastRecipient.findMany)
+          .mockReset()
+          .mockResolvedValueOnce([{ ...pendingRecipient, variantId: 'var_b' }] as any)
+          .mockResolvedValue([]);
+        const sentAt = new Date();
+
+        await sendBroadcast('bc_1');
+
+        const [{ data }] = vi.mocked(prisma.broadcastRecipient.createMany).mock.calls[0] as any[];
+        expect(data.filter((row: any) => row.variantId === 'var_a')).toHaveLength(1);
+        expect(data.filter((row: any) => row.variantId === 'var_b')).toHaveLength(1);
+        expect(data.filter((row: any) => row.variantId === null)).toHaveLength(2);
+
+        expect(prisma.broadcastRecipient.findMany).toHaveBeenCalledWith(expect.objectContaining({
+          where: expect.objectContaining({ variantId: { not: null } }),
+        }));
+        expect(saveMessage).toHaveBeenCalledWith(
+          'conv_1',
+          expect.objectContaining({ body: 'Body B' }),
+          'app_1',
+          'dev_1',
+          'agent',
+          expect.objectContaining({ source: 'broadcast', sendKey: 'broadcast:bc_1' })
+        );
+        expect(sendPushNotification).toHaveBeenCalledWith('device_pk_1', expect.objectContaining({
+          title: 'Launch B',
+          data: expect.objectContaining({ promo: 'b' }),
+        }));
+
+        // The window opens once the test group has gone out
+        expect(prisma.broadcast.update).toHaveBeenCalledWith({
+          where: { id: 'bc_1' },
+          data: { abTestEndsAt: expect.any(Date) },
+        });
+        const windowCall = vi.mocked(prisma.broadcast.update).mock.calls
+          .find(([args]) => (args.data as any).abTestEndsAt) as any[];
+        const abTestEndsAt = windowCall[0].data.abTestEndsAt;
+        expect(abTestEndsAt.getTime()).toBeGreaterThanOrEqual(sentAt.getTime() + 60 * 60 * 1000);
+        expect(prisma.broadcast.updateMany).toHaveBeenLastCalledWith({
+          where: { id: 'bc_1', status: 'SENDING', sendLeaseToken: expect.any(String) },
+          data: { sendLeaseUntil: abTestEndsAt },
+        });
+      });
+
+      it('should not open the test window while test recipients wait for their local time', async () => {
+        const nextWave = new Date(Date.now() + 10 * 60 * 60 * 1000);
+        vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+          ...broadcast,
+          status: 'SENDING',
+          recipientsResolvedAt: new Date(),
+          localTimeDelivery: true,
+          abTestPercent: 50,
+          abTestWindowMinutes: 240,
+          abWinnerMetric: 'opens',
+          abTestEndsAt: null,
+          winningVariantId: null,
+        } as any);
+        vi.mocked(prisma.broadcastRecipient.findMany).mockReset().mockResolvedValue([]);
+        vi.mocked(prisma.broadcastRecipient.findFirst).mockResolvedValue({ scheduledFor: nextWave } as any);
+
+        await sendBroadcast('bc_1');
+
+        expect(prisma.broadcast.update).not.toHaveBeenCalledWith(expect.objectContaining({
+          data: { abTestEndsAt: expect.anything() },
+        }));
+        expect(prisma.broadcastRecipient.groupBy).not.toHaveBeenCalled();
+        expect(prisma.broadcast.updateMany).toHaveBeenLastCalledWith({
+          where: { id: 'bc_1', status: 'SENDING', sendLeaseToken: expect.any(String) },
+          data: { sendLeaseUntil: nextWave },
+        });
+      });
+
+      it('should pick the winner by the configured metric and send it to the remainder', async () => {
+        vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+          ...broadcast,
+          status: 'SENDING',
+          recipientsResolvedAt: new Date(),
+          abTestPercent: 20,
+          abTestWindowMinutes: 60,
+          abWinnerMetric: 'clicks',
+          abTestEndsAt: new Date(Date.now() - 1000),
+          winningVariantId: null,
+        } as any);
+        vi.mocked(prisma.broadcastRecipient.groupBy).mockResolvedValue([
+          { variantId: 'var_a', _count: { sentAt: 10, openedAt: 8, clickedAt: 1 } },
+          { variantId: 'var_b', _count: { sentAt: 10, openedAt: 3, clickedAt: 4 } },
+        ] as any);
+        vi.mocked(prisma.broadcastRecipient.findMany)
+          .mockReset()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce([{ ...pendingRecipient, variantId: 'var_b' }] as any)
+          .mockResolvedValue([]);
+
+        await sendBroadcast('bc_1');
+
+        expect(prisma.broadcastRecipient.updateMany).toHaveBeenCalledWith({
+          where: { broadcastId: 'bc_1', variantId: null, status: 'PENDING' },
+          data: { variantId: 'var_b' },
+        });
+        expect(prisma.broadcast.updateMany).toHaveBeenCalledWith({
+          where: { id: 'bc_1', winningVariantId: null },
+          data: { winningVariantId: 'var_b' },
+        });
+        expect(vi.mocked(prisma.broadcastRecipient.findMany).mock.calls[1][0]!.where).not.toHaveProperty('variantId');
+        expect(saveMessage).toHaveBeenCalledWith(
+          'conv_1',
+          expect.objectContaining({ body: 'Body B' }),
+          'app_1',
+          'dev_1',
+          'agent',
+          expect.objectContaining({ source: 'broadcast', sendKey: 'broadcast:bc_1' })
+        );
+      });
+
+      it('should split the test percentage evenly and leave the rest unassigned', () => {
+        const deviceIds = Array.from({ length: 10 }, (_, index) => `dev_${index}`);
+
+        const assignment = splitAudience(deviceIds, ['var_a', 'var_b'], 40, () => 0.5);
+        const assigned = Array.from(assignment.values());
+
+        expect(assignment.size).toBe(10);
+        expect(assigned.filter((variantId) => variantId === 'var_a')).toHaveLength(2);
+        expect(assigned.filter((variantId) => variantId === 'var_b')).toHaveLength(2);
+        expect(assigned.filter((variantId) => variantId === null)).toHaveLength(6);
+      });
+
+      it('should validate variants and apply test defaults', () => {
+        expect(() => parseVariantsInput([{ title: 'Only', body: 'One' }])).toThrowError(
+          expect.objectContaining({ code: 'INVALID_VARIANTS' })
+        );
+        expect(() => parseVariantsInput([{ title: 'A', body: 'a' }, { title: 'B' }])).toThrowError(
+          expect.objectContaining({ code: 'INVALID_VARIANTS' })
+        );
+        expect(() => parseAbTestConfig({ winnerMetric: 'replies' })).toThrowError(
+          expect.objectContaining({ code: 'INVALID_VARIANTS' })
+        );
+
+        expect(parseVariantsInput([{ title: 'A', body: 'a' }, { title: 'B', body: 'b' }]).map((v) => v.key))
+          .toEqual(['A', 'B']);
+        expect(parseAbTestConfig(undefined)).toEqual({ testPercent: 20, windowMinutes: 240, winnerMetric: 'opens' });
+      });
+    });
+  });
+
+  describe('recordBroadcastEngagement', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.broadcastRecipient.findFirst).mockResolvedValue({ id: 'rcp_1', metadata: null } as any);
+      vi.mocked(prisma.broadcastRecipient.findUniqueOrThrow).mockResolvedValue({
+        openedAt: new Date(),
+        clickedAt: null,
+      } as any);
+    });
+
+    it('should count the first open', async () => {
+      vi.mocked(prisma.broadcastRecipient.updateMany).mockResolvedValue({ count: 1 });
+
+      await recordBroadcastEngagement('app_1', 'dev_1', 'bc_1', 'opened');
+
+      expect(prisma.broadcast.update).toHaveBeenCalledWith({
+        where: { id: 'bc_1' },
+        data: { totalOpened: { increment: 1 }, totalClicked: { increment: 0 } },
+      });
+    });
+
+    it('should not count repeated opens', async () => {
+      vi.mocked(prisma.broadcastRecipient.updateMany).mockResolvedValue({ count: 0 });
+
+      await recordBroadcastEngagement('app_1', 'dev_1', 'bc_1', 'opened');
+
+      expect(prisma.broadcast.update).not.toHaveBeenCalled();
+    });
+
+    it('should count a click without a prior open as both', async () => {
+      vi.mocked(prisma.broadcastRecipient.updateMany).mockResolvedValue({ count: 1 });
+
+      await recordBroadcastEngagement('app_1', 'dev_1', 'bc_1', 'clicked', { url: 'https://example.com' });
+
+      expect(prisma.broadcastRecipient.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'rcp_1', clickedAt: null },
+        data: expect.objectContaining({ status: 'CLICKED', metadata: { clicked_url: 'https://example.com' } }),
+      });
+      expect(prisma.broadcast.update).toHaveBeenCalledWith({
+        where: { id: 'bc_1' },
+        data: { totalOpened: { increment: 1 }, totalClicked: { increment: 1 } },
+      });
+    });
+
+    it('should reject devices that did not receive the broadcast', async () => {
+      vi.mocked(prisma.broadcastRecipient.findFirst).mockResolvedValue(null);
+
+      await expect(recordBroadcastEngagement('app_1', 'dev_x', 'bc_1', 'opened'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'BROADCAST_NOT_FOUND' });
+    });
+  });
+});
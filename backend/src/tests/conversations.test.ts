@@ -1,12 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { getOrCreateConversation } from '../services/conversationService.js';
+import {
+  getOrCreateConversation,
+  reopenConversation,
+  resolveConversation,
+  snoozeConversation,
+  wakeSnoozedConversations,
+} from '../services/conversationService.js';
+import { dispatchWebhook } from '../services/webhookDispatchService.js';
 import { prisma } from '../lib/prisma.js';
 
 vi.mock('../lib/prisma.js', () => ({
   prisma: {
     conversation: {
       findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
       create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
     },
   },
 }));
@@ -15,6 +26,10 @@ vi.mock('../services/websocketService.js', () => ({
   subscribeDeviceToConversation: vi.fn(),
 }));
 
+vi.mock('../services/webhookDispatchService.js', () => ({
+  dispatchWebhook: vi.fn(),
+}));
+
 describe('conversationService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -82,4 +97,90 @@ describe('conversationService', () => {
       expect(result.metadata).toEqual({ device_context: { platform: 'android' } });
     });
   });
+
+  describe('lifecycle', () => {
+    const openConv = {
+      id: 'conv_123',
+      appId: 'app_123',
+      deviceId: 'device_123',
+      userId: 'user_123',
+      assigneeId: null,
+      status: 'open',
+      snoozedUntil: null,
+      resolvedAt: null,
+      updatedAt: new Date('2026-01-01'),
+    };
+
+    it('should resolve an open conversation and dispatch a webhook', async () => {
+      const resolvedAt = new Date('2026-01-02');
+      vi.mocked(prisma.conversation.findFirst)
+        .mockResolvedValueOnce(openConv as any)
+        .mockResolvedValueOnce({ ...openConv, status: 'resolved', resolvedAt } as any);
+      vi.mocked(prisma.conversation.updateMany).mockResolvedValue({ count: 1 });
+
+      const result = await resolveConversation('app_123', 'conv_123', { resolvedBy: 'admin_1' });
+
+      expect(result.status).toBe('resolved');
+      expect(result.resolved_at).toBe(resolvedAt.toISOString());
+      expect(dispatchWebhook).toHaveBeenCalledWith('app_123', 'conversation.resolved', expect.objectContaining({
+        conversation_id: 'conv_123',
+        previous_status: 'open',
+        resolved_by: 'admin_1',
+      }));
+    });
+
+    it('should not dispatch a webhook when already resolved', async () => {
+      const resolved = { ...openConv, status: 'resolved', resolvedAt: new Date() };
+      vi.mocked(prisma.conversation.findFirst).mockResolvedValue(resolved as any);
+      vi.mocked(prisma.conversation.updateMany).mockResolvedValue({ count: 0 });
+
+      await resolveConversation('app_123', 'conv_123');
+
+      expect(dispatchWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should reopen with the given reason', async () => {
+      vi.mocked(prisma.conversation.findFirst)
+        .mockResolvedValueOnce({ ...openConv, status: 'resolved' } as any)
+        .mockResolvedValueOnce(openConv as any);
+      vi.mocked(prisma.conversation.updateMany).mockResolvedValue({ count: 1 });
+
+      const result = await reopenConversation('app_123', 'conv_123', { reason: 'user_reply' });
+
+      expect(result.status).toBe('open');
+      expect(dispatchWebhook).toHaveBeenCalledWith('app_123', 'conversation.reopened', expect.objectContaining({
+        previous_status: 'resolved',
+        reason: 'user_reply',
+      }));
+    });
+
+    it('should reject snoozing into the past', async () => {
+      await expect(
+        snoozeConversation('app_123', 'conv_123', new Date(Date.now() - 1000))
+      ).rejects.toThrow('Snooze time must be a future timestamp');
+      expect(prisma.conversation.update).not.toHaveBeenCalled();
+    });
+
+    it('should count only the snoozed conversations it managed to wake', async () => {
+      const snoozed = { ...openConv, status: 'snoozed', snoozedUntil: new Date('2026-01-01') };
+      vi.mocked(prisma.conversation.findMany).mockResolvedValue([
+        { id: 'conv_123', appId: 'app_123' },
+        { id: 'conv_gone', appId: 'app_123' },
+      ] as any);
+      vi.mocked(prisma.conversation.findFirst)
+        .mockResolvedValueOnce(snoozed as any)
+        .mockResolvedValueOnce(openConv as any)
+        .mockResolvedValueOnce(null);
+      vi.mocked(prisma.conversation.updateMany).mockResolvedValue({ count: 1 });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(wakeSnoozedConversations()).resolves.toBe(1);
+    });
+
+    it('should throw for a conversation outside the app', async () => {
+      vi.mocked(prisma.conversation.findFirst).mockResolvedValue(null);
+
+      await expect(resolveConversation('app_123', 'conv_other')).rejects.toThrow('Conversation not found');
+    });
+  });
 });
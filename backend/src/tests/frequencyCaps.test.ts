@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  FrequencyCapReachedError,
+  parseFrequencyCapSettings,
+  reserveFrequencyCapSlot,
+} from '../services/frequencyCapService.js';
+import { sendBroadcast } from '../services/broadcastSender.js';
+import { executeWorkflow } from '../services/workflowEngine.js';
+import { createMessage, saveMessage } from '../services/messageService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $executeRaw: vi.fn(),
+    frequencyCapSend: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    conversation: {
+      findFirst: vi.fn(),
+    },
+    app: {
+      findUnique: vi.fn(),
+    },
+    device: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    broadcast: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    broadcastRecipient: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    broadcastVariant: {
+      findMany: vi.fn(),
+    },
+    workflow: {
+      findUnique: vi.fn(),
+    },
+    workflowExecution: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    workflowStep: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/conversationService.js', () => ({
+  getOrCreateConversation: vi.fn().mockResolvedValue({ id: 'conv_1' }),
+}));
+
+vi.mock('../services/messageService.js', () => ({
+  createMessage: vi.fn().mockResolvedValue({ id: 'msg_1' }),
+  saveMessage: vi.fn().mockResolvedValue({ message: { id: 'msg_1' }, created: true }),
+}));
+
+vi.mock('../services/pushNotificationService.js', () => ({
+  sendPushNotification: vi.fn(),
+}));
+
+vi.mock('../services/webhookDispatchService.js', () => ({
+  dispatchWebhook: vi.fn(),
+}));
+
+vi.mock('../services/socketService.js', () => ({
+  broadcastToApp: vi.fn(),
+}));
+
+const settings = { frequency_caps: [{ max_messages: 2, period: '1d' }] };
+const dailyCap = { maxMessages: 2, periodMs: 24 * 60 * 60 * 1000, period: '1d' };
+
+describe('frequency caps', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.app.findUnique).mockResolvedValue({ settings } as any);
+    vi.mocked(prisma.frequencyCapSend.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.frequencyCapSend.count).mockResolvedValue(0);
+  });
+
+  describe('parseFrequencyCapSettings', () => {
+    it('should read rules and ignore malformed ones', () => {
+      expect(parseFrequencyCapSettings({
+        frequency_caps: [
+          { max_messages: 3, period: '1d' },
+          { max_messages: 1, period: '4h' },
+          { max_messages: 'lots', period: '1d' },
+          { max_messages: 1, period: 'weekly' },
+        ],
+      })).toEqual([
+        { maxMessages: 3, periodMs: 24 * 60 * 60 * 1000, period: '1d' },
+        { maxMessages: 1, periodMs: 4 * 60 * 60 * 1000, period: '4h' },
+      ]);
+    });
+
+    it('should have no rules by default', () => {
+      expect(parseFrequencyCapSettings(null)).toEqual([]);
+      expect(parseFrequencyCapSettings({ frequency_caps: 'none' })).toEqual([]);
+    });
+  });
+
+  describe('reserveFrequencyCapSlot', () => {
+    const tx = prisma as any;
+    const send = { source: 'broadcast' as const, sendKey: 'broadcast:bc_1' };
+
+    it('should count automated sends to the user within the period and take a slot', async () => {
+      const now = new Date('2026-10-19T12:00:00Z');
+      vi.mocked(prisma.frequencyCapSend.count).mockResolvedValue(1);
+
+      await reserveFrequencyCapSlot(tx, 'app_1', { userId: 'user_1', deviceId: 'dev_1' }, send, [dailyCap], now);
+
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(prisma.frequencyCapSend.count).toHaveBeenCalledWith({
+        where: { appId: 'app_1', recipientKey: 'user:user_1', createdAt: { gte: new Date('2026-10-18T12:00:00Z') } },
+      });
+      expect(prisma.frequencyCapSend.create).toHaveBeenCalledWith({
+        data: { appId: 'app_1', recipientKey: 'user:user_1', sendKey: 'broadcast:bc_1', source: 'broadcast', createdAt: now },
+      });
+    });
+
+    it('should reject a send once a rule is reached', async () => {
+      vi.mocked(prisma.frequencyCapSend.count).mockResolvedValue(2);
+
+      await expect(reserveFrequencyCapSlot(tx, 'app_1', { userId: null, deviceId: 'dev_1' }, send, [dailyCap]))
+        .rejects.toMatchObject({ code: 'FREQUENCY_CAP_REACHED', rule: dailyCap });
+      expect(prisma.frequencyCapSend.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ recipientKey: 'device:dev_1' }),
+      });
+      expect(prisma.frequencyCapSend.create).not.toHaveBeenCalled();
+    });
+
+    it('should let a send reach the rest of a user\'s devices once it has a slot', async () => {
+      vi.mocked(prisma.frequencyCapSend.findUnique).mockResolvedValue({ id: 'fcs_1' } as any);
+      vi.mocked(prisma.frequencyCapSend.count).mockResolvedValue(2);
+
+      await reserveFrequencyCapSlot(tx, 'app_1', { userId: 'user_1', deviceId: 'dev_2' }, send, [dailyCap]);
+
+      expect(prisma.frequencyCapSend.count).not.toHaveBeenCalled();
+      expect(prisma.frequencyCapSend.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('broadcasts', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.broadcast.findUnique).mockResolvedValue({
+        id: 'bc_1',
+        appId: 'app_1',
+        title: 'Launch',
+        body: 'We shipped',
+        data: null,
+        sendPush: false,
+        status: 'SENDING',
+        recipientsResolvedAt: new Date(),
+        winningVariantId: null,
+      } as any);
+      vi.mocked(prisma.broadcast.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.broadcastVariant.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.broadcastRecipient.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.broadcastRecipient.findMany)
+        .mockResolvedValueOnce([
+          { id: 'rcp_1', deviceId: 'dev_1', userId: 'user_1', variantId: null, metadata: {} },
+        ] as any)
+        .mockResolvedValue([]);
+      vi.mocked(prisma.broadcastRecipient.count).mockImplementation((async (args: any) => {
+        if (args.where.status === 'SKIPPED') return 1;
+        if (args.where.status || args.where.deliveredAt) return 0;
+        return 1;
+      }) as any);
+    });
+
+    it('should skip capped recipients', async () => {
+      vi.mocked(saveMessage).mockRejectedValueOnce(new FrequencyCapReachedError(dailyCap));
+
+      await sendBroadcast('bc_1');
+
+      expect(saveMessage).toHaveBeenCalledWith(
+        'conv_1',
+        expect.anything(),
+        'app_1',
+        'dev_1',
+        'agent',
+        { source: 'broadcast', sendKey: 'broadcast:bc_1', capRules: [dailyCap] }
+      );
+      expect(prisma.broadcastRecipient.update).toHaveBeenCalledWith({
+        where: { id: 'rcp_1' },
+        data: expect.objectContaining({
+          status: 'SKIPPED',
+          metadata: { skip_reason: 'frequency_cap' },
+        }),
+      });
+      expect(prisma.broadcast.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: { totalSent: expect.anything() },
+      }));
+      expect(prisma.broadcast.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'bc_1', status: 'SENDING', sendLeaseToken: expect.any(String) },
+        data: expect.objectContaining({ status: 'SENT', totalSent: 0 }),
+      });
+    });
+
+    it('should read the cap rules once per send', async () => {
+      await sendBroadcast('bc_1');
+
+      expect(prisma.app.findUnique).toHaveBeenCalledTimes(1);
+      expect(saveMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('workflows', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.workflow.findUnique).mockResolvedValue({
+        id: 'wf_1',
+        appId: 'app_1',
+        nodes: [
+          { id: 'n1', type: 'send_message', config: { body: 'Hi' } },
+          { id: 'n2', type: 'send_message', config: { body: 'Again' } },
+        ],
+        edges: [{ from: 'n1', to: 'n2' }],
+      } as any);
+      vi.mocked(prisma.workflowExecution.create).mockResolvedValue({ id: 'exec_1' } as any);
+      vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+      vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.workflowStep.create)
+        .mockResolvedValueOnce({ id: 'step_1' } as any)
+        .mockResolvedValueOnce({ id: 'step_2' } as any);
+    });
+
+    it('should skip a capped send_message step and carry on', async () => {
+      vi.mocked(createMessage)
+        .mockResolvedValueOnce({ id: 'msg_1' } as any)
+        .mockRejectedValueOnce(new FrequencyCapReachedError(dailyCap));
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(createMessage).toHaveBeenLastCalledWith(
+        'conv_1',
+        expect.objectContaining({ body: 'Again' }),
+        'app_1',
+        'dev_1',
+        'agent',
+        { source: 'workflow', sendKey: 'workflow:exec_1:n2' }
+      );
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_2' },
+        data: {
+          status: 'SKIPPED',
+          output: { reason: 'frequency_cap', max_messages: 2, period: '1d' },
+          completedAt: expect.any(Date),
+        },
+      });
+      expect(prisma.workflowExecution.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      }));
+    });
+  });
+});
@@ -4,6 +4,13 @@ import { prisma } from '../lib/prisma.js';
 
 vi.mock('../lib/prisma.js', () => ({
   prisma: {
+    $transaction: vi.fn(),
+    $executeRaw: vi.fn(),
+    frequencyCapSend: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
     conversation: {
       findFirst: vi.fn(),
     },
@@ -74,6 +81,27 @@ describe('messageService', () => {
       expect(result.id).toBe('msg_existing');
     });
 
+    it('should not create an automated message over the frequency cap', async () => {
+      const conv = { id: 'conv_123', appId: 'app_123', deviceId: 'device_123', userId: 'user_1' };
+      const rule = { maxMessages: 1, periodMs: 24 * 60 * 60 * 1000, period: '1d' };
+      vi.mocked(prisma.conversation.findFirst).mockResolvedValue(conv as any);
+      vi.mocked(prisma.$transaction).mockImplementation((async (fn: (tx: unknown) => unknown) => fn(prisma)) as any);
+      vi.mocked(prisma.frequencyCapSend.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.frequencyCapSend.count).mockResolvedValue(1);
+      vi.mocked(prisma.message.findUnique).mockResolvedValue(null);
+
+      await expect(createMessage('conv_123', { local_id: 'local_bc', body: 'Launch' }, 'app_123', 'device_123', 'agent', {
+        source: 'broadcast',
+        sendKey: 'broadcast:bc_1',
+        capRules: [rule],
+      })).rejects.toMatchObject({ code: 'FREQUENCY_CAP_REACHED' });
+
+      expect(prisma.frequencyCapSend.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ appId: 'app_123', recipientKey: 'user:user_1' }),
+      });
+      expect(prisma.message.upsert).not.toHaveBeenCalled();
+    });
+
     it('should throw error for non-existent conversation', async () => {
       vi.mocked(prisma.conversation.findFirst).mockResolvedValue(null);
 
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildSegmentSQL, evaluateSegment } from '../services/segmentationService.js';
+import { parsePropertyPath, type Condition, type SegmentQuery } from '../lib/queryDSL.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+  },
+}));
+
+const INJECTION = "x' OR '1'='1'; DROP TABLE events; --";
+
+function single(condition: Partial<Condition>): SegmentQuery {
+  return {
+    operator: 'AND',
+    conditions: [{ type: 'user_attribute', field: 'plan', operator: 'equals', value: 'pro', ...condition } as Condition],
+  };
+}
+
+function expectRejected(query: SegmentQuery) {
+  expect(() => buildSegmentSQL('app_1', query)).toThrowError(expect.objectContaining({ code: 'INVALID_QUERY' }));
+}
+
+describe('segmentationService SQL compiler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('bound values', () => {
+    const hostileValues: Array<[string, Partial<Condition>]> = [
+      ['equals', { operator: 'equals', value: INJECTION }],
+      ['not_equals', { operator: 'not_equals', value: INJECTION }],
+      ['contains', { operator: 'contains', value: INJECTION }],
+      ['not_contains', { operator: 'not_contains', value: INJECTION }],
+      ['in', { operator: 'in', value: ['pro', INJECTION] }],
+      ['not_in', { operator: 'not_in', value: [INJECTION] }],
+      ['event name', { type: 'event', eventName: INJECTION, field: 'feature', operator: 'equals', value: INJECTION }],
+    ];
+
+    it.each(hostileValues)('should bind %s values as parameters', (_name, condition) => {
+      const sql = buildSegmentSQL('app_1', single(condition));
+
+      expect(sql.sql).not.toContain('DROP TABLE');
+      expect(sql.sql).not.toContain("'1'='1'");
+      expect(JSON.stringify(sql.values)).toContain('DROP TABLE');
+    });
+
+    it('should bind the app ID', () => {
+      const sql = buildSegmentSQL(INJECTION, single({}));
+
+      expect(sql.sql).not.toContain('DROP TABLE');
+      expect(sql.values).toContain(INJECTION);
+    });
+
+    it('should scope event subqueries to the app', () => {
+      const sql = buildSegmentSQL('app_1', single({
+        type: 'event',
+        eventName: 'feature_used',
+        field: 'feature',
+        operator: 'equals',
+        value: 'x',
+      }));
+
+      expect(sql.sql).toContain('ev.app_id = ?');
+      expect(sql.values.filter((value) => value === 'app_1')).toHaveLength(2);
+    });
+
+    it('should escape LIKE wildcards in contains values', () => {
+      const sql = buildSegmentSQL('app_1', single({ operator: 'contains', value: '100%_off\\' }));
+
+      expect(sql.values).toContain('%100\\%\\_off\\\\%');
+    });
+
+    it('should bind absolute timeframe dates', () => {
+      const sql = buildSegmentSQL('app_1', single({
+        type: 'event',
+        eventName: 'purchase',
+        field: 'amount',
+        operator: 'gt',
+        value: 10,
+        timeframe: {
+          type: 'absolute',
+          value: 0,
+          unit: 'days',
+          startDate: '2026-01-01T00:00:00Z' as any,
+          endDate: '2026-02-01T00:00:00Z' as any,
+        },
+      }));
+
+      expect(sql.values).toContainEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('property paths', () => {
+    it('should accept dotted paths with an optional properties prefix', () => {
+      expect(parsePropertyPath('properties.address.city')).toEqual(['address', 'city']);
+      expect(parsePropertyPath('plan')).toEqual(['plan']);
+    });
+
+    it.each([
+      ["plan'; DROP TABLE events; --"],
+      ['plan->>0'],
+      ['a..b'],
+      ['a b'],
+      ['a.b.c.d.e.f.g'],
+      [''],
+    ])('should reject path %j', (field) => {
+      expect(parsePropertyPath(field)).toBeNull();
+      expectRejected(single({ field }));
+    });
+
+    it('should bind accepted paths as a text[] parameter', () => {
+      const sql = buildSegmentSQL('app_1', single({ field: 'address.city' }));
+
+      expect(sql.sql).toContain('#>>');
+      expect(sql.values).toContainEqual(['address', 'city']);
+      expect(sql.sql).not.toContain('address');
+    });
+
+    it('should reject hostile aggregation fields', () => {
+      expectRejected(single({
+        type: 'event',
+        eventName: 'purchase',
+        field: 'amount',
+        operator: 'gt',
+        value: 1,
+        aggregation: { function: 'sum', field: 'amount) FROM events; --' },
+      }));
+    });
+  });
+
+  describe('structural inputs', () => {
+    it('should reject unknown operators', () => {
+      expectRejected(single({ operator: "= 'x' OR 1=1 --" as any }));
+    });
+
+    it('should reject unknown aggregation functions', () => {
+      expectRejected(single({
+        type: 'event',
+        eventName: 'purchase',
+        field: 'id',
+        operator: 'gt',
+        value: 1,
+        aggregation: { function: 'pg_sleep' as any },
+      }));
+    });
+
+    it('should reject non-numeric values for numeric comparisons', () => {
+      expectRejected(single({ operator: 'gt', value: '1; DROP TABLE events' }));
+    });
+
+    it('should reject hostile timeframe units and values', () => {
+      expectRejected(single({
+        type: 'event',
+        eventName: 'purchase',
+        field: 'amount',
+        operator: 'equals',
+        value: 'x',
+        timeframe: { type: 'relative', value: 7, unit: "days'; DROP TABLE events; --" as any },
+      }));
+      expectRejected(single({
+        type: 'event',
+        eventName: 'purchase',
+        field: 'amount',
+        operator: 'equals',
+        value: 'x',
+        timeframe: { type: 'relative', value: '7 days\'; --' as any, unit: 'days' },
+      }));
+    });
+
+    it('should reject a top-level operator outside AND/OR', () => {
+      expectRejected({ operator: 'AND 1=1 OR' as any, conditions: single({}).conditions });
+    });
+
+    it('should reject object values that could smuggle SQL', () => {
+      expectRejected(single({ value: { toString: () => INJECTION } }));
+    });
+
+    it('should reject excessively nested queries', () => {
+      let query: SegmentQuery = single({});
+      for (let i = 0; i < 10; i++) {
+        query = { operator: 'AND', conditions: [query] };
+      }
+      expectRejected(query);
+    });
+  });
+
+  describe('evaluateSegment', () => {
+    it('should run the compiled statement through the parameterized API', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ user_id: 'user_1' }] as any);
+
+      const userIds = await evaluateSegment('app_1', single({ value: INJECTION }));
+
+      expect(userIds).toEqual(['user_1']);
+      const [statement] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any[];
+      expect(statement.values).toContain(INJECTION);
+    });
+  });
+});
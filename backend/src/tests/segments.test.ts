@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { refreshStaleSegmentCounts, requireSegmentReference } from '../services/segmentService.js';
+import { resolveBroadcastRecipients } from '../services/broadcastService.js';
+import { triggerWorkflows } from '../services/workflowTriggerService.js';
+import { executeWorkflow } from '../services/workflowEngine.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    segment: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    segmentMember: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    workflow: {
+      findMany: vi.fn(),
+    },
+    workflowStep: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/workflowEngine.js', () => ({
+  executeWorkflow: vi.fn(),
+}));
+
+const query = {
+  operator: 'AND',
+  conditions: [{ type: 'user_attribute', field: 'plan', operator: 'equals', value: 'pro' }],
+};
+
+describe('saved segments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.segmentMember.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([]);
+  });
+
+  describe('requireSegmentReference', () => {
+    it('should reject segments from another app', async () => {
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue(null);
+
+      await expect(requireSegmentReference('app_1', 'seg_other'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_SEGMENT' });
+      expect(prisma.segment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'seg_other', appId: 'app_1' },
+      }));
+    });
+
+    it('should reject non-string references without a lookup', async () => {
+      await expect(requireSegmentReference('app_1', { id: 'seg_1' }))
+        .rejects.toMatchObject({ code: 'INVALID_SEGMENT' });
+      expect(prisma.segment.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshStaleSegmentCounts', () => {
+    it('should cache the member count of stale segments', async () => {
+      vi.mocked(prisma.segment.findMany).mockResolvedValue([
+        { id: 'seg_1', appId: 'app_1', query },
+      ] as any);
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ count: BigInt(42) }] as any);
+
+      const refreshed = await refreshStaleSegmentCounts(new Date());
+
+      expect(refreshed).toBe(1);
+      expect(prisma.segment.update).toHaveBeenCalledWith({
+        where: { id: 'seg_1' },
+        data: { memberCount: 42, countRefreshedAt: expect.any(Date) },
+      });
+    });
+
+    it('should keep going when one segment fails', async () => {
+      vi.mocked(prisma.segment.findMany).mockResolvedValue([
+        { id: 'seg_bad', appId: 'app_1', query: { operator: 'XOR', conditions: [] } },
+        { id: 'seg_1', appId: 'app_1', query },
+      ] as any);
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ count: BigInt(3) }] as any);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const refreshed = await refreshStaleSegmentCounts(new Date());
+
+      expect(refreshed).toBe(1);
+      expect(prisma.segment.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('broadcast targeting', () => {
+    it('should resolve a saved segment to its members\' devices', async () => {
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({ id: 'seg_1', appId: 'app_1', query } as any);
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { device_id: 'dev_1', user_id: 'user_1', platform: 'ios', device_context: null },
+      ] as any);
+
+      const recipients = await resolveBroadcastRecipients({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: null,
+        segmentId: 'seg_1',
+        userIds: [],
+      });
+
+      expect(recipients).toEqual([
+        { deviceId: 'dev_1', userId: 'user_1', deviceContext: { platform: 'ios' } },
+      ]);
+      // Members and their devices come from one statement, overrides included
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      const [statement] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any[];
+      expect(statement.sql).toContain('FROM devices');
+      expect(statement.sql).toContain('segment_members');
+      expect(statement.values).toEqual(expect.arrayContaining(['app_1', 'pro', 'seg_1']));
+    });
+
+    it('should resolve a deleted segment to no recipients', async () => {
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue(null);
+
+      const recipients = await resolveBroadcastRecipients({
+        appId: 'app_1',
+        targetType: 'SEGMENT',
+        segmentQuery: null,
+        segmentId: 'seg_gone',
+        userIds: [],
+      });
+
+      expect(recipients).toEqual([]);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('workflow triggers', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        { id: 'wf_1', trigger: { type: 'event', event_name: 'signup', segment_id: 'seg_1' } },
+      ] as any);
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({ query } as any);
+    });
+
+    it('should enroll users in the trigger segment', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ user_id: 'user_1' }] as any);
+
+      await triggerWorkflows({ appId: 'app_1', userId: 'user_1', eventName: 'signup' });
+
+      expect(executeWorkflow).toHaveBeenCalledWith('wf_1', expect.objectContaining({ userId: 'user_1' }), {
+        enforceEntryRules: true,
+      });
+    });
+
+    it('should skip users outside the trigger segment', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any);
+
+      await triggerWorkflows({ appId: 'app_1', userId: 'user_2', eventName: 'signup' });
+
+      expect(executeWorkflow).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, validateTemplate } from '../lib/template.js';
+
+const context = {
+  userId: 'user_1',
+  count: 3,
+  user: {
+    name: 'ada lovelace',
+    attributes: { plan: 'pro', vip: true, signed_up_at: '2026-03-05T18:30:00Z' },
+  },
+};
+
+describe('template', () => {
+  describe('renderTemplate', () => {
+    it('should keep rendering flat placeholders', () => {
+      expect(renderTemplate('Hi {{userId}}, {{ missing }}!', context)).toBe('Hi user_1, !');
+    });
+
+    it('should resolve nested paths', () => {
+      expect(renderTemplate('Plan: {{ user.attributes.plan }}', context)).toBe('Plan: pro');
+      expect(renderTemplate('{{ user.attributes.plan.tier }}', context)).toBe('');
+    });
+
+    it('should apply defaults to missing or empty values', () => {
+      expect(renderTemplate('Hi {{ user.nickname | default: "there" }}', context)).toBe('Hi there');
+      expect(renderTemplate('{{ user.name | default: "there" }}', context)).toBe('ada lovelace');
+    });
+
+    it('should chain filters', () => {
+      expect(renderTemplate('{{ user.attributes.plan | upcase }}', context)).toBe('PRO');
+      expect(renderTemplate('{{ user.name | capitalize }}', context)).toBe('Ada lovelace');
+      expect(renderTemplate('{{ user.nickname | default: "FRIEND" | downcase }}', context)).toBe('friend');
+    });
+
+    it('should format dates on a timezone wall clock', () => {
+      expect(renderTemplate('{{ user.attributes.signed_up_at | date }}', context)).toBe('2026-03-05');
+      expect(renderTemplate('{{ user.attributes.signed_up_at | date: "MMM D, YYYY HH:mm", "Asia/Tokyo" }}', context))
+        .toBe('Mar 6, 2026 03:30');
+    });
+
+    it('should pluralize by count', () => {
+      expect(renderTemplate('{{ count }} {{ count | pluralize: "item" }}', context)).toBe('3 items');
+      expect(renderTemplate('{{ one | pluralize: "person", "people" }}', { one: 1 })).toBe('person');
+      expect(renderTemplate('{{ count | pluralize: "person", "people" }}', context)).toBe('people');
+    });
+
+    it('should render conditionals', () => {
+      const template = '{{#if user.attributes.vip}}VIP {{#if user.nickname}}{{user.nickname}}{{else}}{{user.attributes.plan}}{{/if}}{{else}}Regular{{/if}}';
+
+      expect(renderTemplate(template, context)).toBe('VIP pro');
+      expect(renderTemplate(template, { user: { attributes: { vip: false } } })).toBe('Regular');
+    });
+
+    it('should output malformed tags as written', () => {
+      expect(renderTemplate('Price {{ cost in $ }}', context)).toBe('Price {{ cost in $ }}');
+      expect(renderTemplate('{{/if}} done', context)).toBe('{{/if}} done');
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should accept valid templates', () => {
+      expect(validateTemplate('{{#if user.name}}Hi {{ user.name | capitalize }}{{/if}}')).toEqual({
+        valid: true,
+        errors: [],
+        unknownVariables: [],
+      });
+    });
+
+    it('should report syntax errors', () => {
+      expect(validateTemplate('{{#if vip}}Hi').errors).toEqual(['{{#if}} is missing its {{/if}}']);
+      expect(validateTemplate('Hi{{/if}}').errors).toEqual(['{{/if}} without {{#if}}']);
+      expect(validateTemplate('{{ name | shout }}').errors).toEqual(['Unknown filter "shout"']);
+      expect(validateTemplate('{{ name | default }}').errors).toEqual(['Filter "default" takes 1 argument(s)']);
+      expect(validateTemplate('{{ name | default: there }}').errors)
+        .toEqual(['Filter "default" arguments must be quoted strings or numbers']);
+      expect(validateTemplate('{{ first name }}').errors).toEqual(['Invalid variable "first name"']);
+    });
+
+    it('should report variables outside the known context', () => {
+      const result = validateTemplate('{{ user.name }} {{#if plan}}{{ event.amount }}{{/if}}', ['user', 'event']);
+
+      expect(result.valid).toBe(true);
+      expect(result.unknownVariables).toEqual(['plan']);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { computeRetryDelay, dispatchWebhook, redeliverWebhookDelivery, retryDueDeliveries } from '../services/webhookDispatchService.js';
+import { prisma } from '../lib/prisma.js';
+import { config } from '../config/index.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    webhook: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    webhookDelivery: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+  },
+}));
+
+const webhook = {
+  id: 'wh_1',
+  url: 'https://example.com/hook',
+  secret: 'secret',
+  isActive: true,
+  consecutiveFailures: 0,
+  failingSince: null,
+};
+
+function mockFetchResponse(status: number) {
+  vi.mocked(fetch).mockResolvedValue(new Response('body', { status }));
+}
+
+describe('webhook delivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', vi.fn());
+    vi.mocked(prisma.webhook.findMany).mockResolvedValue([webhook] as any);
+    vi.mocked(prisma.webhookDelivery.create).mockResolvedValue({
+      id: 'del_1',
+      event: 'message.created',
+      payload: { event: 'message.created' },
+      status: 'retrying',
+      attempts: 0,
+    } as any);
+    vi.mocked(prisma.webhook.update).mockResolvedValue({
+      consecutiveFailures: 1,
+      failingSince: new Date(),
+      isActive: true,
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should grow exponentially within the jitter band', () => {
+      const base = config.webhooks.retryBaseDelayMs;
+      expect(computeRetryDelay(1, () => 0)).toBe(Math.round(base * 0.8));
+      expect(computeRetryDelay(3, () => 1)).toBe(Math.round(base * 4 * 1.2));
+    });
+
+    it('should cap the delay', () => {
+      expect(computeRetryDelay(50, () => 0.5)).toBe(config.webhooks.retryMaxDelayMs);
+    });
+  });
+
+  describe('dispatchWebhook', () => {
+    it('should record a successful delivery', async () => {
+      mockFetchResponse(200);
+
+      await dispatchWebhook('app_1', 'message.created', { message_id: 'msg_1' });
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del_1' },
+        data: expect.objectContaining({ status: 'success', attempts: 1, nextRetryAt: null }),
+      });
+      expect(prisma.webhook.update).not.toHaveBeenCalled();
+    });
+
+    it('should schedule a retry after a transient failure', async () => {
+      mockFetchResponse(503);
+
+      await dispatchWebhook('app_1', 'message.created', { message_id: 'msg_1' });
+
+      const update = vi.mocked(prisma.webhookDelivery.update).mock.calls[0][0];
+      expect(update.data).toMatchObject({ status: 'retrying', attempts: 1, httpStatus: 503 });
+      expect(update.data.nextRetryAt).toBeInstanceOf(Date);
+      expect(prisma.webhook.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ consecutiveFailures: { increment: 1 } }),
+      }));
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      mockFetchResponse(500);
+      vi.mocked(prisma.webhookDelivery.create).mockResolvedValue({
+        id: 'del_1',
+        event: 'message.created',
+        payload: {},
+        status: 'retrying',
+        attempts: config.webhooks.maxAttempts - 1,
+      } as any);
+
+      await dispatchWebhook('app_1', 'message.created', {});
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del_1' },
+        data: expect.objectContaining({ status: 'failed', nextRetryAt: null }),
+      });
+    });
+
+    it('should disable a webhook after sustained failures', async () => {
+      mockFetchResponse(500);
+      vi.mocked(prisma.webhook.update).mockResolvedValueOnce({
+        consecutiveFailures: config.webhooks.disableAfterFailures,
+        failingSince: new Date(Date.now() - config.webhooks.disableAfterMs - 1000),
+        isActive: true,
+      } as any);
+
+      await dispatchWebhook('app_1', 'message.created', {});
+
+      expect(prisma.webhook.update).toHaveBeenLastCalledWith({
+        where: { id: 'wh_1' },
+        data: expect.objectContaining({ isActive: false, disabledAt: expect.any(Date) }),
+      });
+    });
+  });
+
+  describe('retryDueDeliveries', () => {
+    it('should skip deliveries claimed by another worker', async () => {
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { id: 'del_1', status: 'retrying', attempts: 2, nextRetryAt: new Date(), payload: {}, webhook },
+      ] as any);
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 0 } as any);
+
+      const retried = await retryDueDeliveries();
+
+      expect(retried).toBe(0);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should retry claimed deliveries', async () => {
+      mockFetchResponse(200);
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { id: 'del_1', status: 'retrying', attempts: 2, nextRetryAt: new Date(), payload: {}, webhook },
+      ] as any);
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 } as any);
+
+      const retried = await retryDueDeliveries();
+
+      expect(retried).toBe(1);
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del_1' },
+        data: expect.objectContaining({ status: 'success', attempts: 3 }),
+      });
+    });
+  });
+
+  describe('redeliverWebhookDelivery', () => {
+    it('should not redeliver a delivery the retry worker owns', async () => {
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue({
+        id: 'del_1', status: 'retrying', attempts: 2, payload: {}, webhook,
+      } as any);
+
+      await expect(redeliverWebhookDelivery('app_1', 'wh_1', 'del_1'))
+        .rejects.toMatchObject({ statusCode: 409, code: 'DELIVERY_IN_PROGRESS' });
+      expect(prisma.webhookDelivery.updateMany).not.toHaveBeenCalled();
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should not send when a concurrent redeliver claimed the delivery first', async () => {
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue({
+        id: 'del_1', status: 'failed', attempts: 5, payload: {}, webhook,
+      } as any);
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 0 } as any);
+
+      await expect(redeliverWebhookDelivery('app_1', 'wh_1', 'del_1'))
+        .rejects.toMatchObject({ statusCode: 409, code: 'DELIVERY_IN_PROGRESS' });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should claim a failed delivery and leave it failed if the attempt fails', async () => {
+      mockFetchResponse(500);
+      vi.mocked(prisma.webhookDelivery.findFirst).mockResolvedValue({
+        id: 'del_1', status: 'failed', attempts: 1, payload: {}, webhook,
+      } as any);
+      vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 } as any);
+
+      await redeliverWebhookDelivery('app_1', 'wh_1', 'del_1');
+
+      expect(prisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: { id: 'del_1', status: 'failed', attempts: 1 },
+        data: { status: 'retrying', nextRetryAt: expect.any(Date) },
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del_1' },
+        data: expect.objectContaining({ status: 'failed', attempts: 2, nextRetryAt: null }),
+      });
+      expect(prisma.webhook.update).not.toHaveBeenCalled();
+    });
+  });
+});
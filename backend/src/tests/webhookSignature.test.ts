@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { buildWebhookHeaders, verifyWebhookSignature } from '../lib/webhookSignature.js';
+import { getActiveSecrets } from '../services/webhookDispatchService.js';
+
+const body = JSON.stringify({ event: 'message.created', data: { message_id: 'msg_1' } });
+const now = 1_800_000_000;
+
+describe('webhook signatures', () => {
+  it('should verify a freshly signed request', () => {
+    const headers = buildWebhookHeaders(['secret_a'], 'del_1', body, now);
+    expect(verifyWebhookSignature(body, headers, 'secret_a', { now })).toBe(true);
+  });
+
+  it('should accept lower-cased headers as delivered by Express', () => {
+    const headers = Object.fromEntries(
+      Object.entries(buildWebhookHeaders(['secret_a'], 'del_1', body, now))
+        .map(([name, value]) => [name.toLowerCase(), value])
+    );
+    expect(verifyWebhookSignature(Buffer.from(body), headers, 'secret_a', { now })).toBe(true);
+  });
+
+  it('should keep sending the legacy body signature next to the v1 header', () => {
+    const headers = buildWebhookHeaders(['secret_new', 'secret_old'], 'del_1', body, now);
+    const legacy = crypto.createHmac('sha256', 'secret_new').update(body).digest('hex');
+
+    expect(headers['X-ReplyHQ-Signature']).toBe(`sha256=${legacy}`);
+    expect(headers['X-ReplyHQ-Signature-V1']).toMatch(/^v1=[0-9a-f]{64},v1=[0-9a-f]{64}$/);
+  });
+
+  it('should drop the legacy header once it is switched off', () => {
+    const headers = buildWebhookHeaders(['secret_a'], 'del_1', body, now, false);
+
+    expect(headers).not.toHaveProperty('X-ReplyHQ-Signature');
+    expect(verifyWebhookSignature(body, headers, 'secret_a', { now })).toBe(true);
+  });
+
+  it('should reject replays outside the tolerance window', () => {
+    const headers = buildWebhookHeaders(['secret_a'], 'del_1', body, now - 301);
+    expect(verifyWebhookSignature(body, headers, 'secret_a', { now })).toBe(false);
+  });
+
+  it('should reject a tampered body or delivery ID', () => {
+    const headers = buildWebhookHeaders(['secret_a'], 'del_1', body, now);
+    expect(verifyWebhookSignature(`${body} `, headers, 'secret_a', { now })).toBe(false);
+    expect(verifyWebhookSignature(body, { ...headers, 'X-ReplyHQ-Delivery-Id': 'del_2' }, 'secret_a', { now })).toBe(false);
+  });
+
+  it('should verify with either secret during a rotation window', () => {
+    const headers = buildWebhookHeaders(['secret_new', 'secret_old'], 'del_1', body, now);
+    expect(verifyWebhookSignature(body, headers, 'secret_old', { now })).toBe(true);
+    expect(verifyWebhookSignature(body, headers, 'secret_new', { now })).toBe(true);
+    expect(verifyWebhookSignature(body, headers, 'secret_other', { now })).toBe(false);
+  });
+
+  it('should stop signing with the previous secret once the window closes', () => {
+    const webhook = {
+      id: 'wh_1',
+      url: 'https://example.com',
+      secret: 'secret_new',
+      previousSecret: 'secret_old',
+      previousSecretExpiresAt: new Date('2030-01-02T00:00:00Z'),
+      consecutiveFailures: 0,
+      failingSince: null,
+    };
+
+    expect(getActiveSecrets(webhook, new Date('2030-01-01T00:00:00Z'))).toEqual(['secret_new', 'secret_old']);
+    expect(getActiveSecrets(webhook, new Date('2030-01-03T00:00:00Z'))).toEqual(['secret_new']);
+  });
+});
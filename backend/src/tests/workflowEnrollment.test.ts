@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkWorkflowEntry, parseWorkflowSettings } from '../services/workflowEnrollmentService.js';
+import { triggerWorkflows } from '../services/workflowTriggerService.js';
+import { executeWorkflow } from '../services/workflowEngine.js';
+import { createMessage } from '../services/messageService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    conversation: {
+      findFirst: vi.fn(),
+    },
+    app: {
+      findUnique: vi.fn(),
+    },
+    workflow: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    workflowExecution: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+    workflowStep: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/conversationService.js', () => ({
+  getOrCreateConversation: vi.fn().mockResolvedValue({ id: 'conv_1' }),
+}));
+
+vi.mock('../services/messageService.js', () => ({
+  createMessage: vi.fn().mockResolvedValue({ id: 'msg_1' }),
+}));
+
+const workflow = (settings: Record<string, unknown>) => ({
+  id: 'wf_1',
+  appId: 'app_1',
+  trigger: { type: 'event', event_name: 'app_opened' },
+  nodes: [{ id: 'hello', type: 'send_message', config: { body: 'Hi' } }],
+  edges: [],
+  settings,
+});
+
+describe('workflow enrollment', () => {
+  // Stands in for the advisory lock: a transaction that took it holds it until it ends
+  let lockQueue: Promise<void>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lockQueue = Promise.resolve();
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: (tx: unknown) => Promise<unknown>) => {
+      let release = () => {};
+      const tx = {
+        ...prisma,
+        $executeRaw: vi.fn(async () => {
+          const held = lockQueue;
+          lockQueue = new Promise<void>((resolve) => {
+            release = resolve;
+          });
+          await held;
+          return 1;
+        }),
+      };
+      try {
+        return await fn(tx);
+      } finally {
+        release();
+      }
+    }) as any);
+    vi.mocked(prisma.workflowExecution.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.workflowExecution.count).mockResolvedValue(0);
+    vi.mocked(prisma.workflowExecution.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.workflowExecution.create).mockResolvedValue({ id: 'exec_2' } as any);
+    vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+    vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_1' } as any);
+  });
+
+  describe('parseWorkflowSettings', () => {
+    it('should allow re-entry without limits by default', () => {
+      expect(parseWorkflowSettings({})).toEqual({
+        reEntry: 'always',
+        reEntryCooldownMs: null,
+        maxConcurrentPerUser: null,
+        exitEvent: null,
+      });
+    });
+
+    it('should read cooldowns and fall back to never when one is unreadable', () => {
+      expect(parseWorkflowSettings({ re_entry: 'after_cooldown', re_entry_cooldown: '7d', exit_event: 'purchase' }))
+        .toMatchObject({ reEntry: 'after_cooldown', reEntryCooldownMs: 7 * 24 * 60 * 60 * 1000, exitEvent: 'purchase' });
+      expect(parseWorkflowSettings({ re_entry: 'after_cooldown', re_entry_cooldown: 'weekly' }).reEntry).toBe('never');
+    });
+  });
+
+  describe('checkWorkflowEntry', () => {
+    it('should block users who already entered a never re-entry workflow', async () => {
+      vi.mocked(prisma.workflowExecution.findFirst).mockResolvedValue({ id: 'exec_1' } as any);
+
+      expect(await checkWorkflowEntry(workflow({ re_entry: 'never' }), 'user_1')).toBe('re_entry');
+      expect(prisma.workflowExecution.findFirst).toHaveBeenCalledWith({
+        where: { workflowId: 'wf_1', userId: 'user_1' },
+        select: { id: true },
+      });
+    });
+
+    it('should only look back over the cooldown', async () => {
+      const now = new Date('2026-10-19T12:00:00Z');
+
+      expect(await checkWorkflowEntry(workflow({ re_entry: 'after_cooldown', re_entry_cooldown: '1d' }), 'user_1', now))
+        .toBeNull();
+      expect(prisma.workflowExecution.findFirst).toHaveBeenCalledWith({
+        where: { workflowId: 'wf_1', userId: 'user_1', startedAt: { gte: new Date('2026-10-18T12:00:00Z') } },
+        select: { id: true },
+      });
+    });
+
+    it('should cap concurrent executions per user', async () => {
+      vi.mocked(prisma.workflowExecution.count).mockResolvedValue(2);
+
+      expect(await checkWorkflowEntry(workflow({ max_concurrent_per_user: 2 }), 'user_1')).toBe('concurrency_limit');
+      expect(prisma.workflowExecution.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('triggerWorkflows', () => {
+    it('should not start another execution when re-entry is blocked', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([workflow({ re_entry: 'never' })] as any);
+      vi.mocked(prisma.workflow.findUnique).mockResolvedValue(workflow({ re_entry: 'never' }) as any);
+      vi.mocked(prisma.workflowExecution.findFirst).mockResolvedValue({ id: 'exec_1' } as any);
+
+      await triggerWorkflows({ appId: 'app_1', userId: 'user_1', eventName: 'app_opened' });
+
+      expect(prisma.workflowExecution.findFirst).toHaveBeenCalled();
+      expect(prisma.workflowExecution.create).not.toHaveBeenCalled();
+    });
+
+    it('should enroll a user once when triggers for them race', async () => {
+      const started: string[] = [];
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([workflow({ re_entry: 'never' })] as any);
+      vi.mocked(prisma.workflow.findUnique).mockResolvedValue(workflow({ re_entry: 'never' }) as any);
+      vi.mocked(prisma.workflowExecution.findFirst).mockImplementation((async () =>
+        started.length > 0 ? { id: started[0] } : null) as any);
+      vi.mocked(prisma.workflowExecution.create).mockImplementation((async () => {
+        started.push(`exec_${started.length + 1}`);
+        return { id: started[started.length - 1] };
+      }) as any);
+
+      await Promise.all(
+        Array.from({ length: 10 }, () => triggerWorkflows({ appId: 'app_1', userId: 'user_1', eventName: 'app_opened' }))
+      );
+
+      expect(prisma.workflowExecution.findFirst).toHaveBeenCalledTimes(10);
+      expect(started).toEqual(['exec_1']);
+    });
+
+    it('should cancel running executions when the exit event is tracked', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([workflow({ exit_event: 'purchase' })] as any);
+      vi.mocked(prisma.workflowExecution.findMany).mockResolvedValue([{ id: 'exec_1' }] as any);
+
+      await triggerWorkflows({ appId: 'app_1', userId: 'user_1', eventName: 'purchase' });
+
+      expect(prisma.workflowExecution.findMany).toHaveBeenCalledWith({
+        where: { workflowId: { in: ['wf_1'] }, userId: 'user_1', status: 'RUNNING' },
+        select: { id: true },
+      });
+      expect(prisma.workflowExecution.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['exec_1'] }, status: 'RUNNING' },
+        data: { status: 'CANCELLED', completedAt: expect.any(Date), currentNodeId: null },
+      });
+      expect(prisma.workflowStep.updateMany).toHaveBeenCalledWith({
+        where: { executionId: { in: ['exec_1'] }, status: 'PENDING' },
+        data: {
+          status: 'SKIPPED',
+          output: { reason: 'exit_event', event_name: 'purchase' },
+          completedAt: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  it('should stop running nodes once the execution is cancelled', async () => {
+    vi.mocked(prisma.workflow.findUnique).mockResolvedValue(workflow({}) as any);
+    vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 0 });
+
+    await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+    expect(prisma.workflowStep.create).not.toHaveBeenCalled();
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+});
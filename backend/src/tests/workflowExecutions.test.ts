@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  cancelExecution,
+  moveExecution,
+  retryExecution,
+  skipExecutionWait,
+} from '../services/workflowExecutionService.js';
+import { continueExecution, resumeExecution } from '../services/workflowEngine.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    workflow: {
+      findUniqueOrThrow: vi.fn(),
+    },
+    workflowExecution: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    workflowStep: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    workflowExecutionAudit: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/workflowEngine.js', () => ({
+  continueExecution: vi.fn(),
+  resumeExecution: vi.fn(),
+}));
+
+const execution = (status: string, extra: Record<string, unknown> = {}) => ({
+  id: 'exec_1',
+  workflowId: 'wf_1',
+  userId: 'user_1',
+  workflowVersion: 2,
+  status,
+  currentNodeId: 'wait',
+  ...extra,
+}) as any;
+
+describe('workflow execution actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.workflowStep.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  it('should cancel a running execution, skip its waits and audit it', async () => {
+    await cancelExecution(execution('RUNNING'), 'admin_1');
+
+    expect(prisma.workflowExecution.updateMany).toHaveBeenCalledWith({
+      where: { id: 'exec_1', status: 'RUNNING' },
+      data: { status: 'CANCELLED', completedAt: expect.any(Date), currentNodeId: null },
+    });
+    expect(prisma.workflowStep.updateMany).toHaveBeenCalledWith({
+      where: { executionId: 'exec_1', status: 'PENDING' },
+      data: { status: 'SKIPPED', output: { reason: 'cancelled' }, completedAt: expect.any(Date) },
+    });
+    expect(prisma.workflowExecutionAudit.create).toHaveBeenCalledWith({
+      data: { executionId: 'exec_1', adminUserId: 'admin_1', action: 'cancel', details: {} },
+    });
+  });
+
+  it('should reject actions that do not fit the execution status', async () => {
+    await expect(cancelExecution(execution('COMPLETED'), 'admin_1')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'INVALID_EXECUTION_STATE',
+      message: 'Cannot cancel a completed execution',
+    });
+    await expect(retryExecution(execution('RUNNING'), 'admin_1')).rejects.toMatchObject({ statusCode: 409 });
+    expect(prisma.workflowExecutionAudit.create).not.toHaveBeenCalled();
+  });
+
+  it('should retry the last failed step', async () => {
+    vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue({ id: 'step_3', nodeId: 'hook' } as any);
+    vi.mocked(prisma.workflowStep.count).mockResolvedValue(1);
+
+    await retryExecution(execution('FAILED', { currentNodeId: 'hook' }), 'admin_1');
+
+    expect(prisma.workflowExecution.updateMany).toHaveBeenCalledWith({
+      where: { id: 'exec_1', status: 'FAILED' },
+      data: { status: 'RUNNING', errorMessage: null, completedAt: null, currentNodeId: 'hook', activeBranches: 2 },
+    });
+    expect(prisma.workflowExecutionAudit.create).toHaveBeenCalledWith({
+      data: { executionId: 'exec_1', adminUserId: 'admin_1', action: 'retry', details: { step_id: 'step_3', node_id: 'hook' } },
+    });
+    expect(continueExecution).toHaveBeenCalledWith('exec_1', 'hook');
+  });
+
+  it('should end a parked wait_for_event down the requested branch', async () => {
+    vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([
+      { id: 'step_2', nodeId: 'await', action: 'wait_for_event', output: { durationMs: 3600000, event_name: 'purchase' } },
+    ] as any);
+
+    await skipExecutionWait(execution('RUNNING'), { outcome: 'event' }, 'admin_1');
+
+    expect(prisma.workflowStep.updateMany).toHaveBeenCalledWith({
+      where: { id: 'step_2', status: 'PENDING' },
+      data: {
+        status: 'COMPLETED',
+        output: { durationMs: 3600000, event_name: 'purchase', outcome: 'event', skipped: true },
+        completedAt: expect.any(Date),
+      },
+    });
+    expect(resumeExecution).toHaveBeenCalledWith('exec_1', 'await', 'event');
+  });
+
+  it('should not resume a wait the scheduler already claimed', async () => {
+    vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([
+      { id: 'step_2', nodeId: 'wait', action: 'wait', output: { durationMs: 1000 } },
+    ] as any);
+    vi.mocked(prisma.workflowStep.updateMany).mockResolvedValue({ count: 0 });
+
+    await expect(skipExecutionWait(execution('RUNNING'), {}, 'admin_1')).rejects.toMatchObject({
+      message: 'The wait already ended',
+    });
+    expect(resumeExecution).not.toHaveBeenCalled();
+  });
+
+  it('should ask which wait to skip when parallel paths are waiting', async () => {
+    vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([{ id: 'step_2' }, { id: 'step_3' }] as any);
+
+    await expect(skipExecutionWait(execution('RUNNING'), {}, 'admin_1')).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'STEP_ID_REQUIRED',
+    });
+  });
+
+  it('should move an execution to a node of its pinned version', async () => {
+    vi.mocked(prisma.workflow.findUniqueOrThrow).mockResolvedValue({
+      id: 'wf_1',
+      version: 2,
+      nodes: [{ id: 'wait', type: 'wait' }, { id: 'thanks', type: 'send_message' }],
+      edges: [{ from: 'wait', to: 'thanks' }],
+    } as any);
+
+    await moveExecution(execution('RUNNING'), 'thanks', 'admin_1');
+
+    expect(prisma.workflowExecution.updateMany).toHaveBeenCalledWith({
+      where: { id: 'exec_1', status: 'RUNNING' },
+      data: {
+        status: 'RUNNING',
+        errorMessage: null,
+        completedAt: null,
+        currentNodeId: 'thanks',
+        activeBranches: 1,
+        movedAt: expect.any(Date),
+      },
+    });
+    expect(prisma.workflowStep.updateMany).toHaveBeenCalledWith({
+      where: { executionId: 'exec_1', status: 'PENDING' },
+      data: { status: 'SKIPPED', output: { reason: 'moved', node_id: 'thanks' }, completedAt: expect.any(Date) },
+    });
+    expect(prisma.workflowExecutionAudit.create).toHaveBeenCalledWith({
+      data: {
+        executionId: 'exec_1',
+        adminUserId: 'admin_1',
+        action: 'move',
+        details: { from_node_id: 'wait', node_id: 'thanks' },
+      },
+    });
+    expect(continueExecution).toHaveBeenCalledWith('exec_1', 'thanks');
+
+    await expect(moveExecution(execution('RUNNING'), 'missing', 'admin_1')).rejects.toMatchObject({
+      code: 'INVALID_NODE',
+    });
+  });
+
+  it('should refuse to move an execution between a fan_out and its join', async () => {
+    vi.mocked(prisma.workflow.findUniqueOrThrow).mockResolvedValue({
+      id: 'wf_1',
+      version: 2,
+      nodes: [
+        { id: 'split', type: 'fan_out' },
+        { id: 'a', type: 'send_message' },
+        { id: 'b', type: 'send_message' },
+        { id: 'merge', type: 'join' },
+        { id: 'after', type: 'send_message' },
+      ],
+      edges: [
+        { from: 'split', to: 'a' },
+        { from: 'split', to: 'b' },
+        { from: 'a', to: 'merge' },
+        { from: 'b', to: 'merge' },
+        { from: 'merge', to: 'after' },
+      ],
+    } as any);
+
+    for (const nodeId of ['a', 'merge']) {
+      await expect(moveExecution(execution('FAILED'), nodeId, 'admin_1')).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_NODE',
+      });
+    }
+    expect(prisma.workflowExecution.updateMany).not.toHaveBeenCalled();
+
+    await moveExecution(execution('FAILED'), 'split', 'admin_1');
+    await moveExecution(execution('FAILED'), 'after', 'admin_1');
+    expect(continueExecution).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { failStalledSteps, runSchedulerTick } from '../services/workflowScheduler.js';
+import { resumeExecution } from '../services/workflowEngine.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    workflowExecution: {
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/workflowEngine.js', () => ({
+  resumeExecution: vi.fn(),
+}));
+
+const claimed = (id: string, action = 'wait') => ({
+  id,
+  execution_id: `exec_${id}`,
+  node_id: 'pause',
+  action,
+});
+
+describe('workflow scheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(resumeExecution).mockResolvedValue(undefined);
+  });
+
+  it('should claim due steps in batches until the queue is drained', async () => {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([claimed('1'), claimed('2', 'wait_for_event')] as any)
+      .mockResolvedValueOnce([claimed('3')] as any);
+
+    const resumed = await runSchedulerTick(new Date('2026-10-19T12:00:00Z'), 2);
+
+    expect(resumed).toBe(3);
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+    expect(resumeExecution).toHaveBeenCalledWith('exec_2', 'pause', 'timeout');
+  });
+
+  it('should only read steps that are due and lock them while claiming', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any);
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    await runSchedulerTick(now, 50);
+
+    const [query] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any;
+    expect(query.sql).toContain('resume_at <= ?');
+    expect(query.sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(query.values).toEqual([now, now, 50]);
+  });
+
+  it('should keep going when one execution fails to resume', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([claimed('1'), claimed('2')] as any);
+    vi.mocked(resumeExecution).mockRejectedValueOnce(new Error('boom'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await runSchedulerTick(new Date(), 10)).toBe(1);
+    expect(resumeExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close claimed retry steps as failed attempts', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([claimed('1', 'webhook')] as any);
+
+    await runSchedulerTick(new Date(), 10);
+
+    const [query] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any;
+    expect(query.sql).toContain("WHEN action IN ('wait', 'wait_for_event') THEN 'COMPLETED' ELSE 'FAILED'");
+    expect(resumeExecution).toHaveBeenCalledWith('exec_1', 'pause', 'timeout');
+  });
+
+  it('should fail steps left running past the timeout along with their executions', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([
+      { execution_id: 'exec_1' },
+      { execution_id: 'exec_1' },
+      { execution_id: 'exec_2' },
+    ] as any);
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    expect(await failStalledSteps(now, 15 * 60 * 1000)).toBe(3);
+
+    const [query] = vi.mocked(prisma.$queryRaw).mock.calls[0] as any;
+    expect(query.sql).toContain("WHERE status = 'RUNNING' AND started_at <= ?");
+    expect(query.values).toEqual([now, 'Step did not finish in time', new Date('2026-10-19T11:45:00Z')]);
+    expect(prisma.workflowExecution.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['exec_1', 'exec_2'] }, status: 'RUNNING' },
+      data: { status: 'FAILED', errorMessage: 'Step did not finish in time' },
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { simulateWorkflow } from '../services/workflowSimulator.js';
+import { simulateWorkflowSchema } from '../schemas/workflow.js';
+import type { WorkflowEdge, WorkflowNode } from '../services/workflowUtils.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {},
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const simulate = (nodes: WorkflowNode[], edges: WorkflowEdge[], input: Record<string, unknown> = {}) =>
+  simulateWorkflow({ appId: 'app_1', nodes, edges }, simulateWorkflowSchema.parse(input), now);
+
+describe('simulateWorkflow', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should follow condition branches and render messages from the payload', () => {
+    const result = simulate(
+      [
+        { id: 'check', type: 'condition', config: { field: 'plan', operator: 'eq', value: 'pro' }, branches: { true: 'pro', false: 'free' } },
+        { id: 'pro', type: 'send_message', config: { body: 'Thanks {{name}}!' } },
+        { id: 'free', type: 'send_message', config: { body: 'Upgrade, {{name}}?' } },
+      ],
+      [],
+      { userId: 'user_1', payload: { plan: 'pro', name: 'Ada' } }
+    );
+
+    expect(result.path.map((step) => step.nodeId)).toEqual(['check', 'pro']);
+    expect(result.path[0].output).toEqual({ result: true });
+    expect(result.messages).toEqual([{ nodeId: 'pro', channel: 'message', body: 'Thanks Ada!' }]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should answer event history conditions from the given event counts', () => {
+    const nodes: WorkflowNode[] = [
+      {
+        id: 'check',
+        type: 'condition',
+        config: {
+          operator: 'AND',
+          conditions: [
+            { field: 'user.attributes.plan', operator: 'in', value: ['pro', 'team'] },
+            { type: 'event', event_name: 'purchase', within: '7d', operator: 'gte', value: 2 },
+          ],
+        },
+        branches: { true: 'vip', false: 'regular' },
+      },
+      { id: 'vip', type: 'send_message', config: { body: 'VIP' } },
+      { id: 'regular', type: 'send_message', config: { body: 'Regular' } },
+    ];
+    const input = { user: { attributes: { plan: 'pro' } } };
+
+    expect(simulate(nodes, [], { ...input, eventCounts: { purchase: 2 } }).messages[0].body).toBe('VIP');
+    expect(simulate(nodes, [], input).messages[0].body).toBe('Regular');
+  });
+
+  it('should skip over waits on a simulated clock', () => {
+    const result = simulate(
+      [
+        { id: 'wait', type: 'wait', config: { duration: '2d' } },
+        { id: 'push', type: 'send_push', config: { title: 'Hi', body: 'Still there, {{userId}}?' } },
+      ],
+      [{ from: 'wait', to: 'push' }],
+      { userId: 'user_1' }
+    );
+
+    expect(result.path[1]).toMatchObject({ nodeId: 'push', status: 'COMPLETED', at: '2026-10-21T12:00:00.000Z' });
+    expect(result.messages).toEqual([{ nodeId: 'push', channel: 'push', title: 'Hi', body: 'Still there, user_1?' }]);
+    expect(result.durationMs).toBe(2 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should take the timeout branch of wait_for_event when asked to', () => {
+    const nodes: WorkflowNode[] = [
+      { id: 'await', type: 'wait_for_event', config: { event_name: 'purchase', timeout: '1h' }, branches: { timeout: 'nudge' } },
+      { id: 'thanks', type: 'send_message', config: { body: 'Thanks!' } },
+      { id: 'nudge', type: 'send_message', config: { body: 'Forgot something?' } },
+    ];
+    const edges = [{ from: 'await', to: 'thanks' }, { from: 'await', to: 'nudge' }];
+
+    expect(simulate(nodes, edges).path.map((step) => step.nodeId)).toEqual(['await', 'thanks']);
+
+    const timedOut = simulate(nodes, edges, { waitForEvent: 'timeout' });
+    expect(timedOut.path.map((step) => step.nodeId)).toEqual(['await', 'nudge']);
+    expect(timedOut.path[1].at).toBe('2026-10-19T13:00:00.000Z');
+  });
+
+  it('should continue past an "all" join once every branch arrives', () => {
+    const result = simulate(
+      [
+        { id: 'split', type: 'fan_out' },
+        { id: 'slow', type: 'wait', config: { duration: '1h' } },
+        { id: 'fast', type: 'send_message', config: { body: 'Fast' } },
+        { id: 'merge', type: 'join', config: { mode: 'all' } },
+        { id: 'done', type: 'send_message', config: { body: 'Done' } },
+      ],
+      [
+        { from: 'split', to: 'slow' },
+        { from: 'split', to: 'fast' },
+        { from: 'slow', to: 'merge' },
+        { from: 'fast', to: 'merge' },
+        { from: 'merge', to: 'done' },
+      ]
+    );
+
+    expect(result.path.filter((step) => step.nodeId === 'done')).toEqual([
+      expect.objectContaining({ at: '2026-10-19T13:00:00.000Z' }),
+    ]);
+  });
+
+  it('should preview actions without running them', () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = simulate(
+      [{ id: 'hook', type: 'webhook', config: { url: 'https://example.com/hook', body: { user: '{{userId}}' } } }],
+      [],
+      { userId: 'user_1' }
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.path[0].output).toEqual({ method: 'POST', url: 'https://example.com/hook', body: { user: 'user_1' } });
+  });
+
+  it('should stop at the first error', () => {
+    const result = simulate(
+      [
+        { id: 'attr', type: 'set_user_attribute', config: {} },
+        { id: 'after', type: 'send_message', config: { body: 'Never sent' } },
+      ],
+      [{ from: 'attr', to: 'after' }]
+    );
+
+    expect(result.path).toEqual([expect.objectContaining({ nodeId: 'attr', status: 'FAILED' })]);
+    expect(result.errors).toEqual([{ nodeId: 'attr', message: expect.stringContaining('Invalid set_user_attribute config') }]);
+    expect(result.messages).toEqual([]);
+  });
+});
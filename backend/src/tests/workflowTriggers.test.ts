@@ -0,0 +1,317 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getNextCronRun, parseCron } from '../lib/cron.js';
+import { workflowTriggerSchema } from '../schemas/workflow.js';
+import {
+  enrollUsers,
+  fireWorkflowTrigger,
+  runScheduledTriggers,
+  startEnrollment,
+  triggerWorkflows,
+} from '../services/workflowTriggerService.js';
+import { executeWorkflow } from '../services/workflowEngine.js';
+import { isUserInSegment, resolveSegmentUserIds } from '../services/segmentService.js';
+import { broadcastToApp } from '../services/socketService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    workflow: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    workflowStep: {
+      findMany: vi.fn(),
+    },
+    segment: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    segmentTriggerMember: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/workflowEngine.js', () => ({
+  executeWorkflow: vi.fn(),
+  resumeExecution: vi.fn(),
+}));
+
+vi.mock('../services/segmentService.js', () => ({
+  isUserInSegment: vi.fn(),
+  resolveSegmentUserIds: vi.fn(),
+}));
+
+vi.mock('../services/workflowEnrollmentService.js', () => ({
+  exitWorkflowExecutions: vi.fn(),
+}));
+
+vi.mock('../services/socketService.js', () => ({
+  broadcastToApp: vi.fn(),
+}));
+
+const workflow = (trigger: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+  id: 'wf_1',
+  appId: 'app_1',
+  trigger,
+  settings: {},
+  nextRunAt: null,
+  ...extra,
+});
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('workflow triggers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.workflow.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.segment.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.segmentTriggerMember.findMany).mockResolvedValue([]);
+    vi.mocked(isUserInSegment).mockResolvedValue(true);
+    vi.mocked(resolveSegmentUserIds).mockResolvedValue([]);
+    vi.mocked(executeWorkflow).mockResolvedValue(true);
+  });
+
+  describe('cron', () => {
+    it('should reject malformed expressions', () => {
+      expect(parseCron('* * * *')).toBeNull();
+      expect(parseCron('61 * * * *')).toBeNull();
+      expect(parseCron('0 9 * * mon')).toBeNull();
+      expect(parseCron('*/15 9-17 * * 1-5')).not.toBeNull();
+    });
+
+    it('should find the next run after a time', () => {
+      expect(getNextCronRun('*/15 * * * *', new Date('2026-10-19T10:07:00Z')))
+        .toEqual(new Date('2026-10-19T10:15:00Z'));
+      expect(getNextCronRun('0 9 * * 7', now)).toEqual(new Date('2026-10-25T09:00:00Z'));
+    });
+
+    it('should evaluate the schedule on the wall clock of a timezone', () => {
+      // 2026-10-19 is a Monday, 08:00 in New York
+      expect(getNextCronRun('0 9 * * 1', now, 'America/New_York'))
+        .toEqual(new Date('2026-10-19T13:00:00Z'));
+    });
+
+    it('should return null for schedules that never fire', () => {
+      expect(getNextCronRun('0 0 30 2 *', now)).toBeNull();
+    });
+  });
+
+  describe('workflowTriggerSchema', () => {
+    it('should require a segment and a valid cron for schedule triggers', () => {
+      expect(workflowTriggerSchema.safeParse({ type: 'schedule', cron: '0 9 * * 1' }).success).toBe(false);
+      expect(workflowTriggerSchema.safeParse({ type: 'schedule', cron: 'daily', segment_id: 'seg_1' }).success).toBe(false);
+      expect(workflowTriggerSchema.safeParse({
+        type: 'schedule',
+        cron: '0 9 * * 1',
+        timezone: 'Europe/Berlin',
+        segment_id: 'seg_1',
+      }).success).toBe(true);
+    });
+
+    it('should reject unknown trigger types', () => {
+      expect(workflowTriggerSchema.safeParse({ type: 'page_viewed' }).success).toBe(false);
+      expect(workflowTriggerSchema.safeParse({ type: 'user_identified' }).success).toBe(true);
+    });
+  });
+
+  describe('triggerWorkflows', () => {
+    it('should start event workflows only when the property filters match', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({
+          type: 'event',
+          event_name: 'purchase',
+          filters: [{ field: 'amount', operator: 'gt', value: 100 }],
+        }),
+      ] as any);
+
+      await triggerWorkflows({ appId: 'app_1', userId: 'user_1', eventName: 'purchase', properties: { amount: 50 } });
+      expect(executeWorkflow).not.toHaveBeenCalled();
+
+      await triggerWorkflows({ appId: 'app_1', userId: 'user_1', eventName: 'purchase', properties: { amount: 150 } });
+      expect(executeWorkflow).toHaveBeenCalledWith('wf_1', {
+        userId: 'user_1',
+        deviceId: null,
+        payload: { amount: 150 },
+      }, { enforceEntryRules: true });
+    });
+  });
+
+  describe('fireWorkflowTrigger', () => {
+    it('should start workflows with the matching trigger type', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([workflow({ type: 'user_identified' })] as any);
+
+      await fireWorkflowTrigger('app_1', 'user_identified', {
+        userId: 'user_1',
+        deviceId: 'device_1',
+        properties: { plan: 'pro' },
+      });
+
+      expect(prisma.workflow.findMany).toHaveBeenCalledWith({
+        where: { appId: 'app_1', status: 'ACTIVE', trigger: { path: ['type'], equals: 'user_identified' } },
+      });
+      expect(executeWorkflow).toHaveBeenCalledWith('wf_1', {
+        userId: 'user_1',
+        deviceId: 'device_1',
+        payload: { plan: 'pro' },
+      }, { enforceEntryRules: true });
+    });
+
+    it('should skip users outside the trigger segment', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'message_received', segment_id: 'seg_1' }),
+      ] as any);
+      vi.mocked(isUserInSegment).mockResolvedValue(false);
+
+      await fireWorkflowTrigger('app_1', 'message_received', { userId: 'user_1' });
+
+      expect(isUserInSegment).toHaveBeenCalledWith('app_1', 'seg_1', 'user_1');
+      expect(executeWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the lookup fails', async () => {
+      vi.mocked(prisma.workflow.findMany).mockRejectedValue(new Error('db down'));
+
+      await expect(fireWorkflowTrigger('app_1', 'conversation_created', { userId: 'user_1' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('enrollUsers', () => {
+    it('should report users kept out by entry rules as skipped', async () => {
+      vi.mocked(executeWorkflow).mockImplementation(async (_workflowId, trigger) => trigger.userId !== 'user_2');
+
+      const result = await enrollUsers(workflow({ type: 'manual', segment_id: 'seg_1' }), ['user_1', 'user_2']);
+
+      expect(result).toEqual({ enrolled: ['user_1'], skipped: ['user_2'] });
+      expect(isUserInSegment).not.toHaveBeenCalled();
+      expect(executeWorkflow).toHaveBeenCalledWith('wf_1', expect.objectContaining({ userId: 'user_2' }), {
+        enforceEntryRules: true,
+      });
+    });
+
+    it('should enroll in the background and report progress on the admin socket', async () => {
+      const userIds = Array.from({ length: 120 }, (_, index) => `user_${index}`);
+      vi.mocked(executeWorkflow).mockImplementation(async (_workflowId, trigger) => trigger.userId !== 'user_7');
+
+      startEnrollment(workflow({ type: 'manual' }), userIds);
+      expect(broadcastToApp).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => expect(broadcastToApp).toHaveBeenCalledTimes(3));
+      expect(vi.mocked(broadcastToApp).mock.calls.map(([, , event]) => [event.status, event.enrolled + event.skipped]))
+        .toEqual([['enrolling', 50], ['enrolling', 100], ['completed', 120]]);
+      expect(broadcastToApp).toHaveBeenLastCalledWith('app_1', 'workflow:enrollment', {
+        workflow_id: 'wf_1',
+        status: 'completed',
+        total: 120,
+        enrolled: 119,
+        skipped: 1,
+        skipped_user_ids: ['user_7'],
+      });
+    });
+  });
+
+  describe('runScheduledTriggers', () => {
+    it('should only schedule the first run of a new schedule', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'schedule', cron: '0 9 * * *', segment_id: 'seg_1' }),
+      ] as any);
+
+      await runScheduledTriggers(now);
+
+      expect(prisma.workflow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'wf_1', nextRunAt: null },
+        data: { nextRunAt: new Date('2026-10-20T09:00:00Z') },
+      });
+      expect(resolveSegmentUserIds).not.toHaveBeenCalled();
+    });
+
+    it('should enroll the segment when a scheduled run is due', async () => {
+      const nextRunAt = new Date('2026-10-19T09:00:00Z');
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'schedule', cron: '0 9 * * *', segment_id: 'seg_1' }, { nextRunAt }),
+      ] as any);
+      vi.mocked(resolveSegmentUserIds).mockResolvedValue(['user_1', 'user_2']);
+
+      await runScheduledTriggers(now);
+
+      expect(prisma.workflow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'wf_1', nextRunAt },
+        data: { nextRunAt: new Date('2026-10-20T09:00:00Z') },
+      });
+      expect(executeWorkflow).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip a run another instance claimed', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'schedule', cron: '0 9 * * *', segment_id: 'seg_1' }, { nextRunAt: new Date('2026-10-19T09:00:00Z') }),
+      ] as any);
+      vi.mocked(prisma.workflow.updateMany).mockResolvedValue({ count: 0 });
+
+      await runScheduledTriggers(now);
+
+      expect(resolveSegmentUserIds).not.toHaveBeenCalled();
+      expect(executeWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should record a baseline on the first segment check without enrolling', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'segment_entered', segment_id: 'seg_1' }),
+      ] as any);
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({ triggerSnapshotAt: null } as any);
+      vi.mocked(resolveSegmentUserIds).mockResolvedValue(['user_1']);
+
+      await runScheduledTriggers(now);
+
+      expect(prisma.segmentTriggerMember.createMany).toHaveBeenCalledWith({
+        data: [{ segmentId: 'seg_1', userId: 'user_1' }],
+        skipDuplicates: true,
+      });
+      expect(executeWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should enroll users who entered or left a segment since the last check', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'segment_entered', segment_id: 'seg_1' }),
+        workflow({ type: 'segment_exited', segment_id: 'seg_1' }, { id: 'wf_2' }),
+      ] as any);
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({
+        triggerSnapshotAt: new Date(now.getTime() - 6 * 60 * 1000),
+      } as any);
+      vi.mocked(prisma.segmentTriggerMember.findMany).mockResolvedValue([
+        { userId: 'user_1' },
+        { userId: 'user_2' },
+      ] as any);
+      vi.mocked(resolveSegmentUserIds).mockResolvedValue(['user_2', 'user_3']);
+
+      await runScheduledTriggers(now);
+
+      expect(prisma.segmentTriggerMember.deleteMany).toHaveBeenCalledWith({
+        where: { segmentId: 'seg_1', userId: { in: ['user_1'] } },
+      });
+      expect(executeWorkflow).toHaveBeenCalledWith('wf_1', expect.objectContaining({ userId: 'user_3' }), {
+        enforceEntryRules: true,
+      });
+      expect(executeWorkflow).toHaveBeenCalledWith('wf_2', expect.objectContaining({ userId: 'user_1' }), {
+        enforceEntryRules: true,
+      });
+      expect(executeWorkflow).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not check a segment again before the interval passes', async () => {
+      vi.mocked(prisma.workflow.findMany).mockResolvedValue([
+        workflow({ type: 'segment_exited', segment_id: 'seg_1' }),
+      ] as any);
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({
+        triggerSnapshotAt: new Date(now.getTime() - 60 * 1000),
+      } as any);
+
+      await runScheduledTriggers(now);
+
+      expect(prisma.segment.updateMany).not.toHaveBeenCalled();
+      expect(resolveSegmentUserIds).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { diffWorkflowDefinitions, rollbackWorkflow } from '../services/workflowVersionService.js';
+import { continueExecution } from '../services/workflowEngine.js';
+import { createMessage } from '../services/messageService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    app: {
+      findUnique: vi.fn(),
+    },
+    workflow: {
+      update: vi.fn(),
+    },
+    workflowVersion: {
+      findUnique: vi.fn(),
+    },
+    workflowExecution: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    workflowStep: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/conversationService.js', () => ({
+  getOrCreateConversation: vi.fn().mockResolvedValue({ id: 'conv_1' }),
+}));
+
+vi.mock('../services/messageService.js', () => ({
+  createMessage: vi.fn().mockResolvedValue({ id: 'msg_1' }),
+}));
+
+const definition = {
+  trigger: { type: 'event', event_name: 'signup' },
+  nodes: [
+    { id: 'welcome', type: 'send_message', config: { body: 'Welcome' } },
+    { id: 'tips', type: 'send_message', config: { body: 'Tips' } },
+  ],
+  edges: [{ from: 'welcome', to: 'tips' }],
+  settings: {},
+};
+
+describe('workflow versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('diffWorkflowDefinitions', () => {
+    it('should report added, removed and changed nodes and edges', () => {
+      const next = {
+        ...definition,
+        nodes: [
+          { id: 'welcome', type: 'send_message', config: { body: 'Hello!' } },
+          { id: 'survey', type: 'send_message', config: { body: 'How was it?' } },
+        ],
+        edges: [{ from: 'welcome', to: 'survey' }],
+      };
+
+      expect(diffWorkflowDefinitions(definition, next)).toEqual({
+        nodes: {
+          added: [next.nodes[1]],
+          removed: [definition.nodes[1]],
+          changed: [{ id: 'welcome', from: definition.nodes[0], to: next.nodes[0] }],
+        },
+        edges: {
+          added: [{ from: 'welcome', to: 'survey' }],
+          removed: [{ from: 'welcome', to: 'tips' }],
+        },
+      });
+    });
+
+    it('should include the trigger and settings only when they changed', () => {
+      const diff = diffWorkflowDefinitions(definition, { ...definition, settings: { re_entry: 'never' } });
+
+      expect(diff.trigger).toBeUndefined();
+      expect(diff.settings).toEqual({ from: {}, to: { re_entry: 'never' } });
+    });
+  });
+
+  describe('rollbackWorkflow', () => {
+    it('should save the restored definition as a new version', async () => {
+      vi.mocked(prisma.workflowVersion.findUnique).mockResolvedValue({ version: 1, ...definition } as any);
+
+      const version = await rollbackWorkflow({ id: 'wf_1', version: 3 }, '1', 'admin_1');
+
+      expect(version).toBe(4);
+      expect(prisma.workflowVersion.findUnique).toHaveBeenCalledWith({
+        where: { workflowId_version: { workflowId: 'wf_1', version: 1 } },
+      });
+      expect(prisma.workflow.update).toHaveBeenCalledWith({
+        where: { id: 'wf_1' },
+        data: {
+          ...definition,
+          nextRunAt: null,
+          version: 4,
+          versions: { create: { version: 4, ...definition, createdBy: 'admin_1' } },
+        },
+      });
+    });
+
+    it('should 409 when a concurrent save took the version first', async () => {
+      vi.mocked(prisma.workflowVersion.findUnique).mockResolvedValue({ version: 1, ...definition } as any);
+      vi.mocked(prisma.workflow.update).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5' })
+      );
+
+      await expect(rollbackWorkflow({ id: 'wf_1', version: 3 }, 1, 'admin_1'))
+        .rejects.toMatchObject({ statusCode: 409, code: 'WORKFLOW_VERSION_CONFLICT' });
+    });
+
+    it('should 404 for an unknown version', async () => {
+      vi.mocked(prisma.workflowVersion.findUnique).mockResolvedValue(null);
+
+      await expect(rollbackWorkflow({ id: 'wf_1', version: 3 }, 9, 'admin_1'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'WORKFLOW_VERSION_NOT_FOUND' });
+      expect(prisma.workflow.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('execution pinning', () => {
+    it('should continue on the version the execution started on', async () => {
+      vi.mocked(prisma.workflowExecution.findUnique).mockResolvedValue({
+        id: 'exec_1',
+        status: 'RUNNING',
+        userId: 'user_1',
+        deviceId: 'dev_1',
+        workflowVersion: 1,
+        context: { userId: 'user_1' },
+        workflow: {
+          id: 'wf_1',
+          appId: 'app_1',
+          version: 2,
+          nodes: [{ id: 'welcome', type: 'send_message', config: { body: 'Hello!' } }],
+          edges: [],
+        },
+      } as any);
+      vi.mocked(prisma.workflowVersion.findUnique).mockResolvedValue({
+        nodes: definition.nodes,
+        edges: definition.edges,
+      } as any);
+      vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+      vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_1' } as any);
+
+      await continueExecution('exec_1', 'tips');
+
+      expect(prisma.workflowVersion.findUnique).toHaveBeenCalledWith({
+        where: { workflowId_version: { workflowId: 'wf_1', version: 1 } },
+        select: { nodes: true, edges: true },
+      });
+      expect(vi.mocked(createMessage).mock.calls.map(([, input]) => input.body)).toEqual(['Tips']);
+    });
+  });
+});
@@ -0,0 +1,970 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { evaluateCondition, getWaitForEventNextNodeId, validateWorkflowGraph } from '../services/workflowUtils.js';
+import { continueExecution, executeWorkflow, finishBranch, resumeExecution } from '../services/workflowEngine.js';
+import { isSafeRegex } from '../lib/safeRegex.js';
+import { isBlockedAddress } from '../lib/outboundUrl.js';
+import { getWorkflowTemplateWarnings, validateWorkflowNodeConfigs } from '../services/workflowActions.js';
+import { triggerWorkflows } from '../services/workflowTriggerService.js';
+import { createMessage } from '../services/messageService.js';
+import { prisma } from '../lib/prisma.js';
+
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    conversation: {
+      findFirst: vi.fn(),
+    },
+    app: {
+      findUnique: vi.fn(),
+    },
+    workflow: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    workflowExecution: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    workflowStep: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+    segment: {
+      findFirst: vi.fn(),
+    },
+    segmentMember: {
+      upsert: vi.fn(),
+    },
+    event: {
+      count: vi.fn(),
+    },
+  },
+}));
+
+// Hosts resolve without the network; anything unlisted is public
+const resolvedHosts: Record<string, string> = { 'internal.example.com': '10.0.0.5' };
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async (hostname: string) => [{ address: resolvedHosts[hostname] ?? '93.184.216.34', family: 4 }]),
+}));
+
+vi.mock('../services/conversationService.js', () => ({
+  getOrCreateConversation: vi.fn().mockResolvedValue({ id: 'conv_1' }),
+}));
+
+vi.mock('../services/messageService.js', () => ({
+  createMessage: vi.fn().mockResolvedValue({ id: 'msg_1' }),
+}));
+
+const node = (id: string, type = 'send_message', extra: Record<string, unknown> = {}) => ({
+  id,
+  type,
+  config: { body: id },
+  ...extra,
+});
+
+function mockWorkflow(nodes: unknown[], edges: unknown[]) {
+  vi.mocked(prisma.workflow.findUnique).mockResolvedValue({ id: 'wf_1', appId: 'app_1', nodes, edges } as any);
+}
+
+describe('workflows', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.conversation.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue(null);
+  });
+
+  describe('validateWorkflowGraph', () => {
+    it('should accept a fan-out that joins back together', () => {
+      expect(validateWorkflowGraph(
+        [node('start', 'fan_out'), node('a'), node('b'), node('done', 'join', { config: { mode: 'any' } })],
+        [
+          { from: 'start', to: 'a' },
+          { from: 'start', to: 'b' },
+          { from: 'a', to: 'done' },
+          { from: 'b', to: 'done' },
+        ]
+      )).toEqual([]);
+    });
+
+    it('should accept condition branches alongside matching edges', () => {
+      expect(validateWorkflowGraph(
+        [node('check', 'condition', { branches: { true: 'yes', false: 'no' } }), node('yes'), node('no')],
+        [{ from: 'check', to: 'yes' }]
+      )).toEqual([]);
+    });
+
+    it('should accept an on_error branch on any node', () => {
+      expect(validateWorkflowGraph(
+        [node('hook', 'webhook', { branches: { on_error: 'alert' } }), node('after'), node('alert')],
+        [{ from: 'hook', to: 'after' }]
+      )).toEqual([]);
+      expect(validateWorkflowGraph([node('a', 'send_message', { branches: { on_error: 'ghost' } })], []))
+        .toEqual([{ path: 'nodes[0].branches.on_error', message: 'Branch references unknown node "ghost"' }]);
+    });
+
+    it('should locate dangling edges', () => {
+      expect(validateWorkflowGraph([node('a'), node('b')], [{ from: 'a', to: 'b' }, { from: 'b', to: 'ghost' }]))
+        .toEqual([{ path: 'edges[1].to', message: 'Edge to references unknown node "ghost"' }]);
+    });
+
+    it('should locate the link that closes a cycle', () => {
+      expect(validateWorkflowGraph(
+        [node('a'), node('b'), node('c')],
+        [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }, { from: 'c', to: 'b' }]
+      )).toEqual([{ path: 'edges[2]', message: 'Link from "c" to "b" creates a cycle' }]);
+    });
+
+    it('should reject a graph where every node is on a cycle', () => {
+      expect(validateWorkflowGraph([node('a'), node('b')], [{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }]))
+        .toEqual([{ path: 'nodes', message: 'Workflow has no start node (every node has an incoming edge)' }]);
+    });
+
+    it('should report orphan nodes', () => {
+      expect(validateWorkflowGraph([node('a'), node('b'), node('lonely')], [{ from: 'a', to: 'b' }]))
+        .toEqual([{ path: 'nodes[2]', message: 'Node "lonely" is not reachable from the start node "a"' }]);
+    });
+
+    it('should require fan_out for multiple successors', () => {
+      expect(validateWorkflowGraph(
+        [node('a'), node('b'), node('c')],
+        [{ from: 'a', to: 'b' }, { from: 'a', to: 'c' }]
+      )).toEqual([{
+        path: 'nodes[0]',
+        message: 'Node "a" has 2 outgoing edges; use a fan_out node to run paths in parallel',
+      }]);
+    });
+
+    it('should require joins to merge at least two paths', () => {
+      expect(validateWorkflowGraph(
+        [node('a'), node('join', 'join')],
+        [{ from: 'a', to: 'join' }]
+      )).toEqual([
+        { path: 'nodes[1]', message: 'join node "join" needs at least 2 incoming edges' },
+      ]);
+    });
+
+    it('should only join separate branches of a fan-out', () => {
+      const check = node('check', 'condition', { branches: { true: 'yes', false: 'no' } });
+
+      expect(validateWorkflowGraph(
+        [check, node('yes'), node('no'), node('merge', 'join')],
+        [{ from: 'yes', to: 'merge' }, { from: 'no', to: 'merge' }]
+      )).toEqual([
+        { path: 'nodes[3]', message: 'join node "merge" must merge separate branches of a fan_out node' },
+      ]);
+      expect(validateWorkflowGraph(
+        [node('split', 'fan_out'), node('a'), node('b'), node('merge', 'join')],
+        [{ from: 'split', to: 'a' }, { from: 'split', to: 'b' }, { from: 'a', to: 'merge' }, { from: 'split', to: 'merge' }]
+      )).toEqual([]);
+      // Both inputs come down branch "a", so only one of them can arrive
+      expect(validateWorkflowGraph(
+        [node('split', 'fan_out'), check, node('yes'), node('no'), node('b'), node('merge', 'join')],
+        [
+          { from: 'split', to: 'check' },
+          { from: 'split', to: 'b' },
+          { from: 'yes', to: 'merge' },
+          { from: 'no', to: 'merge' },
+        ]
+      )).toEqual([
+        { path: 'nodes[5]', message: 'join node "merge" must merge separate branches of a fan_out node' },
+      ]);
+    });
+
+    it('should reject duplicate node IDs and broken branch targets', () => {
+      expect(validateWorkflowGraph(
+        [node('a', 'condition', { branches: { true: 'nowhere' } }), node('a')],
+        []
+      )).toEqual([
+        { path: 'nodes[1].id', message: 'Duplicate node id "a"' },
+        { path: 'nodes[0].branches.true', message: 'Branch references unknown node "nowhere"' },
+      ]);
+    });
+  });
+
+  describe('parallel execution', () => {
+    let activeBranches: number;
+    let stepCount: number;
+    const stepNodes = new Map<string, { nodeId: string; startedAt: Date }>();
+    // Start times of the completed steps at each join
+    const joinArrivals = new Map<string, Date[]>();
+    // Stands in for the advisory lock: a transaction that took it holds it until it ends
+    let lockQueue: Promise<void>;
+
+    beforeEach(() => {
+      activeBranches = 1;
+      stepCount = 0;
+      stepNodes.clear();
+      joinArrivals.clear();
+      lockQueue = Promise.resolve();
+      vi.mocked(prisma.$transaction).mockImplementation((async (fn: (tx: unknown) => Promise<unknown>) => {
+        let release = () => {};
+        const tx = {
+          ...prisma,
+          $executeRaw: vi.fn(async () => {
+            const held = lockQueue;
+            lockQueue = new Promise<void>((resolve) => {
+              release = resolve;
+            });
+            await held;
+            return 1;
+          }),
+        };
+        try {
+          return await fn(tx);
+        } finally {
+          release();
+        }
+      }) as any);
+      vi.mocked(prisma.workflowExecution.create).mockResolvedValue({ id: 'exec_1' } as any);
+      vi.mocked(prisma.workflowExecution.update).mockImplementation((async (args: any) => {
+        const change = args.data.activeBranches;
+        if (change?.increment) activeBranches += change.increment;
+        return { activeBranches };
+      }) as any);
+      vi.mocked(prisma.workflowExecution.updateMany).mockImplementation((async (args: any) => {
+        if (args.where.activeBranches !== undefined && args.where.activeBranches !== activeBranches) {
+          return { count: 0 };
+        }
+        const change = args.data.activeBranches;
+        if (change?.decrement) activeBranches -= change.decrement;
+        return { count: 1 };
+      }) as any);
+      vi.mocked(prisma.workflowStep.create).mockImplementation((async (args: any) => {
+        const id = `step_${++stepCount}`;
+        stepNodes.set(id, { nodeId: args.data.nodeId, startedAt: new Date() });
+        return { id };
+      }) as any);
+      vi.mocked(prisma.workflowStep.update).mockImplementation((async (args: any) => {
+        const step = stepNodes.get(args.where.id);
+        if (step && args.data.status === 'COMPLETED') {
+          joinArrivals.set(step.nodeId, [...(joinArrivals.get(step.nodeId) ?? []), step.startedAt]);
+        }
+        return { id: args.where.id };
+      }) as any);
+      vi.mocked(prisma.workflowStep.count).mockImplementation((async (args: any) =>
+        (joinArrivals.get(args.where.nodeId) ?? []).filter((startedAt) =>
+          !args.where.startedAt || startedAt >= args.where.startedAt.gte
+        ).length) as any);
+    });
+
+    let completions: () => number;
+
+    beforeEach(() => {
+      let completed = 0;
+      const updateMany = vi.mocked(prisma.workflowExecution.updateMany).getMockImplementation()!;
+      vi.mocked(prisma.workflowExecution.updateMany).mockImplementation((async (args: any) => {
+        const result = await updateMany(args);
+        if (args.data.status === 'COMPLETED') completed += result.count;
+        return result;
+      }) as any);
+      completions = () => completed;
+    });
+
+    it('should run every branch of a fan-out and continue once after an all-join', async () => {
+      mockWorkflow(
+        [node('split', 'fan_out'), node('a'), node('b'), node('merge', 'join'), node('after')],
+        [
+          { from: 'split', to: 'a' },
+          { from: 'split', to: 'b' },
+          { from: 'a', to: 'merge' },
+          { from: 'b', to: 'merge' },
+          { from: 'merge', to: 'after' },
+        ]
+      );
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      const bodies = vi.mocked(createMessage).mock.calls.map(([, input]) => input.body);
+      expect(bodies).toEqual(['a', 'b', 'after']);
+      expect(completions()).toBe(1);
+      expect(activeBranches).toBe(0);
+    });
+
+    it('should continue after the first arrival at an any-join', async () => {
+      mockWorkflow(
+        [node('split', 'fan_out'), node('a'), node('b'), node('merge', 'join', { config: { mode: 'any' } }), node('after')],
+        [
+          { from: 'split', to: 'a' },
+          { from: 'split', to: 'b' },
+          { from: 'a', to: 'merge' },
+          { from: 'b', to: 'merge' },
+          { from: 'merge', to: 'after' },
+        ]
+      );
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      const bodies = vi.mocked(createMessage).mock.calls.map(([, input]) => input.body);
+      expect(bodies).toEqual(['a', 'after', 'b']);
+      expect(completions()).toBe(1);
+    });
+
+    it('should let exactly one of two concurrent arrivals pass a join', async () => {
+      const nodes = [
+        node('split', 'fan_out'),
+        node('wait_a', 'wait', { config: { duration: '1h' } }),
+        node('wait_b', 'wait_for_event', { config: { event_name: 'paid', timeout: '1d' } }),
+        node('merge', 'join'),
+        node('after'),
+      ];
+      const edges = [
+        { from: 'split', to: 'wait_a' },
+        { from: 'split', to: 'wait_b' },
+        { from: 'wait_a', to: 'merge' },
+        { from: 'wait_b', to: 'merge' },
+        { from: 'merge', to: 'after' },
+      ];
+      activeBranches = 2;
+      vi.mocked(prisma.workflowExecution.findUnique).mockResolvedValue({
+        id: 'exec_1',
+        status: 'RUNNING',
+        userId: 'user_1',
+        deviceId: 'dev_1',
+        workflowVersion: 1,
+        context: {},
+        workflow: { id: 'wf_1', appId: 'app_1', version: 1, nodes, edges },
+      } as any);
+
+      // The scheduler resumes one branch while the events route resumes the other
+      await Promise.all([
+        resumeExecution('exec_1', 'wait_a', 'timeout'),
+        resumeExecution('exec_1', 'wait_b', 'event'),
+      ]);
+
+      const bodies = vi.mocked(createMessage).mock.calls.map(([, input]) => input.body);
+      expect(bodies).toEqual(['after']);
+      expect(completions()).toBe(1);
+      expect(activeBranches).toBe(0);
+    });
+
+    describe('after an operator action', () => {
+      const nodes = [node('split', 'fan_out'), node('a'), node('b'), node('merge', 'join'), node('after')];
+      const edges = [
+        { from: 'split', to: 'a' },
+        { from: 'split', to: 'b' },
+        { from: 'a', to: 'merge' },
+        { from: 'b', to: 'merge' },
+        { from: 'merge', to: 'after' },
+      ];
+      const mockExecution = (extra: Record<string, unknown> = {}) => {
+        vi.mocked(prisma.workflowExecution.findUnique).mockResolvedValue({
+          id: 'exec_1',
+          status: 'RUNNING',
+          userId: 'user_1',
+          deviceId: 'dev_1',
+          workflowVersion: 1,
+          context: {},
+          workflow: { id: 'wf_1', appId: 'app_1', version: 1, nodes, edges },
+          ...extra,
+        } as any);
+      };
+
+      it('should only count join arrivals made since the execution was moved', async () => {
+        // Both branches reached the join before the operator moved the execution back to the fan_out
+        const before = new Date(Date.now() - 120000);
+        joinArrivals.set('merge', [before, before]);
+        mockExecution({ movedAt: new Date(Date.now() - 60000) });
+
+        await continueExecution('exec_1', 'split');
+
+        const bodies = vi.mocked(createMessage).mock.calls.map(([, input]) => input.body);
+        expect(bodies).toEqual(['a', 'b', 'after']);
+        expect(completions()).toBe(1);
+        expect(activeBranches).toBe(0);
+      });
+
+      it('should pass an all-join once when a failed branch is retried', async () => {
+        // Branch a reached the join; branch b failed and is retried on its own
+        joinArrivals.set('merge', [new Date(Date.now() - 60000)]);
+        mockExecution();
+
+        await continueExecution('exec_1', 'b');
+
+        const bodies = vi.mocked(createMessage).mock.calls.map(([, input]) => input.body);
+        expect(bodies).toEqual(['b', 'after']);
+        expect(completions()).toBe(1);
+        expect(activeBranches).toBe(0);
+      });
+    });
+
+    it('should keep the execution running while a branch waits', async () => {
+      mockWorkflow(
+        [node('split', 'fan_out'), node('pause', 'wait', { config: { duration: '1h' } }), node('now'), node('later')],
+        [
+          { from: 'split', to: 'pause' },
+          { from: 'split', to: 'now' },
+          { from: 'pause', to: 'later' },
+        ]
+      );
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(createMessage).toHaveBeenCalledTimes(1);
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'PENDING' }),
+      }));
+      expect(completions()).toBe(0);
+      expect(activeBranches).toBe(1);
+    });
+
+    it('should not complete an execution that stopped running', async () => {
+      vi.mocked(prisma.workflowExecution.updateMany).mockResolvedValue({ count: 0 });
+
+      await finishBranch('exec_1');
+
+      expect(prisma.workflowExecution.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.workflowExecution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'exec_1', status: 'RUNNING' },
+        data: { activeBranches: { decrement: 1 } },
+      });
+      expect(completions()).toBe(0);
+    });
+  });
+
+  describe('validateWorkflowNodeConfigs', () => {
+    it('should accept valid action configs', () => {
+      expect(validateWorkflowNodeConfigs([
+        node('hook', 'webhook', { config: { url: 'https://example.com/hook', body: { user: '{{userId}}' } } }),
+        node('tag', 'set_user_attribute', { config: { attribute: 'plan', value: 'pro' } }),
+        node('resolve', 'resolve_conversation', { config: {} }),
+      ])).toEqual([]);
+    });
+
+    it('should locate unknown types and invalid config fields', () => {
+      expect(validateWorkflowNodeConfigs([
+        node('a', 'send_sms'),
+        node('b', 'webhook', { config: { url: 'ftp://example.com', method: 'POST' } }),
+        node('c', 'wait', { config: { duration: 'soon' } }),
+      ])).toEqual([
+        { path: 'nodes[0].type', message: 'Unknown node type "send_sms"' },
+        { path: 'nodes[1].config.url', message: 'url must be http or https' },
+        { path: 'nodes[2].config.duration', message: 'duration must look like 30m, 2h or 3d' },
+      ]);
+    });
+
+    it('should locate template syntax errors', () => {
+      expect(validateWorkflowNodeConfigs([
+        node('a', 'send_message', { config: { body: '{{#if user.name}}Hi' } }),
+        node('b', 'webhook', { config: { url: 'https://example.com/hook', body: { plan: '{{ plan | shout }}' } } }),
+      ])).toEqual([
+        { path: 'nodes[0].config.body', message: '{{#if}} is missing its {{/if}}' },
+        { path: 'nodes[1].config.body.plan', message: 'Unknown filter "shout"' },
+      ]);
+    });
+  });
+
+  describe('conditions', () => {
+    const context = {
+      userId: 'user_1',
+      plan: 'pro',
+      user: { email: 'ada@example.com', attributes: { plan: 'pro', signed_up_at: '2026-10-15T00:00:00Z' } },
+      event: { plan: 'pro', tags: ['beta'] },
+    };
+    const now = new Date('2026-10-19T00:00:00Z');
+
+    it('should keep evaluating flat fields', () => {
+      expect(evaluateCondition({ field: 'plan', operator: 'eq', value: 'pro' }, context)).toBe(true);
+      expect(evaluateCondition({ field: 'plan', operator: 'neq', value: 'pro' }, context)).toBe(false);
+    });
+
+    it('should resolve dotted paths and the new operators', () => {
+      expect(evaluateCondition({ field: 'user.attributes.plan', operator: 'in', value: ['pro', 'team'] }, context))
+        .toBe(true);
+      expect(evaluateCondition({ field: 'user.attributes.plan', operator: 'not_in', value: ['pro'] }, context))
+        .toBe(false);
+      expect(evaluateCondition({ field: 'user.name', operator: 'not_exists' }, context)).toBe(true);
+      expect(evaluateCondition({ field: 'event.tags', operator: 'contains', value: 'beta' }, context)).toBe(true);
+      expect(evaluateCondition({ field: 'user.email', operator: 'matches', value: '@example\\.com$' }, context))
+        .toBe(true);
+    });
+
+    it('should only run regular expressions that cannot backtrack without bound', () => {
+      for (const pattern of ['(a+)+$', '(\\w?,)*', '(a|ab)*c', '((ab)*c)+', '(a)\\1']) {
+        expect(isSafeRegex(pattern)).toBe(false);
+      }
+      for (const pattern of ['^[a-z0-9._%+-]+@example\\.com$', '(?:\\.\\d+)?', '(ab){2}', '[(+]+', '^(pro|team)$']) {
+        expect(isSafeRegex(pattern)).toBe(true);
+      }
+
+      // A pattern saved before screening never matches rather than hanging the request
+      expect(evaluateCondition({ field: 'name', operator: 'matches', value: '(a+)+$' }, { name: `${'a'.repeat(40)}!` }))
+        .toBe(false);
+      expect(evaluateCondition({ field: 'name', operator: 'matches', value: 'a' }, { name: 'a'.repeat(2000) }))
+        .toBe(false);
+      expect(validateWorkflowNodeConfigs([
+        node('check', 'condition', { config: { field: 'email', operator: 'matches', value: '(.*a){12}' } }),
+      ])).toEqual([{
+        path: 'nodes[0].config.value',
+        message: 'value must not repeat a group that contains a quantifier or |, or use backreferences',
+      }]);
+    });
+
+    it('should compare dates relative to now', () => {
+      const signedUp = { field: 'user.attributes.signed_up_at', value: '7d' };
+
+      expect(evaluateCondition({ ...signedUp, operator: 'within_last' }, context, { now })).toBe(true);
+      expect(evaluateCondition({ ...signedUp, operator: 'older_than' }, context, { now })).toBe(false);
+      expect(evaluateCondition({ ...signedUp, operator: 'older_than', value: '2d' }, context, { now })).toBe(true);
+    });
+
+    it('should combine nested AND/OR groups', () => {
+      const condition = {
+        operator: 'AND',
+        conditions: [
+          { field: 'user.attributes.plan', operator: 'eq', value: 'pro' },
+          {
+            operator: 'OR',
+            conditions: [
+              { field: 'user.name', operator: 'exists' },
+              { type: 'event', event_name: 'purchase', operator: 'gte', value: 2 },
+            ],
+          },
+        ],
+      };
+
+      expect(evaluateCondition(condition, context, { countEvents: () => 3 })).toBe(true);
+      expect(evaluateCondition(condition, context, { countEvents: () => 1 })).toBe(false);
+    });
+
+    it('should locate invalid conditions inside groups', () => {
+      expect(validateWorkflowNodeConfigs([
+        node('check', 'condition', {
+          config: {
+            operator: 'OR',
+            conditions: [
+              { field: 'plan', operator: 'eq', value: 'pro' },
+              { operator: 'AND', conditions: [{ field: 'email', operator: 'matches', value: '(' }] },
+              { type: 'event', event_name: 'purchase', operator: 'gt' },
+            ],
+          },
+        }),
+      ])).toEqual([
+        { path: 'nodes[0].config.conditions.1.conditions.0.value', message: 'value must be a valid regular expression' },
+        { path: 'nodes[0].config.conditions.2.value', message: 'value is required when comparing event counts' },
+      ]);
+    });
+
+    it('should limit how deeply conditions nest', () => {
+      let condition: Record<string, unknown> = { field: 'plan', operator: 'exists' };
+      for (let depth = 0; depth < 7; depth++) {
+        condition = { operator: 'AND', conditions: [condition] };
+      }
+
+      expect(validateWorkflowNodeConfigs([node('check', 'condition', { config: condition })])).toEqual([
+        { path: 'nodes[0].config', message: 'Conditions can be nested at most 5 levels deep' },
+      ]);
+    });
+
+    it('should count the user\'s recent events for event history conditions', async () => {
+      vi.mocked(prisma.workflowExecution.create).mockResolvedValue({ id: 'exec_1' } as any);
+      vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+      vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_1' } as any);
+      vi.mocked(prisma.event.count).mockResolvedValue(0);
+      mockWorkflow([
+        node('check', 'condition', {
+          config: { type: 'event', event_name: 'purchase', within: '7d', operator: 'not_exists' },
+          branches: { true: 'nudge', false: 'thanks' },
+        }),
+        node('nudge'),
+        node('thanks'),
+      ], []);
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(prisma.event.count).toHaveBeenCalledWith({
+        where: {
+          appId: 'app_1',
+          userId: 'user_1',
+          eventName: 'purchase',
+          eventTimestamp: { gte: expect.any(Date) },
+        },
+      });
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_1' },
+        data: { status: 'COMPLETED', output: { result: true }, completedAt: expect.any(Date) },
+      });
+      expect(createMessage).toHaveBeenCalledTimes(1);
+      expect(createMessage).toHaveBeenCalledWith(
+        'conv_1',
+        expect.objectContaining({ body: 'nudge' }),
+        'app_1',
+        'dev_1',
+        'agent',
+        expect.objectContaining({ source: 'workflow' })
+      );
+    });
+  });
+
+  describe('getWorkflowTemplateWarnings', () => {
+    it('should report variables the execution context does not provide', () => {
+      expect(getWorkflowTemplateWarnings([
+        node('a', 'send_message', { config: { body: 'Hi {{ user.name }}, {{ event.plan }} {{ plan }}' } }),
+      ])).toEqual([
+        { path: 'nodes[0].config.body', message: 'Unknown variable "plan"; trigger properties are available as event.plan' },
+      ]);
+    });
+  });
+
+  describe('actions', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+      vi.mocked(prisma.workflowExecution.create).mockResolvedValue({ id: 'exec_1' } as any);
+      vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+      vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_1' } as any);
+      vi.mocked(prisma.segment.findFirst).mockResolvedValue({ id: 'seg_1' } as any);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should post the templated webhook body and record the response', async () => {
+      fetchMock.mockResolvedValue(new Response('accepted', { status: 202 }));
+      mockWorkflow([node('hook', 'webhook', {
+        config: { url: 'https://example.com/hook', body: { user: '{{userId}}', plan: '{{plan}}' } },
+      })], []);
+
+      await executeWorkflow('wf_1', { userId: 'user_1', payload: { plan: 'pro' } });
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/hook', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ user: 'user_1', plan: 'pro' }),
+      }));
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_1' },
+        data: {
+          status: 'COMPLETED',
+          output: { status: 202, response_body: 'accepted' },
+          completedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should refuse webhook destinations on private or link-local addresses', async () => {
+      vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue({ output: { attempt: 3, next_attempt: 4 } } as any);
+
+      for (const url of ['http://169.254.169.254/latest/meta-data', 'https://internal.example.com/admin', 'http://[::1]:8080/']) {
+        vi.mocked(prisma.workflowExecution.update).mockClear();
+        mockWorkflow([node('hook', 'webhook', { config: { url } })], []);
+
+        await executeWorkflow('wf_1', { userId: 'user_1' });
+
+        expect(prisma.workflowExecution.update).toHaveBeenLastCalledWith({
+          where: { id: 'exec_1' },
+          data: { status: 'FAILED', errorMessage: expect.stringContaining('private or reserved address') },
+        });
+      }
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should not follow webhook redirects to private addresses', async () => {
+      vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue({ output: { attempt: 3, next_attempt: 4 } } as any);
+      fetchMock.mockResolvedValue(new Response(null, { status: 302, headers: { location: 'http://127.0.0.1:6379/' } }));
+      mockWorkflow([node('hook', 'webhook', { config: { url: 'https://example.com/hook' } })], []);
+
+      await executeWorkflow('wf_1', { userId: 'user_1' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/hook', expect.objectContaining({ redirect: 'manual' }));
+      expect(prisma.workflowExecution.update).toHaveBeenLastCalledWith({
+        where: { id: 'exec_1' },
+        data: { status: 'FAILED', errorMessage: '127.0.0.1 resolves to a private or reserved address' },
+      });
+    });
+
+    it('should classify reserved addresses', () => {
+      expect(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '100.64.0.1', '0.0.0.0', '::1', 'fd12::1', 'fe80::1', '::ffff:169.254.169.254']
+        .filter((address) => !isBlockedAddress(address))).toEqual([]);
+      expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111'].filter(isBlockedAddress)).toEqual([]);
+    });
+
+    it('should render templates against the user profile and trigger properties', async () => {
+      vi.mocked(prisma.conversation.findFirst).mockResolvedValue({
+        metadata: { user: { id: 'user_1', name: 'Ada', attributes: { plan: 'pro' } } },
+      } as any);
+      mockWorkflow([node('hi', 'send_message', {
+        config: { body: 'Hi {{ user.name }}, your {{ user.attributes.plan | upcase }} order of {{ event.total }} shipped' },
+      })], []);
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1', payload: { total: '$20' } });
+
+      expect(createMessage).toHaveBeenCalledWith(
+        'conv_1',
+        expect.objectContaining({ body: 'Hi Ada, your PRO order of $20 shipped' }),
+        'app_1',
+        'dev_1',
+        'agent',
+        expect.objectContaining({ source: 'workflow' })
+      );
+    });
+
+    it('should park a failed webhook step for a retry with backoff', async () => {
+      fetchMock.mockResolvedValue(new Response('nope', { status: 500 }));
+      vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue({ output: { attempt: 1, next_attempt: 2 } } as any);
+      mockWorkflow([node('hook', 'webhook', { config: { url: 'https://example.com/hook' } }), node('after')], [
+        { from: 'hook', to: 'after' },
+      ]);
+      const before = Date.now();
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_1' },
+        data: {
+          status: 'PENDING',
+          errorMessage: 'Webhook responded with HTTP 500',
+          output: { attempt: 2, next_attempt: 3 },
+          resumeAt: expect.any(Date),
+        },
+      });
+      const { resumeAt } = vi.mocked(prisma.workflowStep.update).mock.calls[0][0].data as { resumeAt: Date };
+      // Second attempt: the 30s backoff doubled
+      expect(resumeAt.getTime() - before).toBeGreaterThanOrEqual(60 * 1000);
+      expect(resumeAt.getTime() - before).toBeLessThan(61 * 1000);
+      expect(createMessage).not.toHaveBeenCalled();
+      expect(prisma.workflowExecution.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'FAILED' }),
+      }));
+    });
+
+    it('should follow the on_error branch once retries run out', async () => {
+      vi.mocked(createMessage).mockRejectedValueOnce(new Error('database unavailable'));
+      vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue({ output: { attempt: 2, next_attempt: 3 } } as any);
+      mockWorkflow([
+        node('hi', 'send_message', { branches: { on_error: 'alert' } }),
+        node('after'),
+        node('alert'),
+      ], [{ from: 'hi', to: 'after' }]);
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_1' },
+        data: { status: 'FAILED', errorMessage: 'database unavailable', completedAt: expect.any(Date) },
+      });
+      expect(createMessage).toHaveBeenCalledTimes(2);
+      expect(createMessage).toHaveBeenLastCalledWith(
+        'conv_1',
+        expect.objectContaining({ body: 'alert' }),
+        'app_1',
+        'dev_1',
+        'agent',
+        expect.objectContaining({ source: 'workflow' })
+      );
+    });
+
+    it('should fail the execution when the webhook returns an error status', async () => {
+      fetchMock.mockResolvedValue(new Response('nope', { status: 500 }));
+      // The last of the webhook's attempts
+      vi.mocked(prisma.workflowStep.findFirst).mockResolvedValue({ output: { attempt: 3, next_attempt: 4 } } as any);
+      mockWorkflow([node('hook', 'webhook', { config: { url: 'https://example.com/hook' } }), node('after')], [
+        { from: 'hook', to: 'after' },
+      ]);
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(createMessage).not.toHaveBeenCalled();
+      expect(prisma.workflowExecution.update).toHaveBeenLastCalledWith({
+        where: { id: 'exec_1' },
+        data: { status: 'FAILED', errorMessage: 'Webhook responded with HTTP 500' },
+      });
+    });
+
+    it('should add the user to a saved segment', async () => {
+      mockWorkflow([node('tag', 'add_to_segment', { config: { segment_id: 'seg_1' } })], []);
+
+      await executeWorkflow('wf_1', { userId: 'user_1' });
+
+      expect(prisma.segmentMember.upsert).toHaveBeenCalledWith({
+        where: { segmentId_userId: { segmentId: 'seg_1', userId: 'user_1' } },
+        update: { excluded: false },
+        create: { segmentId: 'seg_1', userId: 'user_1', excluded: false },
+      });
+    });
+
+    it('should fail on an unknown node type instead of skipping it', async () => {
+      mockWorkflow([node('a', 'send_sms')], []);
+
+      await executeWorkflow('wf_1', { userId: 'user_1' });
+
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_1' },
+        data: { status: 'FAILED', errorMessage: 'Unknown node type "send_sms"' },
+      });
+    });
+  });
+
+  describe('wait_for_event', () => {
+    const waitNode = node('await', 'wait_for_event', {
+      config: {
+        event_name: 'onboarding_completed',
+        filters: [{ field: 'step', operator: 'eq', value: 'done' }],
+        timeout: '2d',
+      },
+      branches: { timeout: 'nudge' },
+    });
+    const nodes = [waitNode, node('thanks'), node('nudge')];
+    const edges = [{ from: 'await', to: 'thanks' }];
+
+    it('should accept event and timeout branches in the graph', () => {
+      expect(validateWorkflowGraph(nodes, edges)).toEqual([]);
+      expect(validateWorkflowNodeConfigs(nodes)).toEqual([]);
+    });
+
+    it('should follow the timeout branch, or end the path without one', () => {
+      expect(getWaitForEventNextNodeId(waitNode, edges, 'event')).toBe('thanks');
+      expect(getWaitForEventNextNodeId(waitNode, edges, 'timeout')).toBe('nudge');
+      expect(getWaitForEventNextNodeId({ ...waitNode, branches: undefined }, edges, 'timeout')).toBeNull();
+    });
+
+    it('should park the execution until the event or timeout', async () => {
+      mockWorkflow(nodes, edges);
+      vi.mocked(prisma.workflowExecution.create).mockResolvedValue({ id: 'exec_1' } as any);
+      vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_1' } as any);
+
+      await executeWorkflow('wf_1', { userId: 'user_1', deviceId: 'dev_1' });
+
+      expect(prisma.workflowStep.update).toHaveBeenCalledWith({
+        where: { id: 'step_1' },
+        data: {
+          status: 'PENDING',
+          output: { durationMs: 2 * 24 * 60 * 60 * 1000, event_name: 'onboarding_completed' },
+          resumeAt: expect.any(Date),
+        },
+      });
+      expect(createMessage).not.toHaveBeenCalled();
+    });
+
+    describe('resumeExecution', () => {
+      beforeEach(() => {
+        vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_2' } as any);
+        vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+      });
+
+      const mockExecution = (workflowNodes: unknown[], workflowEdges: unknown[]) =>
+        vi.mocked(prisma.workflowExecution.findUnique).mockResolvedValue({
+          id: 'exec_1',
+          status: 'RUNNING',
+          userId: 'user_1',
+          deviceId: 'dev_1',
+          context: { userId: 'user_1' },
+          workflow: { id: 'wf_1', appId: 'app_1', nodes: workflowNodes, edges: workflowEdges },
+        } as any);
+
+      it('should follow the timeout branch when the event never arrives', async () => {
+        mockExecution(nodes, edges);
+
+        await resumeExecution('exec_1', 'await', 'timeout');
+
+        expect(vi.mocked(createMessage).mock.calls.map(([, input]) => input.body)).toEqual(['nudge']);
+      });
+
+      it('should follow the edge after a plain wait', async () => {
+        mockExecution([node('pause', 'wait', { config: { duration: '1h' } }), node('after')], [{ from: 'pause', to: 'after' }]);
+
+        await resumeExecution('exec_1', 'pause', 'timeout');
+
+        expect(vi.mocked(createMessage).mock.calls.map(([, input]) => input.body)).toEqual(['after']);
+      });
+
+      it('should run a step parked for a retry again', async () => {
+        mockExecution([node('hi'), node('after')], [{ from: 'hi', to: 'after' }]);
+
+        await resumeExecution('exec_1', 'hi', 'timeout');
+
+        expect(vi.mocked(createMessage).mock.calls.map(([, input]) => input.body)).toEqual(['hi', 'after']);
+      });
+
+      it('should leave cancelled executions alone', async () => {
+        mockExecution(nodes, edges);
+        vi.mocked(prisma.workflowExecution.findUnique).mockResolvedValue({ id: 'exec_1', status: 'CANCELLED' } as any);
+
+        await resumeExecution('exec_1', 'await', 'timeout');
+
+        expect(prisma.workflowExecution.update).not.toHaveBeenCalled();
+        expect(createMessage).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('when the user tracks events', () => {
+      beforeEach(() => {
+        vi.mocked(prisma.workflow.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.workflowStep.findMany).mockResolvedValue([{
+          id: 'step_1',
+          executionId: 'exec_1',
+          nodeId: 'await',
+          output: { durationMs: 1000, event_name: 'onboarding_completed' },
+          execution: { workflow: { id: 'wf_1', appId: 'app_1', nodes, edges } },
+        }] as any);
+        vi.mocked(prisma.workflowStep.updateMany).mockResolvedValue({ count: 1 });
+        vi.mocked(prisma.workflowStep.create).mockResolvedValue({ id: 'step_2' } as any);
+        vi.mocked(prisma.workflowExecution.update).mockResolvedValue({ activeBranches: 0 } as any);
+        vi.mocked(prisma.workflowExecution.findUnique).mockResolvedValue({
+          id: 'exec_1',
+          status: 'RUNNING',
+          userId: 'user_1',
+          deviceId: 'dev_1',
+          context: { userId: 'user_1' },
+          workflow: { id: 'wf_1', appId: 'app_1', nodes, edges },
+        } as any);
+      });
+
+      it('should resume on a matching event', async () => {
+        await triggerWorkflows({
+          appId: 'app_1',
+          userId: 'user_1',
+          eventName: 'onboarding_completed',
+          properties: { step: 'done' },
+        });
+
+        expect(prisma.workflowStep.findMany).toHaveBeenCalledWith(expect.objectContaining({
+          where: expect.objectContaining({
+            output: { path: ['event_name'], equals: 'onboarding_completed' },
+            execution: { userId: 'user_1', status: 'RUNNING', workflow: { appId: 'app_1' } },
+          }),
+        }));
+        expect(prisma.workflowStep.updateMany).toHaveBeenCalledWith({
+          where: { id: 'step_1', status: 'PENDING' },
+          data: expect.objectContaining({ status: 'COMPLETED', output: expect.objectContaining({ outcome: 'event' }) }),
+        });
+        expect(vi.mocked(createMessage).mock.calls.map(([, input]) => input.body)).toEqual(['thanks']);
+      });
+
+      it('should keep waiting when the event properties do not match', async () => {
+        await triggerWorkflows({
+          appId: 'app_1',
+          userId: 'user_1',
+          eventName: 'onboarding_completed',
+          properties: { step: 'profile' },
+        });
+
+        expect(prisma.workflowStep.updateMany).not.toHaveBeenCalled();
+        expect(createMessage).not.toHaveBeenCalled();
+      });
+
+      it('should not resume a step the scheduler already timed out', async () => {
+        vi.mocked(prisma.workflowStep.updateMany).mockResolvedValue({ count: 0 });
+
+        await triggerWorkflows({
+          appId: 'app_1',
+          userId: 'user_1',
+          eventName: 'onboarding_completed',
+          properties: { step: 'done' },
+        });
+
+        expect(createMessage).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
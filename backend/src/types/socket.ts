@@ -82,9 +82,37 @@ export interface ServerToAdminEvents {
   'session:disconnect': (data: { connection_id: string; device_id: string; reason: string }) => void;
   'presence:change': (data: { app_id: string; device_id: string; is_online: boolean }) => void;
   'user:typing': (data: { conversation_id: string; device_id: string; is_typing: boolean }) => void;
+  'conversation:assigned': (data: ConversationAssignedEvent) => void;
+  'broadcast:progress': (data: BroadcastProgressEvent) => void;
   'pong': () => void;
 }
 
+/**
+ * Conversation ownership change, emitted to the admin app room
+ */
+export interface ConversationAssignedEvent {
+  conversation_id: string;
+  assignee_id: string | null;
+  previous_assignee_id: string | null;
+  assigned_by: string | null;
+  assigned_at: string | null;
+  reason: 'manual' | 'auto';
+}
+
+/**
+ * Background broadcast send progress, emitted to the admin app room after each batch
+ */
+export interface BroadcastProgressEvent {
+  broadcast_id: string;
+  status: 'sending' | 'sent' | 'failed';
+  total_recipients: number;
+  sent: number;
+  failed: number;
+  // Held back by a frequency cap
+  skipped: number;
+  pending: number;
+}
+
 /**
  * Conversation join response data
  */
@@ -140,4 +168,14 @@ export interface Message {
   sender: 'user' | 'agent' | 'system';
   created_at: string;
   status: 'QUEUED' | 'SENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  attachments?: MessageAttachment[];
+}
+
+export interface MessageAttachment {
+  id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  url: string | null;
+  url_expires_at: string | null;
 }
@@ -15,3 +15,7 @@ export function generateMessageId(): string {
 export function generateConnectionId(): string {
   return `conn_${uuidv4().replace(/-/g, '').substring(0, 12)}`;
 }
+
+export function generateAttachmentId(): string {
+  return `att_${uuidv4().replace(/-/g, '').substring(0, 12)}`;
+}